@@ -0,0 +1,139 @@
+#!/usr/bin/env node
+import { randomUUID } from 'crypto';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import { forkDraft, getDraft, setDraftStore } from '../lib/lambda/shared/draft-db';
+import { setCaseStore } from '../lib/lambda/shared/case-db';
+import { bedrockProvider, setModelProvider } from '../lib/lambda/shared/model-provider';
+import { listTranscripts, setTranscriptStore } from '../lib/lambda/shared/transcript-db';
+import { GenerateCaseInputSchema, type GenerateCaseInput, type PipelineStep } from '../lib/lambda/shared/generation-state';
+import { createFileCaseStore, createFileDraftStore, createFileTranscriptStore } from '../lib/local/file-store';
+import {
+  createFixtureProvider,
+  createRecordingProvider,
+  createTranscriptReplayProvider,
+} from '../lib/local/fixture-provider';
+import { RESUMABLE_STEPS, runPipeline } from '../lib/local/pipeline';
+
+const USAGE = `Run the case generation pipeline locally (no Step Functions, no DynamoDB).
+Bedrock is called with your local AWS credentials unless --replay is given.
+
+Usage:
+  npm run generate:local -- --case-date 2026-01-31 [--difficulty medium] [--crime-type murder] [--model sonnet] [--budget 2.50]
+  npm run generate:local -- --resume <draftId> --from <step>
+  npm run generate:local -- --fork <draftId> --from <step>
+
+Options:
+  --model-config <json>     Full GenerationModelConfig, e.g. '{"default":"haiku","steps":{"generateEvents":{"model":"opus","thinkingBudget":32000}}}'
+  --data-dir <dir>          Where drafts/ and cases/ JSON files live (default: local-data)
+  --record <dir>            Save every model response as a fixture under <dir>
+  --replay <dir>            Answer model calls from fixtures under <dir> (no Bedrock)
+  --replay-draft <draftId>  Answer model calls from a local draft's transcripts (no Bedrock)
+  --setting-flavor <text>   Pin GenerateTemplate's setting suggestion (needed to replay a new run)
+  --prose-batch-size <n>    Write prose scenes in parallel batches of n, from a shared continuity brief
+  --simulation-runs <n>     Play the finished case n times per strategy before storing it (see npm run simulate)
+  --from <step>             One of: ${RESUMABLE_STEPS.join(', ')}
+`;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      'case-date': { type: 'string' },
+      difficulty: { type: 'string' },
+      'crime-type': { type: 'string' },
+      model: { type: 'string' },
+      'model-config': { type: 'string' },
+      budget: { type: 'string' },
+      resume: { type: 'string' },
+      fork: { type: 'string' },
+      from: { type: 'string' },
+      'setting-flavor': { type: 'string' },
+      'prose-batch-size': { type: 'string' },
+      'simulation-runs': { type: 'string' },
+      'data-dir': { type: 'string', default: 'local-data' },
+      record: { type: 'string' },
+      replay: { type: 'string' },
+      'replay-draft': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const dataDir = resolve(values['data-dir']!);
+  setDraftStore(createFileDraftStore(dataDir));
+  setCaseStore(createFileCaseStore(dataDir));
+  setTranscriptStore(createFileTranscriptStore(dataDir));
+
+  const providerFlags = [values.record, values.replay, values['replay-draft']].filter(Boolean);
+  if (providerFlags.length > 1) throw new Error('Use only one of --record, --replay, --replay-draft');
+  if (values.replay) setModelProvider(createFixtureProvider(resolve(values.replay)));
+  if (values.record) setModelProvider(createRecordingProvider(bedrockProvider, resolve(values.record)));
+  if (values['replay-draft']) {
+    setModelProvider(createTranscriptReplayProvider(await listTranscripts(values['replay-draft'])));
+  }
+
+  let input: GenerateCaseInput;
+  let draftId: string;
+  let startFromStep: PipelineStep | undefined;
+
+  const sourceDraftId = values.resume ?? values.fork;
+  if (sourceDraftId) {
+    if (values.resume && values.fork) throw new Error('Use either --resume or --fork, not both');
+    if (!values.from) throw new Error('--resume and --fork require --from <step>');
+    startFromStep = values.from as PipelineStep;
+    if (!RESUMABLE_STEPS.includes(startFromStep)) {
+      throw new Error(`--from must be one of: ${RESUMABLE_STEPS.join(', ')}`);
+    }
+
+    const draft = values.fork
+      ? await forkDraft(sourceDraftId, randomUUID(), startFromStep)
+      : await getDraft(sourceDraftId);
+    if (!draft) throw new Error(`Draft not found: ${sourceDraftId}`);
+    if (!draft.input) {
+      throw new Error('Draft has no input; cannot resume. Run the pipeline from the start at least once.');
+    }
+    input = draft.input;
+    draftId = draft.draftId;
+  } else {
+    if (!values['case-date']) throw new Error(`--case-date is required\n\n${USAGE}`);
+    input = GenerateCaseInputSchema.parse({
+      caseDate: values['case-date'],
+      difficulty: values.difficulty,
+      crimeType: values['crime-type'],
+      settingFlavor: values['setting-flavor'],
+      modelConfig: values['model-config']
+        ? JSON.parse(values['model-config'])
+        : values.model ? { default: values.model } : undefined,
+      budget: values.budget !== undefined ? Number(values.budget) : undefined,
+      proseBatchSize: values['prose-batch-size'] !== undefined ? Number(values['prose-batch-size']) : undefined,
+      simulationRuns: values['simulation-runs'] !== undefined ? Number(values['simulation-runs']) : undefined,
+    }) as GenerateCaseInput;
+    draftId = randomUUID();
+  }
+
+  console.log(`Draft ${draftId} (data: ${dataDir})`);
+  const startedAt = Date.now();
+  await runPipeline({
+    input,
+    draftId,
+    startFromStep,
+    onStep: (step, attempt) => {
+      const elapsed = ((Date.now() - startedAt) / 1000).toFixed(0);
+      console.log(`[${elapsed}s] ${step}${attempt > 1 ? ` (retry ${attempt - 1})` : ''}`);
+    },
+  });
+  const usage = (await getDraft(draftId))?.usage;
+  console.log(`Stored case ${input.caseDate} from draft ${draftId}`);
+  if (usage) {
+    console.log(`Model usage: ${usage.calls} calls, ${usage.inputTokens} in / ${usage.outputTokens} out, ~$${usage.costUsd.toFixed(4)}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
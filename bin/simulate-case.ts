@@ -0,0 +1,78 @@
+#!/usr/bin/env node
+import { readFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { parseArgs } from 'util';
+import { SIMULATION_STRATEGIES, simulateCase } from '../lib/game/simulator';
+import type { Case } from '../lib/types/case';
+import type { Distribution, SimulationStrategy } from '../lib/types/simulation';
+
+const USAGE = `Play a stored case headlessly with scripted strategies and report visits and scores.
+
+Usage:
+  npm run simulate -- --case path/to/case.json [--runs 200] [--seed 1] [--strategies randomWalk,oracle] [--json]
+  npm run simulate -- --case-date 2026-01-31 [--data-dir local-data]
+
+Options:
+  --case <file>          A Case JSON file (e.g. from GET /cases/<date>)
+  --case-date <date>     A case stored by generate:local, read from <data-dir>/cases/<date>.json
+  --data-dir <dir>       Where generate:local keeps cases/ (default: local-data)
+  --runs <n>             Playthroughs per strategy (default 200; oracle plays once)
+  --seed <n>             Seed for the random choices (default 1)
+  --strategies <list>    Comma-separated, from: ${SIMULATION_STRATEGIES.join(', ')}
+  --json                 Print the SimulationReport as JSON
+`;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      case: { type: 'string' },
+      'case-date': { type: 'string' },
+      'data-dir': { type: 'string', default: 'local-data' },
+      runs: { type: 'string', default: '200' },
+      seed: { type: 'string', default: '1' },
+      strategies: { type: 'string' },
+      json: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (!values.case && !values['case-date']) throw new Error(`--case or --case-date is required\n\n${USAGE}`);
+
+  const file = values.case
+    ? resolve(values.case)
+    : join(resolve(values['data-dir']!), 'cases', `${values['case-date']}.json`);
+  const gameCase = JSON.parse(await readFile(file, 'utf8')) as Case;
+
+  const strategies = values.strategies?.split(',').map((s) => s.trim()) as SimulationStrategy[] | undefined;
+  for (const strategy of strategies ?? []) {
+    if (!SIMULATION_STRATEGIES.includes(strategy)) {
+      throw new Error(`Unknown strategy "${strategy}"; use: ${SIMULATION_STRATEGIES.join(', ')}`);
+    }
+  }
+  const runs = Number(values.runs);
+  if (!Number.isInteger(runs) || runs < 1) throw new Error('--runs must be a positive integer');
+
+  const report = simulateCase(gameCase, { runs, seed: Number(values.seed), strategies });
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  const describe = (d: Distribution) =>
+    `mean ${d.mean}, median ${d.median}, p90 ${d.p90}, range ${d.min}–${d.max}`;
+  console.log(`${gameCase.title} (${gameCase.caseDate}): optimal path ${report.optimalEntries} entries, seed ${report.seed}`);
+  for (const s of report.strategies) {
+    console.log(`\n${s.strategy} (${s.runs} run${s.runs !== 1 ? 's' : ''}), solved ${(s.solvedShare * 100).toFixed(0)}%`);
+    console.log(`  visits: ${describe(s.visits)}`);
+    console.log(`  scores: ${describe(s.scores)}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
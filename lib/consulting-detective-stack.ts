@@ -46,6 +46,17 @@ export class ConsultingDetectiveStack extends cdk.Stack {
       removalPolicy: cdk.RemovalPolicy.DESTROY,
     });
 
+    // One item per model call (prompts, reasoning, output), keyed by draft.
+    // Kept apart from the draft so large transcripts never push a draft past
+    // the 400 KB item limit.
+    const draftTranscriptsTable = new dynamodb.Table(this, 'DraftTranscriptsTable', {
+      tableName: 'ConsultingDetective-DraftTranscripts',
+      partitionKey: { name: 'draftId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'callId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
     // ============================================
     // Lambda Environment Variables
     // ============================================
@@ -100,6 +111,7 @@ export class ConsultingDetectiveStack extends cdk.Stack {
     const generationEnvironment = {
       ...lambdaEnvironment,
       DRAFT_CASES_TABLE_NAME: draftCasesTable.tableName,
+      DRAFT_TRANSCRIPTS_TABLE_NAME: draftTranscriptsTable.tableName,
       BEDROCK_DEFAULT_MODEL_ID: 'us.anthropic.claude-haiku-4-5-20251001-v1:0',
     };
 
@@ -152,24 +164,48 @@ export class ConsultingDetectiveStack extends cdk.Stack {
       ...generationLambdaConfig,
     });
 
+    const generateDocumentsHandler = new nodejs.NodejsFunction(this, 'GenerateDocumentsHandler', {
+      entry: join(__dirname, 'lambda/generate/generate-documents.ts'),
+      environment: generationEnvironment,
+      ...generationLambdaConfig,
+    });
+
     const generateCasebookHandler = new nodejs.NodejsFunction(this, 'GenerateCasebookHandler', {
       entry: join(__dirname, 'lambda/generate/generate-casebook.ts'),
       environment: generationEnvironment,
       ...generationLambdaConfig,
     });
 
+    const generateFollowUpsHandler = new nodejs.NodejsFunction(this, 'GenerateFollowUpsHandler', {
+      entry: join(__dirname, 'lambda/generate/generate-follow-ups.ts'),
+      environment: generationEnvironment,
+      ...generationLambdaConfig,
+    });
+
     const generateProseHandler = new nodejs.NodejsFunction(this, 'GenerateProseHandler', {
       entry: join(__dirname, 'lambda/generate/generate-prose.ts'),
       environment: generationEnvironment,
       ...proseLambdaConfig,
     });
 
+    const generateDirectoryHandler = new nodejs.NodejsFunction(this, 'GenerateDirectoryHandler', {
+      entry: join(__dirname, 'lambda/generate/generate-directory.ts'),
+      environment: generationEnvironment,
+      ...generationLambdaConfig,
+    });
+
     const generateQuestionsHandler = new nodejs.NodejsFunction(this, 'GenerateQuestionsHandler', {
       entry: join(__dirname, 'lambda/generate/generate-questions.ts'),
       environment: generationEnvironment,
       ...generationLambdaConfig,
     });
 
+    const generateSolutionHandler = new nodejs.NodejsFunction(this, 'GenerateSolutionHandler', {
+      entry: join(__dirname, 'lambda/generate/generate-solution.ts'),
+      environment: generationEnvironment,
+      ...generationLambdaConfig,
+    });
+
     const computeEventKnowledgeHandler = new nodejs.NodejsFunction(this, 'ComputeEventKnowledgeHandler', {
       entry: join(__dirname, 'lambda/generate/compute-event-knowledge.ts'),
       environment: generationEnvironment,
@@ -185,7 +221,22 @@ export class ConsultingDetectiveStack extends cdk.Stack {
     const computeOptimalPathHandler = new nodejs.NodejsFunction(this, 'ComputeOptimalPathHandler', {
       entry: join(__dirname, 'lambda/generate/compute-optimal-path.ts'),
       environment: generationEnvironment,
-      ...bundlingConfig
+      ...bundlingConfig,
+      // The exact path search holds every visited set in memory
+      memorySize: 1024,
+    });
+
+    const computeDifficultyHandler = new nodejs.NodejsFunction(this, 'ComputeDifficultyHandler', {
+      entry: join(__dirname, 'lambda/generate/compute-difficulty.ts'),
+      environment: generationEnvironment,
+      ...bundlingConfig,
+    });
+
+    const simulatePlaythroughsHandler = new nodejs.NodejsFunction(this, 'SimulatePlaythroughsHandler', {
+      entry: join(__dirname, 'lambda/generate/simulate-playthroughs.ts'),
+      environment: generationEnvironment,
+      ...bundlingConfig,
+      memorySize: 1024,
     });
 
     const validateCasebookHandler = new nodejs.NodejsFunction(this, 'ValidateCasebookHandler', {
@@ -218,6 +269,13 @@ export class ConsultingDetectiveStack extends cdk.Stack {
       ...bundlingConfig,
     });
 
+    // Prose validation calls a model (coverage judge), so it gets the LLM timeout
+    const validateProseHandler = new nodejs.NodejsFunction(this, 'ValidateProseHandler', {
+      entry: join(__dirname, 'lambda/generate/validate-prose.ts'),
+      environment: generationEnvironment,
+      ...generationLambdaConfig,
+    });
+
     const validateQuestionsHandler = new nodejs.NodejsFunction(this, 'ValidateQuestionsHandler', {
       entry: join(__dirname, 'lambda/generate/validate-questions.ts'),
       environment: generationEnvironment,
@@ -257,14 +315,21 @@ export class ConsultingDetectiveStack extends cdk.Stack {
       generateLocationsHandler,
       generateFactsHandler,
       generateIntroductionHandler,
+      generateDocumentsHandler,
       generateCasebookHandler,
+      generateFollowUpsHandler,
       generateProseHandler,
+      validateProseHandler,
+      generateDirectoryHandler,
       generateQuestionsHandler,
+      generateSolutionHandler,
     ];
 
     for (const handler of llmHandlers) {
       handler.addToRolePolicy(bedrockPolicy);
       handler.addToRolePolicy(marketplacePolicy);
+      // callModel writes one transcript record per model call
+      draftTranscriptsTable.grantWriteData(handler);
     }
 
     // DynamoDB: store step writes cases; all generation steps read/write drafts
@@ -282,12 +347,19 @@ export class ConsultingDetectiveStack extends cdk.Stack {
       generateFactsHandler,
       validateFactsHandler,
       generateIntroductionHandler,
+      generateDocumentsHandler,
       generateCasebookHandler,
       validateCasebookHandler,
+      generateFollowUpsHandler,
       generateProseHandler,
+      validateProseHandler,
+      generateDirectoryHandler,
       generateQuestionsHandler,
       validateQuestionsHandler,
       computeOptimalPathHandler,
+      computeDifficultyHandler,
+      generateSolutionHandler,
+      simulatePlaythroughsHandler,
       storeCaseHandler,
     ];
     for (const h of generationHandlers) {
@@ -328,6 +400,11 @@ export class ConsultingDetectiveStack extends cdk.Stack {
       outputPath: '$.Payload',
     });
 
+    const generateDocuments = new tasks.LambdaInvoke(this, 'GenerateDocuments', {
+      lambdaFunction: generateDocumentsHandler,
+      outputPath: '$.Payload',
+    });
+
     const generateCasebook = new tasks.LambdaInvoke(this, 'GenerateCasebook', {
       lambdaFunction: generateCasebookHandler,
       outputPath: '$.Payload',
@@ -338,6 +415,17 @@ export class ConsultingDetectiveStack extends cdk.Stack {
       outputPath: '$.Payload',
     });
 
+    const generateFollowUps = new tasks.LambdaInvoke(this, 'GenerateFollowUps', {
+      lambdaFunction: generateFollowUpsHandler,
+      outputPath: '$.Payload',
+    });
+
+    // Same handler as ValidateCasebook: re-runs the reachability BFS with the follow-ups
+    const validateFollowUps = new tasks.LambdaInvoke(this, 'ValidateFollowUps', {
+      lambdaFunction: validateCasebookHandler,
+      outputPath: '$.Payload',
+    });
+
     const validateEvents = new tasks.LambdaInvoke(this, 'ValidateEvents', {
       lambdaFunction: validateEventsHandler,
       outputPath: '$.Payload',
@@ -378,6 +466,16 @@ export class ConsultingDetectiveStack extends cdk.Stack {
       outputPath: '$.Payload',
     });
 
+    const validateProse = new tasks.LambdaInvoke(this, 'ValidateProse', {
+      lambdaFunction: validateProseHandler,
+      outputPath: '$.Payload',
+    });
+
+    const generateDirectory = new tasks.LambdaInvoke(this, 'GenerateDirectory', {
+      lambdaFunction: generateDirectoryHandler,
+      outputPath: '$.Payload',
+    });
+
     const generateQuestions = new tasks.LambdaInvoke(this, 'GenerateQuestions', {
       lambdaFunction: generateQuestionsHandler,
       outputPath: '$.Payload',
@@ -388,6 +486,21 @@ export class ConsultingDetectiveStack extends cdk.Stack {
       outputPath: '$.Payload',
     });
 
+    const computeDifficulty = new tasks.LambdaInvoke(this, 'ComputeDifficulty', {
+      lambdaFunction: computeDifficultyHandler,
+      outputPath: '$.Payload',
+    });
+
+    const generateSolution = new tasks.LambdaInvoke(this, 'GenerateSolution', {
+      lambdaFunction: generateSolutionHandler,
+      outputPath: '$.Payload',
+    });
+
+    const simulatePlaythroughs = new tasks.LambdaInvoke(this, 'SimulatePlaythroughs', {
+      lambdaFunction: simulatePlaythroughsHandler,
+      outputPath: '$.Payload',
+    });
+
     const storeCase = new tasks.LambdaInvoke(this, 'StoreCase', {
       lambdaFunction: storeCaseHandler,
       outputPath: '$.Payload',
@@ -559,8 +672,9 @@ export class ConsultingDetectiveStack extends cdk.Stack {
     generateFacts.next(validateFacts);
     validateFacts.next(checkFacts);
 
-    // Wire: GenerateIntroduction → InitGenerateCasebookRetries
-    generateIntroduction.next(initGenerateCasebookRetries);
+    // Wire: GenerateIntroduction → GenerateDocuments → InitGenerateCasebookRetries
+    generateIntroduction.next(generateDocuments);
+    generateDocuments.next(initGenerateCasebookRetries);
 
     // -- Casebook validation with retry loop --
     // After GenerateCasebook, validate the bipartite discovery graph.
@@ -580,10 +694,26 @@ export class ConsultingDetectiveStack extends cdk.Stack {
       },
     });
 
+    const initGenerateProseRetries = new sfn.Pass(this, 'InitGenerateProseRetries', {
+      parameters: {
+        'input.$': '$.input',
+        'draftId.$': '$.draftId',
+        'stepRetries': 0,
+      },
+    });
+
+    const initGenerateFollowUpsRetries = new sfn.Pass(this, 'InitGenerateFollowUpsRetries', {
+      parameters: {
+        'input.$': '$.input',
+        'draftId.$': '$.draftId',
+        'stepRetries': 0,
+      },
+    });
+
     const checkCasebookValidation = new sfn.Choice(this, 'CheckCasebookValidation')
       .when(
         sfn.Condition.booleanEquals('$.validationResult.valid', true),
-        generateProse,
+        initGenerateFollowUpsRetries,
       )
       .when(
         sfn.Condition.numberGreaterThanEquals('$.stepRetries', 1),
@@ -601,6 +731,56 @@ export class ConsultingDetectiveStack extends cdk.Stack {
     // Wire: CheckFacts (valid) → InitGenerateCasebookRetries → GenerateCasebook
     initGenerateCasebookRetries.next(generateCasebook);
 
+    // -- Follow-up validation with retry loop --
+    // ValidateCasebook runs again with the follow-ups in its BFS. A retry
+    // re-runs GenerateFollowUps only; the casebook is already valid.
+    const followUpsValidationFailed = new sfn.Fail(this, 'FollowUpsValidationFailed', {
+      cause: 'Follow-up validation failed after maximum retries',
+      error: 'FollowUpsInvalid',
+    });
+
+    const incrementGenerateFollowUpsRetries = new sfn.Pass(this, 'IncrementGenerateFollowUpsRetries', {
+      parameters: {
+        'input.$': '$.input',
+        'draftId.$': '$.draftId',
+        'validationResult.$': '$.validationResult',
+        'stepRetries': sfn.JsonPath.mathAdd(sfn.JsonPath.numberAt('$.stepRetries'), 1),
+      },
+    });
+
+    const checkFollowUps = new sfn.Choice(this, 'CheckFollowUps')
+      .when(
+        sfn.Condition.booleanEquals('$.validationResult.valid', true),
+        initGenerateProseRetries,
+      )
+      .when(
+        sfn.Condition.numberGreaterThanEquals('$.stepRetries', 1),
+        followUpsValidationFailed,
+      )
+      .otherwise(incrementGenerateFollowUpsRetries);
+
+    initGenerateFollowUpsRetries.next(generateFollowUps);
+    incrementGenerateFollowUpsRetries.next(generateFollowUps);
+    generateFollowUps.next(validateFollowUps);
+    validateFollowUps.next(checkFollowUps);
+
+    // -- Prose validation with retry loop --
+    // ValidateProse checks every scene conveys its entry's facts. A retry
+    // re-runs GenerateProse, which rewrites only the scenes with uncovered facts.
+    const proseValidationFailed = new sfn.Fail(this, 'ProseValidationFailed', {
+      cause: 'Prose validation failed after maximum retries',
+      error: 'ProseInvalid',
+    });
+
+    const incrementGenerateProseRetries = new sfn.Pass(this, 'IncrementGenerateProseRetries', {
+      parameters: {
+        'input.$': '$.input',
+        'draftId.$': '$.draftId',
+        'validationResult.$': '$.validationResult',
+        'stepRetries': sfn.JsonPath.mathAdd(sfn.JsonPath.numberAt('$.stepRetries'), 1),
+      },
+    });
+
     // -- Questions validation with retry loop --
     const questionsValidationFailed = new sfn.Fail(this, 'QuestionsValidationFailed', {
       cause: 'Question validation failed after maximum retries',
@@ -635,15 +815,37 @@ export class ConsultingDetectiveStack extends cdk.Stack {
       )
       .otherwise(incrementGenerateQuestionsRetries);
 
+    const checkProse = new sfn.Choice(this, 'CheckProse')
+      .when(
+        sfn.Condition.booleanEquals('$.validationResult.valid', true),
+        generateDirectory,
+      )
+      .when(
+        sfn.Condition.numberGreaterThanEquals('$.stepRetries', 1),
+        proseValidationFailed,
+      )
+      .otherwise(incrementGenerateProseRetries);
+
+    initGenerateProseRetries.next(generateProse);
+    incrementGenerateProseRetries.next(generateProse);
+    generateProse.next(validateProse);
+    validateProse.next(checkProse);
+
+    // Wire: GenerateDirectory → InitGenerateQuestionsRetries
+    generateDirectory.next(initGenerateQuestionsRetries);
+
     incrementGenerateQuestionsRetries.next(generateQuestions);
     initGenerateQuestionsRetries.next(generateQuestions);
     generateQuestions.next(validateQuestions);
     validateQuestions.next(checkQuestions);
-    computeOptimalPath.next(storeCase);
+    computeOptimalPath.next(computeDifficulty);
+    computeDifficulty.next(generateSolution);
+    generateSolution.next(simulatePlaythroughs);
+    simulatePlaythroughs.next(storeCase);
 
     // -- Resume from step: when input includes startFromStep + partial state, jump to that step --
     const invalidResumeStep = new sfn.Fail(this, 'InvalidResumeStep', {
-      cause: 'startFromStep must be one of: generateEvents, computeEventKnowledge, generateCharacters, generateLocations, computeFacts, generateFacts, generateIntroduction, generateCasebook, generateProse, generateQuestions',
+      cause: 'startFromStep must be one of: generateEvents, computeEventKnowledge, generateCharacters, generateLocations, computeFacts, generateFacts, generateIntroduction, generateDocuments, generateCasebook, generateFollowUps, generateProse, generateDirectory, generateQuestions',
       error: 'InvalidResumeStep',
     });
 
@@ -655,8 +857,11 @@ export class ConsultingDetectiveStack extends cdk.Stack {
       .when(sfn.Condition.stringEquals('$.startFromStep', 'computeFacts'), computeFacts)
       .when(sfn.Condition.stringEquals('$.startFromStep', 'generateFacts'), initGenerateFactsRetries)
       .when(sfn.Condition.stringEquals('$.startFromStep', 'generateIntroduction'), generateIntroduction)
+      .when(sfn.Condition.stringEquals('$.startFromStep', 'generateDocuments'), generateDocuments)
       .when(sfn.Condition.stringEquals('$.startFromStep', 'generateCasebook'), initGenerateCasebookRetries)
-      .when(sfn.Condition.stringEquals('$.startFromStep', 'generateProse'), generateProse)
+      .when(sfn.Condition.stringEquals('$.startFromStep', 'generateFollowUps'), initGenerateFollowUpsRetries)
+      .when(sfn.Condition.stringEquals('$.startFromStep', 'generateProse'), initGenerateProseRetries)
+      .when(sfn.Condition.stringEquals('$.startFromStep', 'generateDirectory'), generateDirectory)
       .when(sfn.Condition.stringEquals('$.startFromStep', 'generateQuestions'), initGenerateQuestionsRetries)
       .otherwise(invalidResumeStep);
 
@@ -682,8 +887,9 @@ export class ConsultingDetectiveStack extends cdk.Stack {
     const pipelineDefinition = hasDraftId;
     generateTemplate.next(initEventsRetries);
 
-    // Continue after checkCasebookValidation (valid) → generateProse → InitQuestionsRetries → GenerateQuestions → ...
-    generateProse.next(initGenerateQuestionsRetries);
+    // Continue after checkCasebookValidation (valid) → InitGenerateFollowUpsRetries → GenerateFollowUps → ValidateFollowUps
+    // → CheckFollowUps (valid) → InitGenerateProseRetries → GenerateProse → ValidateProse
+    // → CheckProse (valid) → InitGenerateQuestionsRetries → GenerateQuestions → ...
 
     const generationStateMachine = new sfn.StateMachine(this, 'CaseGenerationPipeline', {
       stateMachineName: 'ConsultingDetective-CaseGeneration',
@@ -710,6 +916,20 @@ export class ConsultingDetectiveStack extends cdk.Stack {
     generationStateMachine.grantRead(executionDetailHandler);
     draftCasesTable.grantReadData(executionDetailHandler);
 
+    // Model call transcripts for a draft (list summaries, fetch one in full)
+    const listTranscriptsHandler = new nodejs.NodejsFunction(this, 'ListTranscriptsHandler', {
+      entry: join(__dirname, 'lambda/generation/list-transcripts.ts'),
+      environment: generationEnvironment,
+      ...bundlingConfig,
+    });
+    const getTranscriptHandler = new nodejs.NodejsFunction(this, 'GetTranscriptHandler', {
+      entry: join(__dirname, 'lambda/generation/get-transcript.ts'),
+      environment: generationEnvironment,
+      ...bundlingConfig,
+    });
+    draftTranscriptsTable.grantReadData(listTranscriptsHandler);
+    draftTranscriptsTable.grantReadData(getTranscriptHandler);
+
     // Fork draft + start new pipeline execution (console-invoked only)
     const forkDraftHandler = new nodejs.NodejsFunction(this, 'ForkDraftHandler', {
       entry: join(__dirname, 'lambda/generate/fork-draft.ts'),
@@ -765,6 +985,11 @@ export class ConsultingDetectiveStack extends cdk.Stack {
     const generation = api.root.addResource('generation');
     const drafts = generation.addResource('drafts');
     drafts.addMethod('GET', new apigateway.LambdaIntegration(listDraftsHandler));
+    const draft = drafts.addResource('{draftId}');
+    const transcripts = draft.addResource('transcripts');
+    transcripts.addMethod('GET', new apigateway.LambdaIntegration(listTranscriptsHandler));
+    const transcript = transcripts.addResource('{callId}');
+    transcript.addMethod('GET', new apigateway.LambdaIntegration(getTranscriptHandler));
     const executions = generation.addResource('executions');
     const executionId = executions.addResource('{executionId}');
     executionId.addMethod('GET', new apigateway.LambdaIntegration(executionDetailHandler));
@@ -0,0 +1,369 @@
+import type {
+  AnswerPart,
+  Case,
+  CaseResult,
+  Character,
+  Fact,
+  FollowUp,
+  Location,
+  NotebookResult,
+  PlayerAnswer,
+  PlayerSession,
+  Question,
+} from '../types/index';
+
+/**
+ * The rules of play, shared by the UI (as @game/session) and the headless
+ * simulator: starting a session, what a visit, a reading or a confrontation
+ * reveals, which entries are open, and how answers score. Pure functions over
+ * PlayerSession; persistence stays with the caller.
+ */
+
+/** Create a new session for a case. Optionally seed with intro facts, subjects, and case versionId. */
+export function createSession(
+  caseDate: string,
+  introductionFactIds?: string[],
+  introductionSubjects?: string[],
+  versionId?: string,
+): PlayerSession {
+  return {
+    caseDate,
+    visitedEntries: [],
+    discoveredFacts: introductionFactIds ?? [],
+    discoveredSubjects: introductionSubjects ?? [],
+    answers: [],
+    startedAt: new Date().toISOString(),
+    versionId,
+  };
+}
+
+/** characterIds and locationIds named by the given facts, in first-mention order. */
+export function subjectsOfFacts(factIds: string[], facts: Record<string, Fact>): string[] {
+  return [...new Set(factIds.flatMap((fid) => facts[fid]?.subjects ?? []))];
+}
+
+/** An entry's or document's gate is met: no gate, or any gate fact discovered. */
+export function gateMet(requiresAnyFact: string[] | undefined, discoveredFacts: Set<string>): boolean {
+  return !requiresAnyFact?.length || requiresAnyFact.some((fid) => discoveredFacts.has(fid));
+}
+
+/** Casebook entries the player can visit: gate met, visited or not. */
+export function openEntryIds(session: PlayerSession, gameCase: Case): string[] {
+  const discovered = new Set(session.discoveredFacts);
+  return Object.values(gameCase.casebook)
+    .filter((e) => gateMet(e.requiresAnyFact, discovered))
+    .map((e) => e.entryId);
+}
+
+/** Documents the player can read: gate met, read or not. */
+export function openDocumentIds(session: PlayerSession, gameCase: Case): string[] {
+  const discovered = new Set(session.discoveredFacts);
+  return Object.values(gameCase.documents ?? {})
+    .filter((d) => gateMet(d.requiresAnyFact, discovered))
+    .map((d) => d.documentId);
+}
+
+/** The session with these facts discovered, and the people and places they name. */
+function discover(session: PlayerSession, gameCase: Case, factIds: string[]): PlayerSession {
+  const newFacts = factIds.filter((fid) => !session.discoveredFacts.includes(fid));
+  const existingSubjects = new Set(session.discoveredSubjects ?? []);
+  const newSubjects = subjectsOfFacts(newFacts, gameCase.facts).filter((s) => !existingSubjects.has(s));
+  return {
+    ...session,
+    discoveredFacts: [...session.discoveredFacts, ...newFacts],
+    discoveredSubjects: [...(session.discoveredSubjects ?? []), ...newSubjects],
+  };
+}
+
+/** Visit a casebook entry: it counts as a visit and reveals its facts. A return visit changes nothing. */
+export function visitEntry(session: PlayerSession, gameCase: Case, entryId: string): PlayerSession {
+  const entry = gameCase.casebook[entryId];
+  if (!entry || session.visitedEntries.includes(entryId)) return session;
+  return {
+    ...discover(session, gameCase, entry.revealsFactIds),
+    visitedEntries: [...session.visitedEntries, entryId],
+  };
+}
+
+/** Read a document. Unlike a visit it costs nothing: its facts are added but visitedEntries is untouched. */
+export function readDocument(session: PlayerSession, gameCase: Case, documentId: string): PlayerSession {
+  const doc = gameCase.documents?.[documentId];
+  const readDocuments = session.readDocuments ?? [];
+  if (!doc || readDocuments.includes(documentId)) return session;
+  return {
+    ...discover(session, gameCase, doc.revealsFactIds),
+    readDocuments: [...readDocuments, documentId],
+  };
+}
+
+/**
+ * Present a fact to a character at an entry. A matching follow-up reveals
+ * what they held back; anything else counts as a wrong presentation.
+ */
+export function presentEvidence(
+  session: PlayerSession,
+  gameCase: Case,
+  entryId: string,
+  characterId: string,
+  factId: string,
+): { session: PlayerSession; followUp: FollowUp | null } {
+  const followUp = gameCase.casebook[entryId]?.followUps?.find(
+    (fu) => fu.characterId === characterId && fu.presentFactId === factId,
+  );
+  if (!followUp) {
+    return { session: { ...session, wrongPresentations: (session.wrongPresentations ?? 0) + 1 }, followUp: null };
+  }
+  const completed = session.completedFollowUps ?? [];
+  if (completed.includes(followUp.followUpId)) return { session, followUp };
+  return {
+    session: {
+      ...discover(session, gameCase, followUp.revealsFactIds),
+      completedFollowUps: [...completed, followUp.followUpId],
+    },
+    followUp,
+  };
+}
+
+const ARTICLES = new Set(['the', 'a', 'an']);
+
+/** Words of an answer for matching: lowercase, no accents or punctuation, no articles. */
+export function answerWords(s: string): string[] {
+  return s
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .split(' ')
+    .filter((w) => w && !ARTICLES.has(w));
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions and
+ * swaps of two adjacent letters each count as one typo ("hlomes" is one off).
+ */
+function editDistance(a: string, b: string): number {
+  let before: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        curr[j] = Math.min(curr[j], before[j - 2] + 1);
+      }
+    }
+    before = prev;
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/** A typed word matches an expected one exactly, or with one typo (two for long words); short words must be exact. */
+export function wordMatches(typed: string, expected: string): boolean {
+  if (typed === expected) return true;
+  if (expected.length < 5) return false;
+  return editDistance(typed, expected) <= (expected.length >= 9 ? 2 : 1);
+}
+
+/** True if every word of the phrase appears in the typed answer. */
+function phraseMatches(typedWords: string[], phrase: string): boolean {
+  const words = answerWords(phrase);
+  return words.length > 0 && words.every((w) => typedWords.some((t) => wordMatches(t, w)));
+}
+
+/**
+ * Every part of an answer: the answer itself, then a compound answer's other
+ * parts. Generic over the part type so the generator's drafts and the
+ * scorer's cases read answers the same way.
+ */
+export function answerParts<P extends { label: string; type: string; factCategory?: string; acceptedIds: string[] }>(
+  answer: Omit<P, 'label'> & { label?: string; aliases?: Record<string, string[]>; parts?: P[] },
+): P[] {
+  const { label, type, factCategory, acceptedIds, aliases } = answer;
+  return [{ label: label ?? '', type, factCategory, acceptedIds, aliases } as unknown as P, ...(answer.parts ?? [])];
+}
+
+/**
+ * Free-text mode: the accepted answer a typed answer names, or '' if none.
+ * It names an accepted answer when it contains every word of its name (or
+ * fact description) or of one of its aliases, allowing small misspellings.
+ * An answer that also fits someone, somewhere or something else ("Lord and
+ * Lady Ashworth", or one stuffed with the words of several facts) matches
+ * nothing; for facts, that includes another fact's aliases in any question.
+ * Deterministic, so the same text always scores the same.
+ */
+export function matchFreeTextAnswer(
+  text: string,
+  part: Pick<AnswerPart, 'type' | 'acceptedIds' | 'aliases'>,
+  gameCase: {
+    characters: Record<string, Character>;
+    locations: Record<string, Location>;
+    facts: Record<string, Fact>;
+    questions?: Question[];
+  },
+): string {
+  const typedWords = answerWords(text);
+  if (typedWords.length === 0) return '';
+
+  const { type, acceptedIds, aliases } = part;
+  const nameOf = (id: string): string | undefined =>
+    type === 'person'
+      ? gameCase.characters[id]?.name
+      : type === 'location'
+        ? gameCase.locations[id]?.name
+        : gameCase.facts[id]?.description;
+
+  const matched = acceptedIds.find((id) =>
+    [nameOf(id), ...(aliases?.[id] ?? [])].some((phrase) => phrase && phraseMatches(typedWords, phrase)),
+  );
+  if (!matched) return '';
+
+  const others =
+    type === 'person'
+      ? Object.values(gameCase.characters).filter((c) => !acceptedIds.includes(c.characterId)).map((c) => c.name)
+      : type === 'location'
+        ? Object.values(gameCase.locations).filter((l) => !acceptedIds.includes(l.locationId)).map((l) => l.name)
+        : Object.values(gameCase.facts)
+          .filter((f) => !acceptedIds.includes(f.factId))
+          .flatMap((f) => [f.description, ...factAliases(f.factId, gameCase.questions ?? [])]);
+  return others.some((name) => phraseMatches(typedWords, name)) ? '' : matched;
+}
+
+/** Every alias given for a fact, across all questions and their parts. */
+function factAliases(factId: string, questions: Question[]): string[] {
+  return questions.flatMap((q) =>
+    answerParts(q.answer).flatMap((part) => (part.type === 'fact' ? part.aliases?.[factId] ?? [] : [])),
+  );
+}
+
+/** Length of the longest common subsequence: how much of a sequence is in the right order. */
+function longestCommonSubsequence(a: string[], b: string[]): number {
+  let prev = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [0];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = a[i - 1] === b[j - 1] ? prev[j - 1] + 1 : Math.max(prev[j], curr[j - 1]);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Credit for an answer, from 0 to 1.
+ * - single: 1 if answerId is accepted
+ * - multi: right picks less wrong picks, over the number of accepted answers
+ * - ordered: the longest run of picks in the right order, over the longer of
+ *   the two sequences (so extra picks cost too)
+ * - compound: the share of parts answered right
+ * - timeline: the share of all pairs of facts the player placed in the order
+ *   their events happened (a fact left out loses its pairs)
+ */
+export function answerCredit(question: Question, playerAnswer: PlayerAnswer | undefined): number {
+  if (!playerAnswer) return 0;
+  const { kind = 'single', acceptedIds } = question.answer;
+  const picks = playerAnswer.answerIds ?? [];
+  switch (kind) {
+    case 'multi': {
+      const unique = [...new Set(picks)];
+      const right = unique.filter((id) => acceptedIds.includes(id)).length;
+      // Free-text lines that matched nothing are all '', but each is its own wrong pick
+      const wrong = unique.filter((id) => id && !acceptedIds.includes(id)).length + picks.filter((id) => !id).length;
+      return Math.max(0, (right - wrong) / acceptedIds.length);
+    }
+    case 'ordered':
+      return longestCommonSubsequence(picks, acceptedIds) / Math.max(picks.length, acceptedIds.length);
+    case 'timeline': {
+      const when = (id: string) => question.answer.eventTimes?.[id] ?? acceptedIds.indexOf(id);
+      const placed = [...new Set(picks)].filter((id) => acceptedIds.includes(id));
+      const pairs = (acceptedIds.length * (acceptedIds.length - 1)) / 2;
+      let right = 0;
+      for (let i = 0; i < placed.length; i++) {
+        for (let j = i + 1; j < placed.length; j++) {
+          if (when(placed[i]) <= when(placed[j])) right++;
+        }
+      }
+      return pairs > 0 ? right / pairs : 0;
+    }
+    case 'compound': {
+      const parts = answerParts(question.answer);
+      return parts.filter((part, i) => part.acceptedIds.includes(picks[i] ?? '')).length / parts.length;
+    }
+    default:
+      return acceptedIds.includes(playerAnswer.answerId) ? 1 : 0;
+  }
+}
+
+const PENALTY_PER_EXTRA_VISIT = 5;
+const PENALTY_PER_WRONG_PRESENTATION = 2;
+const NOTEBOOK_POINTS_PER_KEY_FACT = 2;
+const NOTEBOOK_PENALTY_PER_MISS = 1;
+
+/**
+ * Notebook scoring. Key facts are the quiz's fact answers plus the facts that
+ * unlock entries on Holmes's path; each one collected earns points, and each
+ * selection that reveals nothing costs one, so tapping everything doesn't pay.
+ * Other facts recorded cost nothing: the notebook is also where the quiz's
+ * people and places and the evidence to present come from, so a fact off the
+ * key list can still be the one a player's own line of reasoning needs.
+ */
+function computeNotebookResult(session: PlayerSession, gameCase: Case): NotebookResult {
+  const introFacts = new Set(gameCase.introductionFactIds ?? []);
+  const keyFacts = new Set([
+    ...gameCase.questions
+      .flatMap((q) => answerParts(q.answer))
+      .filter((part) => part.type === 'fact')
+      .flatMap((part) => part.acceptedIds),
+    ...gameCase.optimalPath.flatMap((entryId) => gameCase.casebook[entryId]?.requiresAnyFact ?? []),
+  ].filter((fid) => fid in gameCase.facts && !introFacts.has(fid)));
+
+  const collected = (session.collectedFacts ?? []).filter((fid) => !introFacts.has(fid));
+  const keyFactsCollected = collected.filter((fid) => keyFacts.has(fid)).length;
+  const misses = session.notebookMisses ?? 0;
+
+  return {
+    factsCollected: collected.length,
+    keyFactsCollected,
+    keyFactsTotal: keyFacts.size,
+    misses,
+    bonus: keyFactsCollected * NOTEBOOK_POINTS_PER_KEY_FACT - misses * NOTEBOOK_PENALTY_PER_MISS,
+  };
+}
+
+/** Compute the case result from a completed session. */
+export function computeResult(session: PlayerSession, gameCase: Case): CaseResult {
+  let questionsCorrect = 0;
+  let questionsPartial = 0;
+  for (const question of gameCase.questions) {
+    const credit = answerCredit(question, session.answers.find(a => a.questionId === question.questionId));
+    if (credit === 1) questionsCorrect++;
+    else if (credit > 0) questionsPartial++;
+  }
+
+  const questionsScore = gameCase.questions.reduce((sum, question) => {
+    const playerAnswer = session.answers.find(a => a.questionId === question.questionId);
+    return sum + Math.round(question.points * answerCredit(question, playerAnswer));
+  }, 0);
+
+  // Directory mode: a visit that found nothing still took time
+  const wastedVisits = session.wastedVisits?.length ?? 0;
+  const entriesVisited = session.visitedEntries.length + wastedVisits;
+  const optimalEntries = gameCase.optimalPath.length;
+  const visitPenalty = Math.max(0, entriesVisited - optimalEntries) * PENALTY_PER_EXTRA_VISIT;
+  const wrongPresentations = session.wrongPresentations ?? 0;
+  const notebook = session.notebookMode ? computeNotebookResult(session, gameCase) : undefined;
+
+  return {
+    questionsCorrect,
+    questionsPartial: questionsPartial > 0 ? questionsPartial : undefined,
+    questionsTotal: gameCase.questions.length,
+    entriesVisited,
+    optimalEntries,
+    wastedVisits: session.directoryMode ? wastedVisits : undefined,
+    wrongPresentations: wrongPresentations > 0 ? wrongPresentations : undefined,
+    notebook,
+    score: questionsScore - visitPenalty
+      - wrongPresentations * PENALTY_PER_WRONG_PRESENTATION
+      + (notebook?.bonus ?? 0),
+  };
+}
@@ -0,0 +1,225 @@
+import type {
+  AnswerPart,
+  Case,
+  Distribution,
+  PlayerAnswer,
+  PlayerSession,
+  Question,
+  SimulationReport,
+  SimulationStrategy,
+  StrategyReport,
+} from '../types/index';
+import {
+  answerParts,
+  computeResult,
+  createSession,
+  openDocumentIds,
+  openEntryIds,
+  presentEvidence,
+  readDocument,
+  subjectsOfFacts,
+  visitEntry,
+} from './session';
+
+/**
+ * Headless playthroughs of a Case, through the same session rules as the UI.
+ *
+ * A simulated player reads every document and makes every confrontation as
+ * soon as it can (both are free), then picks its next visit by strategy:
+ *
+ * - **randomWalk** — any open entry not yet visited.
+ * - **breadthFirst** — the lead that opened longest ago.
+ * - **greedyNewestLead** — the lead that opened most recently.
+ * - **oracle** — the next entry on the optimal path.
+ *
+ * It stops once what it has found answers every question, or when there is
+ * nowhere left to go. It reasons perfectly from what it found: a question it
+ * can answer is answered right, and one it can't is guessed from the options
+ * the question form would list. So scores measure the route, not deduction.
+ */
+export const SIMULATION_STRATEGIES: SimulationStrategy[] = ['randomWalk', 'breadthFirst', 'greedyNewestLead', 'oracle'];
+
+export interface SimulationOptions {
+  /** Playthroughs per strategy (oracle always plays once). */
+  runs: number;
+  /** Seed for the random choices. */
+  seed?: number;
+  /** Strategies to run; all of them by default. */
+  strategies?: SimulationStrategy[];
+}
+
+export interface Playthrough {
+  session: PlayerSession;
+  visits: number;
+  score: number;
+  solved: boolean;
+}
+
+/** Run every strategy over the case and summarize visits and scores. */
+export function simulateCase(gameCase: Case, options: SimulationOptions): SimulationReport {
+  const seed = options.seed ?? 1;
+  const random = seededRandom(seed);
+  const strategies = options.strategies ?? SIMULATION_STRATEGIES;
+
+  return {
+    seed,
+    optimalEntries: gameCase.optimalPath.length,
+    strategies: strategies.map((strategy): StrategyReport => {
+      const runs = strategy === 'oracle' ? 1 : options.runs;
+      const plays = Array.from({ length: runs }, () => playCase(gameCase, strategy, random));
+      return {
+        strategy,
+        runs,
+        visits: distribution(plays.map((p) => p.visits)),
+        scores: distribution(plays.map((p) => p.score)),
+        solvedShare: plays.filter((p) => p.solved).length / runs,
+      };
+    }),
+  };
+}
+
+/** One playthrough, ending with the answers submitted and scored. */
+export function playCase(gameCase: Case, strategy: SimulationStrategy, random: () => number): Playthrough {
+  const introIds = gameCase.introductionFactIds ?? [];
+  let session = createSession(gameCase.caseDate, introIds, subjectsOfFacts(introIds, gameCase.facts), gameCase.versionId);
+  // Open entries in the order they opened; those opened together in random order
+  const leads: string[] = [];
+
+  for (;;) {
+    session = investigateFreely(session, gameCase);
+    leads.push(...shuffle(openEntryIds(session, gameCase).filter((id) => !leads.includes(id)), random));
+    if (gameCase.questions.every((q) => canAnswer(q, session))) break;
+
+    const unvisited = leads.filter((id) => !session.visitedEntries.includes(id));
+    const next = strategy === 'oracle'
+      ? gameCase.optimalPath.find((id) => unvisited.includes(id))
+      : strategy === 'breadthFirst'
+        ? unvisited[0]
+        : strategy === 'greedyNewestLead'
+          ? unvisited[unvisited.length - 1]
+          : unvisited[Math.floor(random() * unvisited.length)];
+    if (!next) break;
+    session = visitEntry(session, gameCase, next);
+  }
+
+  const answers = gameCase.questions.map((q) => answerQuestion(q, session, gameCase, random));
+  session = { ...session, answers, completedAt: new Date().toISOString() };
+  const result = computeResult(session, gameCase);
+  return {
+    session,
+    visits: result.entriesVisited,
+    score: result.score,
+    solved: result.questionsCorrect === result.questionsTotal,
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/** Read every open document and make every confrontation the evidence allows, until nothing new turns up. */
+function investigateFreely(session: PlayerSession, gameCase: Case): PlayerSession {
+  let current = session;
+  for (;;) {
+    const before = current.discoveredFacts.length;
+    for (const documentId of openDocumentIds(current, gameCase)) {
+      current = readDocument(current, gameCase, documentId);
+    }
+    for (const entryId of current.visitedEntries) {
+      for (const fu of gameCase.casebook[entryId]?.followUps ?? []) {
+        if (current.completedFollowUps?.includes(fu.followUpId)) continue;
+        if (!current.discoveredFacts.includes(fu.presentFactId)) continue;
+        current = presentEvidence(current, gameCase, entryId, fu.characterId, fu.presentFactId).session;
+      }
+    }
+    if (current.discoveredFacts.length === before) return current;
+  }
+}
+
+/** A fact is found by discovering it; a person or place by discovering any fact about them. */
+function isFound(part: AnswerPart, id: string, session: PlayerSession): boolean {
+  return part.type === 'fact' ? session.discoveredFacts.includes(id) : session.discoveredSubjects.includes(id);
+}
+
+/** Every part has an accepted answer found (all of them, for multi, ordered and timeline). */
+function canAnswer(question: Question, session: PlayerSession): boolean {
+  const kind = question.answer.kind ?? 'single';
+  return answerParts(question.answer).every((part) =>
+    kind === 'multi' || kind === 'ordered' || kind === 'timeline'
+      ? part.acceptedIds.every((id) => isFound(part, id, session))
+      : part.acceptedIds.some((id) => isFound(part, id, session)),
+  );
+}
+
+/** What the question form would list for a part, as QuestionForm builds it. */
+function answerOptions(part: AnswerPart, session: PlayerSession, gameCase: Case): string[] {
+  switch (part.type) {
+    case 'fact':
+      return session.discoveredFacts.filter((fid) => gameCase.facts[fid]?.category === part.factCategory);
+    case 'person':
+      return session.discoveredSubjects.filter((id) => id in gameCase.characters);
+    case 'location':
+      return session.discoveredSubjects.filter((id) => id in gameCase.locations);
+    default:
+      return [];
+  }
+}
+
+/** Answer with what was found; guess from the listed options where nothing was. */
+function answerQuestion(question: Question, session: PlayerSession, gameCase: Case, random: () => number): PlayerAnswer {
+  const { questionId } = question;
+  const pick = (part: AnswerPart): string => {
+    const found = part.acceptedIds.find((id) => isFound(part, id, session));
+    if (found) return found;
+    const options = answerOptions(part, session, gameCase);
+    return options.length > 0 ? options[Math.floor(random() * options.length)] : '';
+  };
+
+  const parts = answerParts(question.answer);
+  switch (question.answer.kind ?? 'single') {
+    case 'multi':
+    case 'ordered':
+    case 'timeline': {
+      // acceptedIds is already in the right order for ordered and timeline answers
+      const found = parts[0].acceptedIds.filter((id) => isFound(parts[0], id, session));
+      return { questionId, answerId: '', answerIds: found.length > 0 ? found : [pick(parts[0])].filter(Boolean) };
+    }
+    case 'compound':
+      return { questionId, answerId: '', answerIds: parts.map(pick) };
+    default:
+      return { questionId, answerId: pick(parts[0]) };
+  }
+}
+
+function distribution(values: number[]): Distribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: Math.round((sorted.reduce((sum, v) => sum + v, 0) / sorted.length) * 100) / 100,
+    median: at(0.5),
+    p90: at(0.9),
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/** mulberry32: a small seeded generator, so reports can be reproduced. */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
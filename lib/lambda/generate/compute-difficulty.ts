@@ -0,0 +1,212 @@
+import { getDraft, updateDraft } from '../shared/draft-db';
+import { isQuestionSatisfied, readAvailableDocuments } from '../shared/discovery';
+import { answerParts } from '../../game/session';
+import type {
+  OperationalState,
+  CasebookEntryDraft,
+  DifficultyAnalysisDraft,
+  DocumentDraft,
+  FactDraft,
+  FollowUpDraft,
+  QuestionDraft,
+} from '../shared/generation-state';
+
+/**
+ * Pipeline Step 12b: Compute Difficulty (after ComputeOptimalPath)
+ *
+ * The difficulty asked for in GenerateCaseInput shapes the template, but
+ * nothing checked that the finished case plays that way. This step measures
+ * the draft and rates it:
+ *
+ * - **casebookPerPathEntry** — casebook entries per optimal-path entry: how
+ *   much there is to visit besides what matters.
+ * - **redHerringRatio** — share of facts added as red herrings.
+ * - **falseFactDensity** — share of facts that are false.
+ * - **answerDepth** — mean BFS layer (entries opened by the introduction are
+ *   layer 1, entries they open layer 2, ...) at which each question can first
+ *   be answered.
+ * - **distractorsPerQuestion** — mean wrong options QuestionForm lists per
+ *   answer part once everything reachable is found.
+ *
+ * Each signal rates easy, medium or hard against DIFFICULTY_THRESHOLDS; the
+ * mean of the ratings, rounded, is the assessed difficulty. A mismatch with
+ * the requested difficulty is a warning, not a failure: the case still plays.
+ *
+ * This is pure computation — no LLM call needed.
+ */
+export const handler = async (state: OperationalState): Promise<OperationalState> => {
+  const { draftId } = state;
+  await updateDraft(draftId, {
+    currentStep: 'computeDifficulty',
+    lastStepStartedAt: new Date().toISOString(),
+  });
+  const draft = await getDraft(draftId);
+  const { template, characters, locations, factSkeletons, facts, introductionFactIds, casebook, questions, optimalPath } = draft ?? {};
+  const documents = Object.values(draft?.documents ?? {});
+  const followUps = Object.values(draft?.followUps ?? {});
+
+  if (!template) throw new Error('ComputeDifficulty requires template from step 1');
+  if (!characters) throw new Error('ComputeDifficulty requires characters from step 3');
+  if (!locations) throw new Error('ComputeDifficulty requires locations from step 4');
+  if (!factSkeletons) throw new Error('ComputeDifficulty requires factSkeletons from step 6');
+  if (!facts) throw new Error('ComputeDifficulty requires facts from step 6');
+  if (!introductionFactIds) throw new Error('ComputeDifficulty requires introductionFactIds from step 7');
+  if (!casebook) throw new Error('ComputeDifficulty requires casebook from step 8');
+  if (!questions) throw new Error('ComputeDifficulty requires questions from step 10');
+  if (!optimalPath) throw new Error('ComputeDifficulty requires optimalPath from step 12');
+
+  const entries = Object.values(casebook);
+  const factList = Object.values(facts);
+  const layers = discoveryLayers(entries, followUps, documents, introductionFactIds);
+  const reachable = layers[layers.length - 1];
+  const characterIds = new Set(Object.keys(characters));
+  const locationIds = new Set(Object.keys(locations));
+
+  const values: Record<DifficultySignalName, number> = {
+    casebookPerPathEntry: entries.length / Math.max(optimalPath.length, 1),
+    redHerringRatio: factSkeletons.filter((s) => s.source.type === 'red_herring').length / Math.max(factSkeletons.length, 1),
+    falseFactDensity: factList.filter((f) => f.veracity === 'false').length / Math.max(factList.length, 1),
+    answerDepth: mean(questions.map((q) => {
+      const layer = layers.findIndex((known) => isQuestionSatisfied(q, known, facts));
+      return layer < 0 ? layers.length : layer;
+    })),
+    distractorsPerQuestion: mean(questions.flatMap((q) => distractorCounts(q, reachable, facts, characterIds, locationIds))),
+  };
+
+  const signals = (Object.keys(values) as DifficultySignalName[]).map((name) => ({
+    name,
+    value: Math.round(values[name] * 100) / 100,
+    rating: rate(name, values[name]),
+  }));
+  const score = mean(signals.map((s) => LEVELS.indexOf(s.rating)));
+  const difficultyAnalysis: DifficultyAnalysisDraft = {
+    requested: template.difficulty,
+    assessed: LEVELS[Math.round(score)],
+    score: Math.round(score * 100) / 100,
+    signals,
+  };
+
+  const warnings = [...(state.validationResult?.warnings ?? [])];
+  if (difficultyAnalysis.assessed !== difficultyAnalysis.requested) {
+    warnings.push(
+      `Difficulty mismatch: requested ${difficultyAnalysis.requested}, but the case measures ${difficultyAnalysis.assessed} ` +
+      `(${signals.map((s) => `${s.name} ${s.value} → ${s.rating}`).join(', ')})`,
+    );
+  }
+
+  await updateDraft(draftId, { difficultyAnalysis });
+  return {
+    ...state,
+    validationResult: { valid: true, errors: [], ...state.validationResult, warnings },
+  };
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+type DifficultySignalName =
+  | 'casebookPerPathEntry'
+  | 'redHerringRatio'
+  | 'falseFactDensity'
+  | 'answerDepth'
+  | 'distractorsPerQuestion';
+
+const LEVELS = ['easy', 'medium', 'hard'] as const;
+
+/**
+ * Per signal, the values at which it rates medium and hard. Starting points
+ * read off generated cases, not a calibration; adjust as the pipeline changes.
+ */
+const DIFFICULTY_THRESHOLDS: Record<DifficultySignalName, [medium: number, hard: number]> = {
+  casebookPerPathEntry: [2, 3.5],
+  redHerringRatio: [0.08, 0.16],
+  falseFactDensity: [0.1, 0.2],
+  answerDepth: [2, 3],
+  distractorsPerQuestion: [4, 8],
+};
+
+function rate(name: DifficultySignalName, value: number): (typeof LEVELS)[number] {
+  const [medium, hard] = DIFFICULTY_THRESHOLDS[name];
+  return value >= hard ? 'hard' : value >= medium ? 'medium' : 'easy';
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Facts known after each BFS layer: layer 0 is the introduction and the
+ * documents it opens; each later layer visits every entry (and triggers
+ * every follow-up) the previous layers opened. The last layer is everything
+ * reachable.
+ */
+function discoveryLayers(
+  entries: CasebookEntryDraft[],
+  followUps: FollowUpDraft[],
+  documents: DocumentDraft[],
+  introductionFactIds: string[],
+): Set<string>[] {
+  const known = new Set<string>(introductionFactIds);
+  readAvailableDocuments(known, documents);
+  const layers = [new Set(known)];
+  const visited = new Set<string>();
+  const triggered = new Set<string>();
+
+  for (;;) {
+    const opened = entries.filter((e) =>
+      !visited.has(e.entryId) && e.requiresAnyFact.some((fid) => known.has(fid)));
+    const confronted = followUps.filter((fu) =>
+      !triggered.has(fu.followUpId) && visited.has(fu.entryId) && known.has(fu.presentFactId));
+    if (opened.length === 0 && confronted.length === 0) break;
+
+    for (const entry of opened) {
+      visited.add(entry.entryId);
+      for (const fid of entry.revealsFactIds) known.add(fid);
+    }
+    for (const fu of confronted) {
+      triggered.add(fu.followUpId);
+      for (const fid of fu.revealsFactIds) known.add(fid);
+    }
+    readAvailableDocuments(known, documents);
+    layers.push(new Set(known));
+  }
+  return layers;
+}
+
+/**
+ * Wrong options QuestionForm lists for each part of the question when the
+ * player has found everything: facts of the part's category, or the people
+ * or places the found facts are about, less the accepted answers. Timeline
+ * answers list only their own facts, so they have none.
+ */
+function distractorCounts(
+  question: QuestionDraft,
+  reachable: Set<string>,
+  facts: Record<string, FactDraft>,
+  characterIds: Set<string>,
+  locationIds: Set<string>,
+): number[] {
+  if (question.answer.kind === 'timeline') return [0];
+  const found = [...reachable].map((fid) => facts[fid]).filter((f): f is FactDraft => Boolean(f));
+  const subjects = new Set(found.flatMap((f) => f.subjects));
+
+  return answerParts(question.answer).map((part) => {
+    const accepted = new Set(part.acceptedIds);
+    let options: string[];
+    switch (part.type) {
+      case 'fact':
+        options = found.filter((f) => f.category === part.factCategory).map((f) => f.factId);
+        break;
+      case 'person':
+        options = [...subjects].filter((id) => characterIds.has(id));
+        break;
+      case 'location':
+        options = [...subjects].filter((id) => locationIds.has(id));
+        break;
+      default:
+        options = [];
+    }
+    return options.filter((id) => !accepted.has(id)).length;
+  });
+}
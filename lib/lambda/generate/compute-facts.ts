@@ -1,12 +1,16 @@
 import { getDraft, updateDraft } from '../shared/draft-db';
-import type {
-  CharacterDraft,
-  ComputedKnowledge,
-  EventDraft,
-  FactGraph,
-  FactSkeleton,
-  LocationDraft,
-  OperationalState,
+import {
+  canBeQuestioned,
+  type CharacterDraft,
+  type ComputedKnowledge,
+  type EventDraft,
+  type ExpertRole,
+  type FactGraph,
+  type FactSkeleton,
+  type FalseLead,
+  type FalseLeadPart,
+  type LocationDraft,
+  type OperationalState,
 } from '../shared/generation-state';
 
 /**
@@ -44,7 +48,16 @@ import type {
  *    subjects. A bridge connects a reachable character to an unreachable
  *    subject, providing a directed path through the character's knowledge.
  *
- * 6. Create red herring / incidental fact skeletons in sparse areas.
+ * 6. Create red herring threads from the template's false leads: for each,
+ *    a motive and an opportunity that implicate an innocent suspect, and an
+ *    alibi that clears them, each told by a different character. Older
+ *    templates without false leads get incidental red herrings in sparse
+ *    areas instead.
+ *
+ * 7. Create expert analysis skeletons: for each expert in the template,
+ *    derived facts that interpret physical evidence fitting their
+ *    specialty. The expert's casebook entry is gated on the evidence and
+ *    reveals these.
  *
  * Introduction fact selection is NOT done here — it moves to
  * GenerateIntroduction where the AI can select facts that form a
@@ -59,7 +72,7 @@ export const handler = async (state: OperationalState): Promise<OperationalState
     lastStepStartedAt: new Date().toISOString(),
   });
   const draft = await getDraft(draftId);
-  const { events, characters, locations, computedKnowledge, roleMapping } = draft ?? {};
+  const { template, events, characters, locations, computedKnowledge, roleMapping } = draft ?? {};
 
   if (!events || Object.keys(events).length === 0) {
     throw new Error('ComputeFacts requires events from GenerateEvents');
@@ -77,14 +90,22 @@ export const handler = async (state: OperationalState): Promise<OperationalState
     throw new Error('ComputeFacts requires roleMapping from GenerateCharacters');
   }
 
-  const { factSkeletons, factGraph } = computeFacts(
+  const { factSkeletons, factGraph, unplacedLeads } = computeFacts(
     events,
     characters,
     locations,
     computedKnowledge,
     roleMapping,
+    template?.expertRoles ?? [],
+    template?.falseLeads,
   );
 
+  // No later retry can add a missing thread (GenerateFacts and
+  // GenerateCasebook only fill in skeletons), so fail here
+  if (unplacedLeads.length > 0) {
+    throw new Error(`ComputeFacts could not build red herring threads:\n${unplacedLeads.join('\n')}`);
+  }
+
   // computeFacts mutates characters in-place: bridge and red herring facts
   // are added to character knowledgeStates so the graph connects. We must
   // persist the updated characters alongside the new skeletons and graph.
@@ -101,7 +122,9 @@ export function computeFacts(
   locations: Record<string, LocationDraft>,
   computedKnowledge: ComputedKnowledge,
   roleMapping: Record<string, string>,
-): { factSkeletons: FactSkeleton[]; factGraph: FactGraph } {
+  expertRoles: ExpertRole[] = [],
+  falseLeads?: FalseLead[],
+): { factSkeletons: FactSkeleton[]; factGraph: FactGraph; unplacedLeads: string[] } {
   // ── Step 0: Clean stale bridge/red-herring entries from characters ──
   // On re-runs, characters may still carry knowledgeState entries from a
   // previous ComputeFacts invocation (bridge_* and red_herring_* facts).
@@ -143,19 +166,26 @@ export function computeFacts(
   // Rebuild graph after bridges were added
   graph = buildFactGraph(skeletons, characters, computedKnowledge);
 
-  // ── Step 6: Create red herring / incidental facts ────────────────
-  const redHerringSkeletons = createRedHerringSkeletons(
-    graph,
-    characters,
-    locations,
-    skeletons,
-  );
+  // ── Step 6: Create red herring threads (or incidental facts) ─────
+  // Like bridges, thread facts are told by characters who are already
+  // reachable (and, unlike bridges, who can be questioned), so they
+  // don't disturb reachability.
+  const unplacedLeads: string[] = [];
+  const redHerringSkeletons = falseLeads
+    ? createFalseLeadSkeletons(falseLeads, graph, events, characters, locations, roleMapping, unplacedLeads)
+    : createRedHerringSkeletons(graph, characters, locations, skeletons);
   skeletons.push(...redHerringSkeletons);
 
-  // Rebuild graph with red herrings added
+  // ── Step 7: Create expert analysis facts ─────────────────────────
+  // Added after the reachability pass: analyses are about the same subjects
+  // as their evidence, so they add unlock paths without needing bridges.
+  const expertSkeletons = createExpertSkeletons(expertRoles, skeletons, computedKnowledge, events, characters, locations);
+  skeletons.push(...expertSkeletons);
+
+  // Rebuild graph with red herrings and expert analyses added
   graph = buildFactGraph(skeletons, characters, computedKnowledge);
 
-  return { factSkeletons: skeletons, factGraph: graph };
+  return { factSkeletons: skeletons, factGraph: graph, unplacedLeads };
 }
 
 // ════════════════════════════════════════════════════════════════════
@@ -533,11 +563,110 @@ function ensureDirectedReachability(
 }
 
 // ════════════════════════════════════════════════════════════════════
-// Step 6: Create red herring / incidental facts
+// Step 6: Create red herring threads / incidental facts
 // ════════════════════════════════════════════════════════════════════
 
 /**
- * Adds a few red herring fact skeletons in sparse areas of the graph.
+ * Turns each false lead into a red herring thread of three true facts:
+ *
+ * - **motive** — about the suspect; the suspect hides it.
+ * - **opportunity** — about the suspect and the crime scene (the location
+ *   of most required events).
+ * - **alibi** — about the suspect and the location least tied to them; the
+ *   refutation.
+ *
+ * Each is told ('knows') by a different character other than the suspect,
+ * preferring those who reveal the fewest facts, so the alibi is found away
+ * from the facts that raise suspicion. Tellers must be reachable in the
+ * graph and available to question (canBeQuestioned), or the thread could
+ * never be found. Leads whose suspectRoleId isn't in roleMapping, or with
+ * fewer than three possible tellers, are skipped and described in
+ * `unplaced`.
+ */
+function createFalseLeadSkeletons(
+  falseLeads: FalseLead[],
+  graph: FactGraph,
+  events: Record<string, EventDraft>,
+  characters: Record<string, CharacterDraft>,
+  locations: Record<string, LocationDraft>,
+  roleMapping: Record<string, string>,
+  unplaced: string[],
+): FactSkeleton[] {
+  const threads: FactSkeleton[] = [];
+  const scene = crimeScene(events, locations);
+  const factCount = (id: string) => (graph.subjectToFacts[id] ?? []).length;
+  const seedFact = Object.keys(graph.factToSubjects)[0];
+  const reachable = seedFact ? directedBfsFromFact(seedFact, graph).reachableSubjects : new Set<string>();
+  let tellerIdx = 0;
+
+  for (const lead of falseLeads) {
+    const suspectId = roleMapping[lead.suspectRoleId];
+    if (!suspectId || !characters[suspectId]) {
+      unplaced.push(`False lead "${lead.leadId}": suspect role "${lead.suspectRoleId}" is not mapped to a character`);
+      continue;
+    }
+
+    const tellers = Object.keys(characters)
+      .filter((id) => id !== suspectId && reachable.has(id) && canBeQuestioned(characters[id]))
+      .sort((a, b) => factCount(a) - factCount(b));
+    if (tellers.length < 3) {
+      unplaced.push(
+        `False lead "${lead.leadId}": needs three reachable characters other than the suspect who can be questioned, found ${tellers.length}`,
+      );
+      continue;
+    }
+    // Rotate through the tellers so two leads don't lean on the same people;
+    // three consecutive picks are always distinct
+    const leadTellers = [0, 1, 2].map((k) => tellers[(tellerIdx + k) % tellers.length]);
+    tellerIdx += 3;
+
+    const suspectFacts = new Set(graph.subjectToFacts[suspectId] ?? []);
+    const alibiLocation = Object.keys(locations)
+      .filter((id) => id !== scene)
+      .sort((a, b) =>
+        (graph.subjectToFacts[a] ?? []).filter((f) => suspectFacts.has(f)).length -
+        (graph.subjectToFacts[b] ?? []).filter((f) => suspectFacts.has(f)).length)[0];
+
+    const parts: [FalseLeadPart, string[]][] = [
+      ['motive', [suspectId]],
+      ['opportunity', scene ? [suspectId, scene] : [suspectId]],
+      ['alibi', alibiLocation ? [suspectId, alibiLocation] : [suspectId]],
+    ];
+    for (const [i, [part, subjects]] of parts.entries()) {
+      const factId = `fact_red_herring_${lead.leadId}_${part}`;
+      threads.push({
+        factId,
+        subjects,
+        veracity: 'true',
+        source: { type: 'red_herring', thread: { leadId: lead.leadId, part } },
+      });
+      characters[leadTellers[i]].knowledgeState[factId] = 'knows';
+    }
+    // The suspect keeps quiet about the motive, which makes it a confrontation candidate
+    characters[suspectId].knowledgeState[`fact_red_herring_${lead.leadId}_motive`] = 'hides';
+  }
+
+  return threads;
+}
+
+/** The location where most required events happened (any event, if none are required). */
+function crimeScene(
+  events: Record<string, EventDraft>,
+  locations: Record<string, LocationDraft>,
+): string | undefined {
+  const eventList = Object.values(events);
+  const required = eventList.filter((e) => e.necessity === 'required');
+  const counts = new Map<string, number>();
+  for (const event of required.length > 0 ? required : eventList) {
+    if (!locations[event.location]) continue;
+    counts.set(event.location, (counts.get(event.location) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/**
+ * Adds a few incidental red herring fact skeletons in sparse areas of the
+ * graph, for templates that predate false leads.
  * Red herrings add noise for the player — they're discoverable facts
  * that lead nowhere (no onward subjects) or fill gaps.
  *
@@ -613,3 +742,101 @@ function createRedHerringSkeletons(
 
   return redHerrings;
 }
+
+// ════════════════════════════════════════════════════════════════════
+// Step 7: Create expert analysis facts
+// ════════════════════════════════════════════════════════════════════
+
+/** Analyses per expert, so an expert's entry stays a short consultation. */
+const MAX_ANALYSES_PER_EXPERT = 2;
+
+/**
+ * Pairs physical evidence with the template's experts whose specialty fits
+ * it, and creates one derived fact skeleton per pair: what the expert
+ * concludes from it.
+ *
+ * Evidence is any true event-reveal fact discoverable at a location
+ * (computedKnowledge.locationReveals). Facts have no descriptions yet, so
+ * the fit is lexical: words of the expert's role and specialty against the
+ * evidence's context (the event that left it, where it's found, what it's
+ * about). The best-scoring pairs are taken first, up to
+ * MAX_ANALYSES_PER_EXPERT per expert; evidence that shares no words with any
+ * expert gets no analysis, and an expert that fits no evidence gets no
+ * entry. The derived fact takes the evidence's subjects, so it leads back
+ * into the graph; GenerateFacts writes the conclusion from the expert's
+ * specialty.
+ */
+function createExpertSkeletons(
+  expertRoles: ExpertRole[],
+  skeletons: FactSkeleton[],
+  computedKnowledge: ComputedKnowledge,
+  events: Record<string, EventDraft>,
+  characters: Record<string, CharacterDraft>,
+  locations: Record<string, LocationDraft>,
+): FactSkeleton[] {
+  if (expertRoles.length === 0) return [];
+
+  const skeletonsByFactId = new Map(skeletons.map((s) => [s.factId, s]));
+  const evidence = [...new Set(Object.values(computedKnowledge.locationReveals).flat())]
+    .map((factId) => skeletonsByFactId.get(factId))
+    .filter((s): s is FactSkeleton => s?.source.type === 'event_reveal' && s.veracity === 'true');
+
+  const describe = (subjectId: string) => {
+    const location = locations[subjectId];
+    if (location) return `${location.name} ${location.type} ${location.description}`;
+    return characters[subjectId]?.societalRole ?? '';
+  };
+  const evidenceWords = new Map(evidence.map((e) => {
+    const eventId = e.source.type === 'event_reveal' ? e.source.eventId : '';
+    const foundAt = Object.keys(computedKnowledge.locationReveals)
+      .filter((locId) => computedKnowledge.locationReveals[locId].includes(e.factId));
+    return [e.factId, wordStems([events[eventId]?.description ?? '', ...foundAt.map(describe), ...e.subjects.map(describe)].join(' '))];
+  }));
+
+  const pairs = expertRoles.flatMap((expert) => {
+    const expertWords = wordStems(`${expert.role} ${expert.specialty}`);
+    return evidence.map((e) => ({
+      expert,
+      evidenceFact: e,
+      score: [...expertWords].filter((w) => (evidenceWords.get(e.factId) ?? new Set<string>()).has(w)).length,
+    }));
+  }).filter((p) => p.score > 0).sort((a, b) => b.score - a.score);
+
+  const analyses: FactSkeleton[] = [];
+  const analysesPerExpert = new Map<string, number>();
+  const analysed = new Set<string>();
+  for (const { expert, evidenceFact } of pairs) {
+    const count = analysesPerExpert.get(expert.expertId) ?? 0;
+    if (analysed.has(evidenceFact.factId) || count >= MAX_ANALYSES_PER_EXPERT) continue;
+    analysed.add(evidenceFact.factId);
+    analysesPerExpert.set(expert.expertId, count + 1);
+    analyses.push({
+      factId: `${evidenceFact.factId}_analysis`,
+      subjects: [...evidenceFact.subjects],
+      veracity: 'true',
+      source: {
+        type: 'expert_analysis',
+        expertId: expert.expertId,
+        evidenceFactId: evidenceFact.factId,
+      },
+    });
+  }
+
+  return analyses;
+}
+
+/** Words too common to say anything about a specialty. */
+const STOP_WORDS = new Set(['the', 'and', 'with', 'from', 'that', 'this', 'their', 'into', 'for', 'his', 'her', 'its', 'who', 'was', 'were']);
+
+/**
+ * Crude stems for lexical matching: lowercase words of three or more
+ * letters, cut to their first five, so "poisons", "poisoned" and "poison"
+ * (or "chemist" and "chemical") meet.
+ */
+function wordStems(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase().split(/[^a-z]+/)
+      .filter((w) => w.length >= 3 && !STOP_WORDS.has(w))
+      .map((w) => w.slice(0, 5)),
+  );
+}
@@ -1,5 +1,16 @@
+import { getHeapStatistics } from 'v8';
 import { getDraft, updateDraft } from '../shared/draft-db';
-import type { OperationalState, CasebookEntryDraft } from '../shared/generation-state';
+import { isQuestionSatisfied, learnWithoutVisiting } from '../shared/discovery';
+import { answerParts } from '../../game/session';
+import type {
+  OperationalState,
+  CasebookEntryDraft,
+  DocumentDraft,
+  FactDraft,
+  FollowUpDraft,
+  PathAnalysisDraft,
+  QuestionDraft,
+} from '../shared/generation-state';
 
 /**
  * Pipeline Step 11: Compute Optimal Path
@@ -10,7 +21,30 @@ import type { OperationalState, CasebookEntryDraft } from '../shared/generation-
  * while respecting entry gate constraints (`requiresAnyFact`).
  *
  * Answer types: 'fact' — acceptedId in discovered facts; 'person'/'location'
- * — any discovered fact has a subject matching an acceptedId.
+ * — any discovered fact has a subject matching an acceptedId. Multi and
+ * ordered answers need every acceptedId found; compound answers need each part.
+ *
+ * Documents cost nothing to read and confrontations nothing to make, so the
+ * path never lists them: every document is assumed read as soon as its gate
+ * is met, and every follow-up triggered as soon as its entry is visited and
+ * its evidence fact known (as presentEvidence in the game allows).
+ *
+ * Two phases:
+ *
+ * 1. **Greedy** — the entry answering the most new questions each time. Fast,
+ *    but can overshoot the minimum, and every extra entry costs the player
+ *    points. Its length bounds the search.
+ *
+ * 2. **Exact search** — breadth-first over sets of visited entries for any
+ *    shorter covering path. If the search finishes, the path is proven
+ *    shortest (`optimalPathProven`); if it hits its time or state limit, the
+ *    greedy path is kept unproven, with a warning.
+ *
+ * 3. **Path analysis** — how many ways through the case there are: a few
+ *    alternative paths at most one entry longer, the bottleneck entries every
+ *    solution must visit, the opening moves that begin a shortest path, and
+ *    how early each question can be answered. Stored as `pathAnalysis` for
+ *    the debug panel; a case that plays as one forced sequence gets a warning.
  *
  * Includes coherence checks (formerly ValidateCoherence): path entries exist,
  * path is gate-feasible, and path covers all questions. Sets validationResult
@@ -33,39 +67,128 @@ export const handler = async (state: OperationalState): Promise<OperationalState
   if (!introductionFactIds) throw new Error('ComputeOptimalPath requires introductionFactIds from step 7');
 
   const entries = Object.values(casebook);
+  const documents = Object.values(draft?.documents ?? {});
+  const followUps = Object.values(draft?.followUps ?? {});
 
-  // A question is "satisfied" when at least one of its answer.acceptedIds is discoverable.
+  // A question is "satisfied" when at least one of its answer.acceptedIds is discoverable
+  // (all of them for multi and ordered answers; each part for compound answers).
   // For 'fact' answers: the acceptedId must be in discoveredFacts.
   // For 'person'/'location' answers: any discoveredFact must have a subject matching an acceptedId.
   // We want the shortest path that satisfies all questions.
-  const optimalPath: string[] = [];
-  const discoveredFacts = new Set<string>(introductionFactIds);
-  const satisfiedQuestionIds = new Set<string>();
 
-  const isQuestionSatisfied = (questionId: string, factsSet: Set<string>): boolean => {
-    const q = questions.find((x) => x.questionId === questionId);
-    if (!q) return false;
-    switch (q.answer.type) {
-      case 'fact':
-        return q.answer.acceptedIds.some((id) => factsSet.has(id));
-      case 'person':
-      case 'location': {
-        // The question is satisfied when any discovered fact has a subject matching an acceptedId
-        const acceptedSet = new Set(q.answer.acceptedIds);
-        for (const fid of factsSet) {
-          const fact = facts[fid];
-          if (fact && fact.subjects.some((s) => acceptedSet.has(s))) return true;
-        }
-        return false;
+  // ── Phase 1: Greedy path (upper bound, and fallback) ───────────────
+  const greedy = greedyPath(entries, questions, facts, introductionFactIds, documents, followUps);
+  const greedyFacts = factsAfter(greedy, casebook, introductionFactIds, documents, followUps);
+  const greedyCovers = questions.every((q) => isQuestionSatisfied(q, greedyFacts, facts));
+
+  // ── Phase 2: Exact search for anything shorter ─────────────────────
+  const search = searchCoveringPaths(entries, questions, facts, introductionFactIds, documents, followUps, {
+    maxLength: greedyCovers ? greedy.length - 1 : entries.length,
+    maxPaths: 1,
+    deadline: Date.now() + SEARCH_TIME_LIMIT_MS,
+  });
+  const warnings: string[] = [];
+  let optimalPath: string[];
+  let optimalPathProven: boolean;
+  if (search.paths.length > 0) {
+    optimalPath = search.paths[0];
+    optimalPathProven = true;
+  } else {
+    // Nothing shorter: the greedy path is optimal if the search finished
+    optimalPath = greedy;
+    optimalPathProven = search.complete && greedyCovers;
+    if (!search.complete) {
+      warnings.push(
+        `Exact path search stopped after ${search.statesExplored} states; using the greedy path (${greedy.length} entries), which may not be the shortest`,
+      );
+    }
+  }
+
+  // Coherence checks (absorbed from ValidateCoherence)
+  const errors: string[] = [];
+  for (const entryId of optimalPath) {
+    if (!casebook[entryId]) {
+      errors.push(`Optimal path entry "${entryId}" is not in casebook`);
+    }
+  }
+  const walkFacts = new Set<string>(introductionFactIds);
+  const walkVisited = new Set<string>();
+  learnWithoutVisiting(walkFacts, walkVisited, documents, followUps);
+  for (const entryId of optimalPath) {
+    const entry = casebook[entryId];
+    if (!entry) continue;
+    if (entry.requiresAnyFact && entry.requiresAnyFact.length > 0) {
+      const gateSatisfied = entry.requiresAnyFact.some((fid) => walkFacts.has(fid));
+      if (!gateSatisfied) {
+        errors.push(`Entry "${entryId}" is gated on [${entry.requiresAnyFact.join(', ')}] but none are in intro or prior path`);
       }
-      default:
-        return false;
     }
+    for (const fid of entry.revealsFactIds) walkFacts.add(fid);
+    walkVisited.add(entryId);
+    learnWithoutVisiting(walkFacts, walkVisited, documents, followUps);
+  }
+  const missing = questions.filter((q) => !isQuestionSatisfied(q, walkFacts, facts)).map((q) => q.questionId);
+  if (missing.length > 0) {
+    errors.push(`Path does not cover questions: ${missing.join(', ')}`);
+  }
+  if (errors.length > 0) {
+    throw new Error(`Coherence check failed: ${errors.join('; ')}`);
+  }
+
+  // ── Phase 3: Path analysis ─────────────────────────────────────────
+  const pathAnalysis = analyzePaths(optimalPath, entries, questions, facts, introductionFactIds, documents, followUps);
+  if (optimalPath.length > 0) warnings.push(...linearityWarnings(pathAnalysis, optimalPath));
+
+  await updateDraft(draftId, { optimalPath, optimalPathProven, pathAnalysis });
+  return {
+    ...state,
+    validationResult: { valid: true, errors: [], warnings },
   };
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Search limits: past any of them, the greedy path is kept and not proven
+ * optimal. The heap limit is a share of V8's, leaving room for everything
+ * else in the Lambda (1024 MB, see the stack); the path analysis search gets
+ * the same limits.
+ */
+const SEARCH_TIME_LIMIT_MS = 30_000;
+const SEARCH_STATE_LIMIT = 300_000;
+const SEARCH_HEAP_SHARE = 0.6;
+
+/** Path analysis: alternatives kept, and the time its search gets. */
+const K_ALTERNATIVE_PATHS = 5;
+const ANALYSIS_TIME_LIMIT_MS = 20_000;
+
+/** Share of the optimal path that may be bottlenecks before the case is called linear. */
+const LINEAR_BOTTLENECK_SHARE = 0.75;
+
+/**
+ * The original heuristic: repeatedly visit the reachable entry that answers
+ * the most new questions (then reveals the most facts), or, when none
+ * answers one, the entry that unlocks the most gated entries. Fast, but can
+ * overshoot the minimum.
+ */
+function greedyPath(
+  entries: CasebookEntryDraft[],
+  questions: QuestionDraft[],
+  facts: Record<string, FactDraft>,
+  introductionFactIds: string[],
+  documents: DocumentDraft[],
+  followUps: FollowUpDraft[],
+): string[] {
+  const optimalPath: string[] = [];
+  const discoveredFacts = new Set<string>(introductionFactIds);
+  learnWithoutVisiting(discoveredFacts, new Set(), documents, followUps);
+  const satisfiedQuestionIds = new Set<string>();
 
   // Seed satisfied questions from intro
   for (const q of questions) {
-    if (isQuestionSatisfied(q.questionId, discoveredFacts)) {
+    if (isQuestionSatisfied(q, discoveredFacts, facts)) {
       satisfiedQuestionIds.add(q.questionId);
     }
   }
@@ -88,10 +211,11 @@ export const handler = async (state: OperationalState): Promise<OperationalState
 
       // How many currently unsatisfied questions would this entry satisfy?
       const wouldHaveFacts = new Set([...discoveredFacts, ...entry.revealsFactIds]);
+      learnWithoutVisiting(wouldHaveFacts, new Set([...optimalPath, entry.entryId]), documents, followUps);
       let newlySatisfied = 0;
       for (const q of questions) {
         if (satisfiedQuestionIds.has(q.questionId)) continue;
-        if (isQuestionSatisfied(q.questionId, wouldHaveFacts)) newlySatisfied++;
+        if (isQuestionSatisfied(q, wouldHaveFacts, facts)) newlySatisfied++;
       }
 
       if (
@@ -125,6 +249,7 @@ export const handler = async (state: OperationalState): Promise<OperationalState
 
         // Count how many currently unreachable entries this would unlock
         const wouldHaveFacts = new Set([...discoveredFacts, ...entry.revealsFactIds]);
+        learnWithoutVisiting(wouldHaveFacts, new Set([...optimalPath, entry.entryId]), documents, followUps);
         let newlyUnlocked = 0;
         for (const other of entries) {
           if (optimalPath.includes(other.entryId) || other.entryId === entry.entryId) continue;
@@ -138,7 +263,7 @@ export const handler = async (state: OperationalState): Promise<OperationalState
           }
         }
 
-        const newFactCount = entry.revealsFactIds.filter((fid) => !discoveredFacts.has(fid)).length;
+        const newFactCount = [...wouldHaveFacts].filter((fid) => !discoveredFacts.has(fid)).length;
 
         if (
           newlyUnlocked > bestNewlyUnlocked ||
@@ -162,43 +287,399 @@ export const handler = async (state: OperationalState): Promise<OperationalState
     for (const fid of bestEntry.revealsFactIds) {
       discoveredFacts.add(fid);
     }
+    learnWithoutVisiting(discoveredFacts, new Set(optimalPath), documents, followUps);
     for (const q of questions) {
-      if (!satisfiedQuestionIds.has(q.questionId) && isQuestionSatisfied(q.questionId, discoveredFacts)) {
+      if (!satisfiedQuestionIds.has(q.questionId) && isQuestionSatisfied(q, discoveredFacts, facts)) {
         satisfiedQuestionIds.add(q.questionId);
       }
     }
   }
 
-  // Coherence checks (absorbed from ValidateCoherence)
-  const errors: string[] = [];
-  for (const entryId of optimalPath) {
-    if (!casebook[entryId]) {
-      errors.push(`Optimal path entry "${entryId}" is not in casebook`);
-    }
+  return optimalPath;
+}
+
+/**
+ * Facts known after visiting the path in order (introduction, entries, and
+ * the documents and follow-ups they open).
+ */
+function factsAfter(
+  path: string[],
+  casebook: Record<string, CasebookEntryDraft>,
+  introductionFactIds: string[],
+  documents: DocumentDraft[],
+  followUps: FollowUpDraft[],
+): Set<string> {
+  const known = new Set<string>(introductionFactIds);
+  for (const entryId of path) {
+    for (const fid of casebook[entryId]?.revealsFactIds ?? []) known.add(fid);
   }
-  let walkFacts = new Set<string>(introductionFactIds);
-  for (const entryId of optimalPath) {
-    const entry = casebook[entryId];
-    if (!entry) continue;
-    if (entry.requiresAnyFact && entry.requiresAnyFact.length > 0) {
-      const gateSatisfied = entry.requiresAnyFact.some((fid) => walkFacts.has(fid));
-      if (!gateSatisfied) {
-        errors.push(`Entry "${entryId}" is gated on [${entry.requiresAnyFact.join(', ')}] but none are in intro or prior path`);
+  learnWithoutVisiting(known, new Set(path), documents, followUps);
+  return known;
+}
+
+/**
+ * Facts that can matter to the path: gate facts of entries and documents,
+ * evidence facts of follow-ups, and facts that answer a question (accepted
+ * facts, or any fact about an accepted person or place).
+ */
+function relevantFactIds(
+  entries: CasebookEntryDraft[],
+  questions: QuestionDraft[],
+  facts: Record<string, FactDraft>,
+  documents: DocumentDraft[],
+  followUps: FollowUpDraft[],
+): Set<string> {
+  const relevant = new Set<string>([
+    ...entries.flatMap((e) => e.requiresAnyFact ?? []),
+    ...documents.flatMap((d) => d.requiresAnyFact),
+    ...followUps.map((fu) => fu.presentFactId),
+  ]);
+  for (const part of questions.flatMap((q) => answerParts(q.answer))) {
+    if (part.type === 'fact') {
+      for (const id of part.acceptedIds) relevant.add(id);
+    } else {
+      for (const fact of Object.values(facts)) {
+        if (fact.subjects.some((s) => part.acceptedIds.includes(s))) relevant.add(fact.factId);
       }
     }
-    for (const fid of entry.revealsFactIds) walkFacts.add(fid);
   }
-  if (satisfiedQuestionIds.size < questions.length) {
-    const missing = questions.filter((q) => !satisfiedQuestionIds.has(q.questionId)).map((q) => q.questionId);
-    errors.push(`Path does not cover questions: ${missing.join(', ')}`);
+  return relevant;
+}
+
+interface SearchOptions {
+  /** Longest path to consider, in entries. */
+  maxLength: number;
+  /** Stop once this many covering paths are found. */
+  maxPaths: number;
+  /**
+   * Also collect the viable first moves of every covering set of at most
+   * this many entries; the search finishes that level even past maxPaths.
+   */
+  firstMovesUpTo?: number;
+  /** Time (Date.now()) past which the search gives up. */
+  deadline: number;
+}
+
+interface SearchResult {
+  /** Covering paths, shortest first; none visits every entry of an earlier one. */
+  paths: string[][];
+  /** Per questionId, the fewest entries after which it can be answered. */
+  earliestDepth: Record<string, number>;
+  /** Entries open from the start that begin a covering set within firstMovesUpTo. */
+  firstMoves: string[];
+  /** False when the search gave up at its time, state or memory limit. */
+  complete: boolean;
+  statesExplored: number;
+}
+
+/**
+ * The case reduced to bitsets over the relevant facts (see relevantFactIds),
+ * which are all the search needs: what gates entries, documents and
+ * follow-ups, and what answers questions.
+ */
+interface SearchModel {
+  entryGates: bigint[];
+  entryReveals: bigint[];
+  documents: { gate: bigint; reveals: bigint }[];
+  /** `entry` is the bit of the follow-up's entry in a visited set; `evidence` its presentFactId. */
+  followUps: { entry: bigint; evidence: bigint; reveals: bigint }[];
+  /** Per question, per answer part, one mask per accepted answer: the facts that find it. */
+  questions: { questionId: string; needsAll: boolean; parts: bigint[][] }[];
+  /** Known at the start: the introduction and the documents it opens. */
+  start: bigint;
+}
+
+function buildSearchModel(
+  entries: CasebookEntryDraft[],
+  questions: QuestionDraft[],
+  facts: Record<string, FactDraft>,
+  introductionFactIds: string[],
+  documents: DocumentDraft[],
+  followUps: FollowUpDraft[],
+): SearchModel {
+  const relevant = [...relevantFactIds(entries, questions, facts, documents, followUps)];
+  const bit = new Map(relevant.map((fid, i) => [fid, 1n << BigInt(i)]));
+  const mask = (factIds: string[]) => factIds.reduce((m, fid) => m | (bit.get(fid) ?? 0n), 0n);
+
+  const model: SearchModel = {
+    entryGates: entries.map((e) => mask(e.requiresAnyFact ?? [])),
+    entryReveals: entries.map((e) => mask(e.revealsFactIds)),
+    documents: documents.map((d) => ({ gate: mask(d.requiresAnyFact), reveals: mask(d.revealsFactIds) })),
+    followUps: followUps.flatMap((fu) => {
+      const index = entries.findIndex((e) => e.entryId === fu.entryId);
+      return index < 0
+        ? []
+        : [{ entry: 1n << BigInt(index), evidence: mask([fu.presentFactId]), reveals: mask(fu.revealsFactIds) }];
+    }),
+    questions: questions.map((q) => ({
+      questionId: q.questionId,
+      needsAll: ['multi', 'ordered', 'timeline'].includes(q.answer.kind ?? ''),
+      parts: answerParts(q.answer).map((part) => part.acceptedIds.map((id) =>
+        part.type === 'fact'
+          ? mask([id])
+          : mask(relevant.filter((fid) => facts[fid]?.subjects.includes(id))))),
+    })),
+    start: 0n,
+  };
+  model.start = learnMasks(model, 0n, mask(introductionFactIds));
+  return model;
+}
+
+/**
+ * Known facts plus everything the documents and follow-ups they open reveal,
+ * with the `visited` entries (learnWithoutVisiting, on bitsets).
+ */
+function learnMasks(model: SearchModel, visited: bigint, known: bigint): bigint {
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const doc of model.documents) {
+      if (doc.gate !== 0n && (doc.gate & known) === 0n) continue;
+      if ((doc.reveals & ~known) === 0n) continue;
+      known |= doc.reveals;
+      changed = true;
+    }
+    for (const fu of model.followUps) {
+      if ((fu.entry & visited) === 0n || (fu.evidence & known) === 0n) continue;
+      if ((fu.reveals & ~known) === 0n) continue;
+      known |= fu.reveals;
+      changed = true;
+    }
   }
-  if (errors.length > 0) {
-    throw new Error(`Coherence check failed: ${errors.join('; ')}`);
+  return known;
+}
+
+/** isQuestionSatisfied, on bitsets. */
+function answersQuestion(question: SearchModel['questions'][number], known: bigint): boolean {
+  return question.parts.every((accepted) =>
+    question.needsAll
+      ? accepted.every((m) => (m & known) !== 0n)
+      : accepted.some((m) => (m & known) !== 0n));
+}
+
+/**
+ * Whether the entries of a covering set can be visited in some order that
+ * starts with `first`. Visiting only ever opens more, so visiting whatever
+ * is open until nothing is left (or nothing opens) decides it.
+ */
+function canStartWith(model: SearchModel, first: number, set: number[]): boolean {
+  let known = model.start;
+  if (model.entryGates[first] !== 0n && (model.entryGates[first] & known) === 0n) return false;
+  let visited = 1n << BigInt(first);
+  known = learnMasks(model, visited, known | model.entryReveals[first]);
+  const remaining = set.filter((i) => i !== first);
+  while (remaining.length > 0) {
+    const open = remaining.findIndex((i) => model.entryGates[i] === 0n || (model.entryGates[i] & known) !== 0n);
+    if (open < 0) return false;
+    visited |= 1n << BigInt(remaining[open]);
+    known = learnMasks(model, visited, known | model.entryReveals[remaining[open]]);
+    remaining.splice(open, 1);
   }
+  return true;
+}
 
-  await updateDraft(draftId, { optimalPath });
-  return {
-    ...state,
-    validationResult: { valid: true, errors: [], warnings: [] },
+/**
+ * Exact search: breadth-first over sets of visited entries, one more entry per
+ * level, so covering sets are found shortest first. What a player knows
+ * depends only on which entries they have visited, so each set is expanded
+ * once whatever order reached it. An entry is only added if its gate is met
+ * and it teaches a relevant fact not yet known, itself or through the
+ * documents and follow-ups it opens; one that doesn't can never shorten a
+ * path (if a follow-up there needs evidence found later, the entry can be
+ * added then). A covering set is not expanded further, and one containing
+ * a set already found (the same path with a detour) is not counted.
+ *
+ * Nodes are kept small (the visited set and known relevant facts as bitsets,
+ * and a parent pointer instead of a copied path), and the search gives up at
+ * SEARCH_STATE_LIMIT states or SEARCH_HEAP_SHARE of the heap limit, as well as
+ * at its deadline, so a wide casebook falls back instead of running the
+ * Lambda out of memory.
+ */
+function searchCoveringPaths(
+  entries: CasebookEntryDraft[],
+  questions: QuestionDraft[],
+  facts: Record<string, FactDraft>,
+  introductionFactIds: string[],
+  documents: DocumentDraft[],
+  followUps: FollowUpDraft[],
+  options: SearchOptions,
+): SearchResult {
+  const { maxLength, maxPaths, firstMovesUpTo = 0, deadline } = options;
+  const model = buildSearchModel(entries, questions, facts, introductionFactIds, documents, followUps);
+  const paths: string[][] = [];
+  const foundSets: bigint[] = [];
+  const earliestDepth: Record<string, number> = {};
+  const firstMoves = new Set<number>();
+
+  // Notes the questions a set answers; true when it answers them all
+  const covers = (known: bigint, depth: number) => {
+    let all = true;
+    for (const q of model.questions) {
+      if (!answersQuestion(q, known)) {
+        all = false;
+      } else if (earliestDepth[q.questionId] === undefined) {
+        earliestDepth[q.questionId] = depth;
+      }
+    }
+    return all;
   };
-};
+  const result = (complete: boolean, statesExplored: number): SearchResult => ({
+    paths,
+    earliestDepth,
+    firstMoves: entries.filter((_, i) => firstMoves.has(i)).map((e) => e.entryId),
+    complete,
+    statesExplored,
+  });
+
+  if (covers(model.start, 0)) {
+    paths.push([]);
+    return result(true, 1);
+  }
+
+  interface SearchNode { visited: bigint; known: bigint; entry: number; parent?: SearchNode }
+  const pathOf = (node: SearchNode) => {
+    const path: string[] = [];
+    for (let n: SearchNode | undefined = node; n && n.entry >= 0; n = n.parent) path.unshift(entries[n.entry].entryId);
+    return path;
+  };
+
+  const heapLimit = getHeapStatistics().heap_size_limit * SEARCH_HEAP_SHARE;
+  let frontier: SearchNode[] = [{ visited: 0n, known: model.start, entry: -1 }];
+  const seen = new Set<bigint>([0n]);
+
+  for (let depth = 1; depth <= maxLength && frontier.length > 0; depth++) {
+    if (paths.length >= maxPaths && depth > firstMovesUpTo) break;
+    const next: SearchNode[] = [];
+    for (const node of frontier) {
+      if (Date.now() > deadline || seen.size > SEARCH_STATE_LIMIT || process.memoryUsage().heapUsed > heapLimit) {
+        return result(false, seen.size);
+      }
+      for (let i = 0; i < entries.length; i++) {
+        const visited = node.visited | (1n << BigInt(i));
+        if (visited === node.visited || seen.has(visited)) continue;
+        const gate = model.entryGates[i];
+        if (gate !== 0n && (gate & node.known) === 0n) continue;
+        const known = learnMasks(model, visited, node.known | model.entryReveals[i]);
+        if (known === node.known) continue;
+
+        seen.add(visited);
+        const child: SearchNode = { visited, known, entry: i, parent: node };
+        if (!covers(child.known, depth)) {
+          next.push(child);
+          continue;
+        }
+        if (depth <= firstMovesUpTo) {
+          const set = entries.map((_, j) => j).filter((j) => (visited >> BigInt(j)) & 1n);
+          for (const first of set) {
+            if (!firstMoves.has(first) && canStartWith(model, first, set)) firstMoves.add(first);
+          }
+        }
+        if (foundSets.some((found) => (visited & found) === found)) continue;
+        foundSets.push(visited);
+        if (paths.length < maxPaths) paths.push(pathOf(child));
+        if (paths.length >= maxPaths && depth > firstMovesUpTo) return result(true, seen.size);
+      }
+    }
+    frontier = next;
+  }
+  return result(true, seen.size);
+}
+
+/** Everything a player could ever learn visiting only these entries. */
+function reachableFacts(
+  entries: CasebookEntryDraft[],
+  introductionFactIds: string[],
+  documents: DocumentDraft[],
+  followUps: FollowUpDraft[],
+): Set<string> {
+  const known = new Set<string>(introductionFactIds);
+  const visited = new Set<string>();
+  learnWithoutVisiting(known, visited, documents, followUps);
+  const remaining = new Set(entries);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const entry of remaining) {
+      if (entry.requiresAnyFact?.length && !entry.requiresAnyFact.some((fid) => known.has(fid))) continue;
+      for (const fid of entry.revealsFactIds) known.add(fid);
+      visited.add(entry.entryId);
+      learnWithoutVisiting(known, visited, documents, followUps);
+      remaining.delete(entry);
+      changed = true;
+    }
+  }
+  return known;
+}
+
+/**
+ * How many ways there are through the case:
+ *
+ * - **Alternative paths** — up to K_ALTERNATIVE_PATHS covering paths with
+ *   different entries, at most one entry longer than the optimal path, which
+ *   comes first.
+ * - **Bottlenecks** — optimal-path entries without which no path answers
+ *   every question.
+ * - **Viable first moves** — entries open from the start that begin some
+ *   path as short as the optimal one: for every covering set that short,
+ *   each of its entries the gates allow visiting first.
+ * - **Earliest depth** — per question, the fewest entries after which it can
+ *   be answered.
+ *
+ * Alternatives, first moves and earliest depths come from one search, with
+ * ANALYSIS_TIME_LIMIT_MS and the exact search's state and memory limits;
+ * past any of them, `complete` is false and the lists may be short.
+ */
+function analyzePaths(
+  optimalPath: string[],
+  entries: CasebookEntryDraft[],
+  questions: QuestionDraft[],
+  facts: Record<string, FactDraft>,
+  introductionFactIds: string[],
+  documents: DocumentDraft[],
+  followUps: FollowUpDraft[],
+): PathAnalysisDraft {
+  const coversAll = (known: Set<string>) => questions.every((q) => isQuestionSatisfied(q, known, facts));
+
+  // One search: alternatives up to one entry longer, and first moves from every shortest covering set
+  const search = searchCoveringPaths(entries, questions, facts, introductionFactIds, documents, followUps, {
+    maxLength: optimalPath.length + 1,
+    maxPaths: K_ALTERNATIVE_PATHS,
+    firstMovesUpTo: optimalPath.length,
+    deadline: Date.now() + ANALYSIS_TIME_LIMIT_MS,
+  });
+  const alternativePaths = [
+    optimalPath,
+    ...search.paths.filter((path) => !optimalPath.every((entryId) => path.includes(entryId))),
+  ].slice(0, K_ALTERNATIVE_PATHS);
+
+  const bottleneckEntryIds = optimalPath.filter((entryId) =>
+    !coversAll(reachableFacts(entries.filter((e) => e.entryId !== entryId), introductionFactIds, documents, followUps)),
+  );
+
+  // The optimal path's own opening always counts, even if the search stopped early
+  const viableFirstMoves = entries
+    .map((e) => e.entryId)
+    .filter((entryId) => entryId === optimalPath[0] || search.firstMoves.includes(entryId));
+
+  return { alternativePaths, bottleneckEntryIds, viableFirstMoves, earliestDepth: search.earliestDepth, complete: search.complete };
+}
+
+/** Warnings for a case that plays as a single forced sequence. */
+function linearityWarnings(analysis: PathAnalysisDraft, optimalPath: string[]): string[] {
+  const warnings: string[] = [];
+  if (analysis.complete && analysis.viableFirstMoves.length <= 1) {
+    warnings.push(
+      `Case is linear: only ${analysis.viableFirstMoves.length} opening entr${analysis.viableFirstMoves.length === 1 ? 'y begins' : 'ies begin'} a shortest path`,
+    );
+  }
+  if (analysis.complete && analysis.alternativePaths.length <= 1) {
+    warnings.push(`Case is linear: no other path solves it within ${optimalPath.length + 1} entries`);
+  }
+  const bottlenecks = analysis.bottleneckEntryIds.length;
+  if (optimalPath.length >= 2 && bottlenecks / optimalPath.length >= LINEAR_BOTTLENECK_SHARE) {
+    warnings.push(
+      `Case is linear: ${bottlenecks} of ${optimalPath.length} optimal-path entries are bottlenecks every solution must visit (${analysis.bottleneckEntryIds.join(', ')})`,
+    );
+  }
+  return warnings;
+}
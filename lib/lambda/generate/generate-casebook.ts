@@ -5,7 +5,9 @@ import {
   type OperationalState,
   type CasebookEntryDraft,
   type CharacterDraft,
+  type ExpertRole,
   type FactDraft,
+  type FactSkeleton,
   type FactGraph,
   type LocationDraft,
   type ComputedKnowledge,
@@ -21,6 +23,8 @@ import {
  *    bipartite graph. Each subject (character or location) becomes a
  *    casebook entry. Entry gating uses facts about that subject. Entry
  *    reveals come from character knowledge states and location reveals.
+ *    Each expert in the template also becomes an entry, gated on the
+ *    evidence they interpret and revealing their analyses.
  *
  * 2. **AI polish** — the AI refines the programmatic skeleton with
  *    creative details: labels, addresses, era-appropriate flavor, which
@@ -40,7 +44,7 @@ export const handler = async (state: OperationalState): Promise<OperationalState
   const draft = await getDraft(draftId);
   const {
     template, events, characters, locations, facts,
-    introductionFactIds, factGraph, computedKnowledge,
+    introductionFactIds, factGraph, factSkeletons, computedKnowledge,
   } = draft ?? {};
   const validationResult = state.validationResult;
 
@@ -51,6 +55,7 @@ export const handler = async (state: OperationalState): Promise<OperationalState
   if (!facts) throw new Error('Step 8 requires facts from step 6');
   if (!introductionFactIds) throw new Error('Step 8 requires introductionFactIds from step 7');
   if (!factGraph) throw new Error('Step 8 requires factGraph from ComputeFacts');
+  if (!factSkeletons) throw new Error('Step 8 requires factSkeletons from ComputeFacts');
   if (!computedKnowledge) throw new Error('Step 8 requires computedKnowledge from ComputeEventKnowledge');
 
   // ── Phase 1: Programmatic structure ──────────────────────────────
@@ -61,10 +66,12 @@ export const handler = async (state: OperationalState): Promise<OperationalState
     introductionFactIds,
     factGraph,
     computedKnowledge,
+    factSkeletons,
+    template.expertRoles ?? [],
   );
 
   // ── Phase 2: AI polish ───────────────────────────────────────────
-  const skeletonSummary = formatSkeletonForPrompt(skeleton, characters, locations, facts);
+  const skeletonSummary = formatSkeletonForPrompt(skeleton, characters, locations, facts, template.expertRoles ?? []);
 
   const systemPrompt = `You are a game designer polishing the casebook for a detective mystery game. The casebook structure has already been determined programmatically — every entry's reveals and gates are fixed. Your job is to add creative polish:
 
@@ -80,19 +87,21 @@ Each entry must match this schema:
 
 ## YOUR RESPONSIBILITIES
 
-1. **Labels**: Give each entry an evocative display name appropriate to the era and setting. Character entries should use the character's name or title. Location entries should use the location's name or a descriptive label.
+1. **Labels**: Give each entry an evocative display name appropriate to the era and setting. Character entries should use the character's name or title. Location entries should use the location's name or a descriptive label. Expert entries should name the expert and their calling (e.g. "Dr. Ada Finch, Analytical Chemist").
 
-2. **Addresses**: Give each entry an era-appropriate address. These appear in the player's casebook as the address they visit. Be specific and atmospheric.
+2. **Addresses**: Give each entry an era-appropriate address. These appear in the player's casebook as the address they visit. Be specific and atmospheric. An expert's address is their own premises (laboratory, harbour office, back-room terminal), not the place the evidence was found.
 
 3. **Characters present** (the \`characterIds\` array): Decide which characters are physically present at each entry. Rules:
    - You MUST use the exact characterId strings from the Characters list below (e.g. "char_inspector_lestrade"). Do NOT use character names, do NOT invent IDs.
    - LOCATION entries must have an EMPTY characterIds array ([]). Location scenes are pure physical investigation — no characters present.
+   - EXPERT entries must have an EMPTY characterIds array ([]). The expert is not one of the case's characters.
    - A CHARACTER entry should include that character (unless their currentStatus prevents it — e.g. deceased, missing). A character's characterIds array should contain ONLY that character.
    - Characters who are deceased, missing, or otherwise unavailable should NOT be listed as present anywhere.
 
-4. **Entry types** — CHARACTER entries and LOCATION entries serve different purposes:
+4. **Entry types** — CHARACTER, LOCATION and EXPERT entries serve different purposes:
    - CHARACTER entries are interviews. The scene focuses on dialogue with the character, who reveals or conceals facts through conversation.
    - LOCATION entries are pure physical investigations. The scene focuses on searching the space, examining evidence, and observing the environment. No characters are present — the detective investigates alone.
+   - EXPERT entries are consultations. The detective brings evidence to a specialist outside the story, who explains what it shows.
    - A character entry and a location entry MAY share the same address if the character is found at that location. They are separate visits with different purposes.
    - A character's currentStatus affects how their entry works: e.g. a deceased character's entry is about examining their belongings or the scene of their death, not interviewing them.
 
@@ -146,9 +155,11 @@ ${validationResult.errors.map((e) => `- ${e}`).join('\n')}`
   const { data: polish } = await callModel(
     {
       stepName: 'generateCasebook',
+      draftId,
       systemPrompt,
       userPrompt,
       modelConfig: input.modelConfig,
+      outputSchema: CasebookPolishSchema,
     },
     (raw) => CasebookPolishSchema.parse(raw),
   );
@@ -157,7 +168,8 @@ ${validationResult.errors.map((e) => `- ${e}`).join('\n')}`
   const validCharacterIds = new Set(Object.keys(characters));
   const casebook = mergeCasebook(skeleton, polish, validCharacterIds);
 
-  await updateDraft(draftId, { casebook });
+  // Follow-ups are authored against the casebook, so any from an earlier run are stale
+  await updateDraft(draftId, { casebook, followUps: undefined });
   return state;
 };
 
@@ -174,6 +186,11 @@ ${validationResult.errors.map((e) => `- ${e}`).join('\n')}`
  *   locations: physical evidence from locationReveals)
  * - Is placed at the subject's location (characters: first event location
  *   or a default; locations: the location itself)
+ *
+ * Expert entries ("entry_" + expertId) are gated on the evidence the expert
+ * interprets and reveal their analyses (expert_analysis fact skeletons).
+ * They are placed where that evidence was found; the expert's own premises
+ * become the entry's address during polish.
  */
 export function buildCasebookSkeleton(
   characters: Record<string, CharacterDraft>,
@@ -182,6 +199,8 @@ export function buildCasebookSkeleton(
   introductionFactIds: string[],
   factGraph: FactGraph,
   computedKnowledge: ComputedKnowledge,
+  factSkeletons: FactSkeleton[] = [],
+  expertRoles: ExpertRole[] = [],
 ): Record<string, CasebookEntryDraft> {
   const entries: Record<string, CasebookEntryDraft> = {};
   const allFactIds = new Set(Object.keys(facts));
@@ -266,6 +285,29 @@ export function buildCasebookSkeleton(
     };
   }
 
+  // ── Expert entries ─────────────────────────────────────────────
+  for (const expert of expertRoles) {
+    const analyses = factSkeletons.flatMap((s) =>
+      s.source.type === 'expert_analysis' && s.source.expertId === expert.expertId && allFactIds.has(s.factId)
+        ? [{ factId: s.factId, evidenceFactId: s.source.evidenceFactId }]
+        : []);
+    const evidenceFactIds = dedup(analyses.map((a) => a.evidenceFactId)).filter((fid) => allFactIds.has(fid));
+
+    // An expert with nothing to examine is a dead end; their analyses fall to the orphan pass below
+    if (analyses.length === 0 || evidenceFactIds.length === 0) continue;
+
+    const entryId = `entry_${expert.expertId}`;
+    entries[entryId] = {
+      entryId,
+      label: expert.role,
+      address: '',
+      locationId: findEvidenceLocation(evidenceFactIds[0], computedKnowledge, locations),
+      characterIds: [],
+      revealsFactIds: analyses.map((a) => a.factId),
+      requiresAnyFact: evidenceFactIds,
+    };
+  }
+
   // ── Ensure all non-intro facts are revealed by at least one entry ──
   const revealedFacts = new Set<string>();
   for (const entry of Object.values(entries)) {
@@ -332,7 +374,22 @@ function findCharacterLocation(
   return locationIds[0] ?? '';
 }
 
-/** Find the best entry to assign an orphaned fact to. */
+/** The location where a piece of evidence is found, or the first location. */
+function findEvidenceLocation(
+  factId: string,
+  computedKnowledge: ComputedKnowledge,
+  locations: Record<string, LocationDraft>,
+): string {
+  for (const [locationId, factIds] of Object.entries(computedKnowledge.locationReveals)) {
+    if (factIds.includes(factId) && locations[locationId]) return locationId;
+  }
+  return Object.keys(locations)[0] ?? '';
+}
+
+/**
+ * Find the best entry to assign an orphaned fact to. Expert entries only
+ * reveal their analyses, so they are never picked.
+ */
 function findBestEntryForFact(
   fact: FactDraft,
   entries: Record<string, CasebookEntryDraft>,
@@ -340,11 +397,15 @@ function findBestEntryForFact(
   // Prefer entries whose subject matches one of the fact's subjects
   for (const subjectId of fact.subjects) {
     const entryId = `entry_${subjectId}`;
-    if (entries[entryId]) return entries[entryId];
+    if (entries[entryId] && !isExpertEntry(entryId)) return entries[entryId];
   }
-  // Fallback: first entry
-  const allEntries = Object.values(entries);
-  return allEntries[0];
+  // Fallback: first non-expert entry
+  return Object.values(entries).find((entry) => !isExpertEntry(entry.entryId));
+}
+
+/** Expert entries are keyed by expertId, which always starts with "expert_". */
+function isExpertEntry(entryId: string): boolean {
+  return entryId.startsWith('entry_expert_');
 }
 
 /** Deduplicate an array preserving order. */
@@ -358,6 +419,7 @@ function formatSkeletonForPrompt(
   characters: Record<string, CharacterDraft>,
   locations: Record<string, LocationDraft>,
   facts: Record<string, FactDraft>,
+  expertRoles: ExpertRole[],
 ): string {
   return Object.values(skeleton)
     .map((entry) => {
@@ -373,13 +435,15 @@ function formatSkeletonForPrompt(
         .map((f) => `${f.factId}: "${f.description}"`)
         .join('; ');
 
-      // Determine if this is a character or location entry
+      // Determine if this is an expert, character or location entry
+      const expert = expertRoles.find((e) => entry.entryId === `entry_${e.expertId}`);
       const isCharEntry = entry.entryId.startsWith('entry_char_') ||
         entry.characterIds.some((cid) => characters[cid]);
-      const subjectType = isCharEntry ? 'CHARACTER' : 'LOCATION';
+      const subjectType = expert ? 'EXPERT' : isCharEntry ? 'CHARACTER' : 'LOCATION';
 
-      return `### ${entry.entryId} [${subjectType}]
-  Location: ${entry.locationId} (${loc?.name ?? 'unknown'})
+      return `### ${entry.entryId} [${subjectType}]${expert ? `
+  Expert: ${expert.role} — specialty: ${expert.specialty}` : ''}
+  Location: ${entry.locationId} (${loc?.name ?? 'unknown'})${expert ? ' [where the evidence was found]' : ''}
   Reveals: ${reveals || 'none'}
   Gated on: ${gates || 'none'}`;
     })
@@ -428,7 +492,10 @@ function getMysteryStyleCasebookConstraints(mysteryStyle: string): string {
   }
 }
 
-/** Merge AI polish into the programmatic skeleton, filtering invalid character IDs. */
+/**
+ * Merge AI polish into the programmatic skeleton, filtering invalid character
+ * IDs. Expert entries keep no characters whatever the polish says.
+ */
 function mergeCasebook(
   skeleton: Record<string, CasebookEntryDraft>,
   polish: Record<string, { entryId: string; label: string; address: string; characterIds: string[] }>,
@@ -441,7 +508,9 @@ function mergeCasebook(
 
     // Filter AI-provided characterIds to only valid ones; fall back to skeleton if none survive
     let characterIds = entry.characterIds;
-    if (polished?.characterIds) {
+    if (isExpertEntry(entryId)) {
+      characterIds = [];
+    } else if (polished?.characterIds) {
       const filtered = polished.characterIds.filter((id) => validCharacterIds.has(id));
       characterIds = filtered.length > 0 ? filtered : entry.characterIds;
     }
@@ -112,7 +112,10 @@ Setting: ${template.era}, ${template.date}
 
 Character Roles:
 ${template.characterRoles.map((r) => `  - ${r.roleId}: ${r.role} — ${r.description}`).join('\n')}
-
+${template.falseLeads?.length ? `
+False Leads (these roles are innocent, but the case will give them a motive and an opportunity; reflect the motive in their motivations, and don't make them the culprit):
+${template.falseLeads.map((l) => `  - ${l.suspectRoleId}: ${l.theory} (motive: ${l.motive})`).join('\n')}
+` : ''}
 Event Chain (chronological):
 ${eventSummary}
 
@@ -143,9 +146,11 @@ ${validationResult.errors.map((e) => `- ${e}`).join('\n')}`
   const { data: result } = await callModel(
     {
       stepName: 'generateCharacters',
+      draftId,
       systemPrompt,
       userPrompt,
       modelConfig: input.modelConfig,
+      outputSchema: PopulateCharactersResultSchema,
     },
     (raw) => PopulateCharactersResultSchema.parse(raw),
   );
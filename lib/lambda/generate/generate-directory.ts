@@ -0,0 +1,161 @@
+import { callModel } from '../shared/bedrock';
+import { getDraft, updateDraft } from '../shared/draft-db';
+import {
+  DirectorySchema,
+  type CasebookEntryDraft,
+  type DirectoryDraft,
+  type OperationalState,
+} from '../shared/generation-state';
+
+/**
+ * Pipeline Step 10b: Generate Directory (after ValidateProse)
+ *
+ * AI step for directory mode, where the player searches a directory of
+ * addresses instead of seeing the casebook listed. Writes two things:
+ *
+ * 1. **Filler listings** — residents, shops and offices that have nothing to
+ *    do with the case, each with a one- or two-sentence "nothing of interest"
+ *    scene. They make the directory worth searching.
+ *
+ * 2. **Turned-away scenes** — for every casebook entry, what the player finds
+ *    calling there before they have any reason to (no gate fact discovered).
+ *
+ * Neither reveals facts, so reachability and the optimal path are unchanged.
+ * The validate callback requires a turned-away scene for every entry and
+ * rejects listings that reuse an entry's label or address.
+ */
+export const handler = async (state: OperationalState): Promise<OperationalState> => {
+  const { input, draftId } = state;
+  await updateDraft(draftId, {
+    currentStep: 'generateDirectory',
+    lastStepStartedAt: new Date().toISOString(),
+  });
+  const draft = await getDraft(draftId);
+  const { template, characters, locations, casebook } = draft ?? {};
+
+  if (!template) throw new Error('GenerateDirectory requires template from step 1');
+  if (!characters) throw new Error('GenerateDirectory requires characters from step 3');
+  if (!locations) throw new Error('GenerateDirectory requires locations from step 4');
+  if (!casebook) throw new Error('GenerateDirectory requires casebook from step 8');
+
+  const entries = Object.values(casebook);
+  const listingCount = FILLER_LISTINGS[template.difficulty] ?? FILLER_LISTINGS.medium;
+
+  const systemPrompt = `You are a game designer writing the address directory for a detective game. The player looks addresses up by name and visits them; only a few matter to the case. Your job is to fill the directory with believable addresses that don't, and to write what the player finds at each real address when they call too early.
+
+Your response must end with valid JSON:
+{
+  "listings": Record<listingId, { "label": string, "address": string, "scene": string }>,
+  "turnedAway": Record<entryId, string>
+}
+
+## Listings
+
+- Write ${listingCount} filler listings. Use listingIds like "listing_crane_tobacconist" (lowercase, underscores).
+- Each is a resident, shop, office or institution a ${template.era} directory would list: label like "J. Crane, Tobacconist", address in the same style as the case's addresses.
+- Make them varied, and let a few share a surname, trade or street with a real entry, so searching takes some thought.
+- Never use a character's name, a location of the case, or an entry's label or address.
+- The scene is 1-2 sentences in second person: the detective calls and finds nothing bearing on the case. Give it a little local colour, but no clues and no mention of the crime.
+
+## Turned-away scenes
+
+- Write one for EVERY entry listed below, keyed by its entryId.
+- 1-3 sentences in second person: the detective calls at this address with no reason yet to be there, and learns nothing. The door stays shut, the clerk is unhelpful, the room is unremarkable.
+- Don't reveal or hint at what the address holds, and don't contradict who is found there later.
+
+Keep the tone (${template.narrativeTone}) and atmosphere (${template.atmosphere}). Avoid common AI writing tells like em-dashes, asterisks, or excessive line breaks.`;
+
+  const userPrompt = `Setting: ${template.era}, ${template.date}
+Crime Type: ${template.crimeType}
+
+## Characters (do not use these names)
+${Object.values(characters).map((c) => `  - ${c.name} (${c.societalRole})`).join('\n')}
+
+## Locations (do not list these)
+${Object.values(locations).map((l) => `  - ${l.name} (${l.type})`).join('\n')}
+
+## Casebook entries (need turned-away scenes)
+${entries.map((e) => `  - ${e.entryId}: ${e.label}, ${e.address}${describePresent(e, characters)}`).join('\n')}
+
+Provide the JSON directory.`;
+
+  const { data } = await callModel(
+    {
+      stepName: 'generateDirectory',
+      draftId,
+      systemPrompt,
+      userPrompt,
+      modelConfig: input.modelConfig,
+      outputSchema: DirectorySchema,
+    },
+    (raw) => {
+      const parsed = DirectorySchema.parse(raw);
+      const problems = findDirectoryProblems(parsed, entries);
+      if (problems.length > 0) {
+        throw new Error(`Directory failed validation:\n${problems.map((p) => `- ${p}`).join('\n')}`);
+      }
+      return parsed;
+    },
+  );
+
+  const directory: DirectoryDraft = {
+    listings: Object.fromEntries(
+      Object.entries(data.listings).map(([listingId, l]) => [listingId, { listingId, ...l }]),
+    ),
+    turnedAway: Object.fromEntries(entries.map((e) => [e.entryId, data.turnedAway[e.entryId]])),
+  };
+
+  await updateDraft(draftId, { directory });
+  return state;
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+/** Filler listings per difficulty: a harder case hides its addresses among more. */
+const FILLER_LISTINGS: Record<string, number> = {
+  easy: 12,
+  medium: 18,
+  hard: 24,
+};
+
+function describePresent(
+  entry: CasebookEntryDraft,
+  characters: Record<string, { name: string }>,
+): string {
+  const names = entry.characterIds.map((id) => characters[id]?.name).filter(Boolean);
+  return names.length > 0 ? ` (found there: ${names.join(', ')})` : '';
+}
+
+const normalize = (s: string) => s.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+function findDirectoryProblems(
+  directory: { listings: Record<string, { label: string; address: string }>; turnedAway: Record<string, string> },
+  entries: CasebookEntryDraft[],
+): string[] {
+  const problems: string[] = [];
+  const entryIds = new Set(entries.map((e) => e.entryId));
+
+  for (const entry of entries) {
+    if (!directory.turnedAway[entry.entryId]) {
+      problems.push(`turnedAway is missing entry "${entry.entryId}"`);
+    }
+  }
+  for (const entryId of Object.keys(directory.turnedAway)) {
+    if (!entryIds.has(entryId)) problems.push(`turnedAway references unknown entry "${entryId}"`);
+  }
+
+  const entryLabels = new Set(entries.map((e) => normalize(e.label)));
+  const entryAddresses = new Set(entries.map((e) => normalize(e.address)));
+  for (const [listingId, listing] of Object.entries(directory.listings)) {
+    if (entryLabels.has(normalize(listing.label))) {
+      problems.push(`listing "${listingId}" reuses the label of a casebook entry ("${listing.label}")`);
+    }
+    if (entryAddresses.has(normalize(listing.address))) {
+      problems.push(`listing "${listingId}" reuses the address of a casebook entry ("${listing.address}")`);
+    }
+  }
+
+  return problems;
+}
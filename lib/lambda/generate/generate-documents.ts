@@ -0,0 +1,186 @@
+import { callModel } from '../shared/bedrock';
+import { getDraft, updateDraft } from '../shared/draft-db';
+import { factPassages, parseSceneMarkup } from '../shared/scene-markup';
+import {
+  DocumentsSchema,
+  type DocumentDraft,
+  type OperationalState,
+} from '../shared/generation-state';
+
+/**
+ * Pipeline Step 7b: Generate Documents
+ *
+ * AI step that runs after GenerateIntroduction. Writes the case's readable
+ * documents: the day's newspaper, letters, ledgers, telegrams. Each one
+ * reveals a few facts and is either available from the start (no gate) or
+ * unlocked by facts, like a casebook entry.
+ *
+ * Documents only add sources for existing facts, so they can't disconnect
+ * the graph. ValidateCasebook includes them in its reachability BFS and
+ * ComputeOptimalPath reads them for free as they unlock.
+ *
+ * The validate callback rejects unknown or introduction facts, documents
+ * gated on their own facts, markup that doesn't mark every revealed fact,
+ * and any number of start documents other than one, so callModel asks for
+ * a correction.
+ */
+export const handler = async (state: OperationalState): Promise<OperationalState> => {
+  const { input, draftId } = state;
+  await updateDraft(draftId, {
+    currentStep: 'generateDocuments',
+    lastStepStartedAt: new Date().toISOString(),
+  });
+  const draft = await getDraft(draftId);
+  const { template, events, characters, locations, facts, introductionFactIds, introduction, title } = draft ?? {};
+
+  if (!template) throw new Error('GenerateDocuments requires template from step 1');
+  if (!events) throw new Error('GenerateDocuments requires events from step 2');
+  if (!characters) throw new Error('GenerateDocuments requires characters from step 3');
+  if (!locations) throw new Error('GenerateDocuments requires locations from step 4');
+  if (!facts) throw new Error('GenerateDocuments requires facts from step 6');
+  if (!introductionFactIds) throw new Error('GenerateDocuments requires introductionFactIds from step 7');
+  if (!introduction) throw new Error('GenerateDocuments requires introduction from step 7');
+
+  const documentCount = template.difficulty === 'easy' ? '1-2' : template.difficulty === 'hard' ? '3-4' : '2-3';
+
+  const systemPrompt = `You are a mystery writer creating the readable documents for a detective game: the kind of paper a detective pores over between visits. The day's newspaper, a letter found in a desk, a page torn from a ledger, a telegram, a diary, an official report, a posted notice.
+
+Your response must end with valid JSON: a Record<documentId, Document> where each Document is:
+{
+  "kind": "newspaper" | "letter" | "ledger" | "diary" | "telegram" | "report" | "notice",
+  "title": string,             // display title, e.g. "The Morning Herald, 14 March 1893" or "Letter to Mrs. Pell"
+  "text": string,              // the document itself, marked up (see below)
+  "revealsFactIds": string[],  // 1-4 factIds the reader learns from it
+  "requiresAnyFact": string[]  // [] if available from the start; otherwise factIds, any one of which leads the detective to it
+}
+
+## Rules
+
+- Write ${documentCount} documents. Use documentIds like "doc_morning_herald" (lowercase, underscores).
+- Exactly ONE document is available from the start (requiresAnyFact: []): the day's newspaper, or whatever passes for public news in this setting (a broadsheet, a town crier's notice, a station bulletin, a news feed). It reveals 1-3 facts that would be public knowledge, and should also carry unrelated items so the relevant ones don't stand out.
+- Every other document is gated on 1-3 facts whose discovery would lead the detective to it (a character mentions the letter; a location reveals where the ledger is kept). It reveals facts someone would plausibly have written down.
+- Never reveal introduction facts, and never gate a document on a fact it reveals itself.
+- Documents may carry false facts when the writer believed or wanted them believed (a newspaper repeating a rumour, a forged letter).
+- Don't hand over the solution: the start document especially must not reveal the culprit's means or motive.
+- Write in a format that fits both the kind and the era. A letter has a salutation and sign-off; a ledger is dated lines of entries; a telegram is terse; a newspaper has a masthead, headlines and short items. In other settings, adapt (a message log, a transaction record, a bulletin board post). 100-300 words each.
+- Keep the setting (${template.era}), the narrative tone (${template.narrativeTone}) and the atmosphere (${template.atmosphere}).
+- Avoid common AI writing tells like em-dashes, asterisks, or excessive line breaks.
+
+## Markup (REQUIRED)
+
+Mark up each document's text the same way as the case's scenes:
+- Wrap the passage that reveals each fact in revealsFactIds in <fact id="FACT_ID">…</fact>. Every revealed fact needs a span; mark no other facts.
+- Wrap character names in <character id="CHARACTER_ID">…</character> and place names in <location id="LOCATION_ID">…</location>.
+- A name may sit inside a fact span. Fact spans must not nest, names must not nest, and every tag must be closed. Use no other tags.`;
+
+  const userPrompt = `Title: ${title ?? template.title}
+Setting: ${template.era}, ${template.date}
+Crime Type: ${template.crimeType}
+
+## The Story (chronological events)
+${Object.values(events).sort((a, b) => a.timestamp - b.timestamp).map((e) => `  ${e.timestamp}. ${e.description}`).join('\n')}
+
+## Introduction (the player has read this)
+${introduction}
+
+Introduction facts (already known; do not reveal): ${introductionFactIds.join(', ')}
+
+## Characters (ids for <character> markup)
+${Object.values(characters).map((c) => `  - ${c.characterId}: ${c.name} (${c.mysteryRole}, ${c.societalRole})${c.currentStatus ? ` [current status: ${c.currentStatus}]` : ''}`).join('\n')}
+
+## Locations (ids for <location> markup)
+${Object.values(locations).map((l) => `  - ${l.locationId}: ${l.name} (${l.type})`).join('\n')}
+
+## Facts
+${Object.values(facts).map((f) => `  - ${f.factId}: "${f.description}" [${f.category}, veracity: ${f.veracity}] subjects: [${f.subjects.join(', ')}]`).join('\n')}
+
+Provide the JSON documents.`;
+
+  const { data } = await callModel(
+    {
+      stepName: 'generateDocuments',
+      draftId,
+      systemPrompt,
+      userPrompt,
+      modelConfig: input.modelConfig,
+      outputSchema: DocumentsSchema,
+    },
+    (raw) => {
+      const parsed = DocumentsSchema.parse(raw);
+      const problems = findDocumentProblems(parsed, facts, introductionFactIds);
+      if (problems.length > 0) {
+        throw new Error(`Documents failed validation:\n${problems.map((p) => `- ${p}`).join('\n')}`);
+      }
+      return parsed;
+    },
+  );
+
+  const documents: Record<string, DocumentDraft> = {};
+  for (const [documentId, doc] of Object.entries(data)) {
+    documents[documentId] = {
+      documentId,
+      kind: doc.kind,
+      title: doc.title,
+      text: doc.text,
+      revealsFactIds: [...new Set(doc.revealsFactIds)],
+      requiresAnyFact: [...new Set(doc.requiresAnyFact)],
+    };
+  }
+
+  await updateDraft(draftId, { documents });
+  return state;
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Fact references and markup problems in each document, and whether exactly
+ * one document (the start document) is ungated.
+ */
+function findDocumentProblems(
+  documents: Record<string, Omit<DocumentDraft, 'documentId'>>,
+  facts: Record<string, unknown>,
+  introductionFactIds: string[],
+): string[] {
+  const startDocumentIds = Object.keys(documents).filter((id) => documents[id].requiresAnyFact.length === 0);
+  const problems = startDocumentIds.length === 1
+    ? []
+    : [`exactly one document must have an empty requiresAnyFact (the start document); found ${startDocumentIds.length}${startDocumentIds.length > 0 ? ` (${startDocumentIds.join(', ')})` : ''}`];
+
+  for (const [documentId, doc] of Object.entries(documents)) {
+    problems.push(...findProblemsInDocument(doc, facts, introductionFactIds).map((p) => `${documentId}: ${p}`));
+  }
+  return problems;
+}
+
+/** Fact references and markup problems in one document. */
+function findProblemsInDocument(
+  doc: Omit<DocumentDraft, 'documentId'>,
+  facts: Record<string, unknown>,
+  introductionFactIds: string[],
+): string[] {
+  const problems: string[] = [];
+
+  for (const fid of doc.revealsFactIds) {
+    if (!facts[fid]) problems.push(`revealsFactIds references unknown fact "${fid}"`);
+    else if (introductionFactIds.includes(fid)) problems.push(`reveals introduction fact "${fid}"`);
+  }
+  for (const fid of doc.requiresAnyFact) {
+    if (!facts[fid]) problems.push(`requiresAnyFact references unknown fact "${fid}"`);
+    else if (doc.revealsFactIds.includes(fid)) problems.push(`is gated on "${fid}", which it reveals itself`);
+  }
+
+  const { paragraphs, errors } = parseSceneMarkup(doc.text);
+  problems.push(...errors.map((e) => `markup — ${e}`));
+  const passages = factPassages(paragraphs);
+  for (const fid of doc.revealsFactIds) {
+    if (!passages.has(fid)) problems.push(`markup — no <fact id="${fid}"> span marks revealed fact "${fid}"`);
+  }
+  for (const fid of passages.keys()) {
+    if (!doc.revealsFactIds.includes(fid)) problems.push(`markup — <fact id="${fid}"> marks a fact the document does not reveal`);
+  }
+
+  return problems;
+}
@@ -110,9 +110,11 @@ ${validationResult.errors.map((e) => `- ${e}`).join('\n')}`
   const { data: events } = await callModel(
     {
       stepName: 'generateEvents',
+      draftId,
       systemPrompt,
       userPrompt,
       modelConfig: input.modelConfig,
+      outputSchema: EventsSchema,
     },
     (raw) => EventsSchema.parse(raw),
   );
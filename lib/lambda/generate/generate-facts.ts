@@ -44,7 +44,7 @@ export const handler = async (state: OperationalState): Promise<OperationalState
 - A fact ID (your key for the output)
 - Subjects (characterIds and locationIds the fact is about)
 - Veracity ("true" or "false" — false facts are misinformation)
-- Source context (where the fact came from: an event reveal, a character's denial, a bridge connection, or a red herring)
+- Source context (where the fact came from: an event reveal, a character's denial, a bridge connection, a red herring, or an expert's analysis of evidence)
 
 Your job is to provide two things for each fact:
 
@@ -72,6 +72,8 @@ Your response must end with valid JSON: a Record<factId, { description, category
 - For **denial** facts: the false fact should be a plausible counter-narrative to the denied true fact. Look at the denied fact's context to craft a convincing lie.
 - For **bridge** facts: create a natural connection between the source and a subject (e.g. a relationship, a shared history, a rumor).
 - For **red herring** facts: create something interesting but ultimately irrelevant — a suspicious detail, an old grudge, a coincidence.
+- For **false lead** facts (red herrings tied to a false lead): write the motive, opportunity or alibi the lead describes, as a true fact consistent with the events. The motive and opportunity should make the suspect look guilty on their own; the alibi should clear them once the player sets it against the events, without saying so.
+- For **expert analysis** facts: write what the named specialist concludes on examining the evidence fact. It must be something new that the evidence alone does not state (where a substance came from, whose hand wrote a note, when a tide would have turned), drawn from the expert's specialty and consistent with the events. Like every fact, state the conclusion, not what it implies about the case.
 - Descriptions must not spoil the mystery or imply conclusions. State only the observable fact, not its significance or implications. The player should connect the dots themselves.
   - BAD: "The back gate was left unlocked, which would have allowed the killer to enter unseen" (spells out the implication)
   - GOOD: "The back gate was left unlocked that evening" (the player infers the rest)
@@ -122,9 +124,11 @@ ${validationResult.errors.map((e) => `- ${e}`).join('\n')}`
   const { data: aiOutput } = await callModel(
     {
       stepName: 'generateFacts',
+      draftId,
       systemPrompt,
       userPrompt,
       modelConfig: input.modelConfig,
+      outputSchema: GenerateFactsOutputSchema,
     },
     (raw) => GenerateFactsOutputSchema.parse(raw),
   );
@@ -196,7 +200,22 @@ function formatSkeletonForPrompt(
       break;
     }
     case 'red_herring': {
-      sourceContext = 'Red herring: an interesting but ultimately irrelevant detail that adds noise to the investigation.';
+      const { thread } = skeleton.source;
+      const lead = thread && draft.template?.falseLeads?.find((l) => l.leadId === thread.leadId);
+      if (!thread || !lead) {
+        sourceContext = 'Red herring: an interesting but ultimately irrelevant detail that adds noise to the investigation.';
+        break;
+      }
+      const suspect = characters?.[draft.roleMapping?.[lead.suspectRoleId] ?? '']?.name ?? lead.suspectRoleId;
+      sourceContext = thread.part === 'alibi'
+        ? `False lead "${lead.leadId}" (theory: ${lead.theory}) — the ALIBI that clears ${suspect}: ${lead.alibi}`
+        : `False lead "${lead.leadId}" (theory: ${lead.theory}) — ${suspect}'s ${thread.part.toUpperCase()}: ${thread.part === 'motive' ? lead.motive : lead.opportunity}`;
+      break;
+    }
+    case 'expert_analysis': {
+      const { expertId, evidenceFactId } = skeleton.source;
+      const expert = draft.template?.expertRoles?.find((e) => e.expertId === expertId);
+      sourceContext = `Expert analysis by the ${expert?.role ?? expertId}${expert ? ` (specialty: ${expert.specialty})` : ''} of the evidence fact "${evidenceFactId}". Write what the expert concludes from that evidence.`;
       break;
     }
   }
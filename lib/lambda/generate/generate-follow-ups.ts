@@ -0,0 +1,200 @@
+import { callModel } from '../shared/bedrock';
+import { getDraft, updateDraft } from '../shared/draft-db';
+import {
+  FollowUpsSchema,
+  canBeQuestioned,
+  type OperationalState,
+  type CasebookEntryDraft,
+  type CharacterDraft,
+  type FactDraft,
+  type FollowUpDraft,
+} from '../shared/generation-state';
+
+/**
+ * Pipeline Step 8c: Generate Follow-Ups (after ValidateCasebook)
+ *
+ * Authors confront-a-suspect follow-ups: at an entry, the player presents a
+ * discovered fact to a character there and unlocks extra prose and facts.
+ * Two phases, like GenerateCasebook:
+ *
+ * 1. **Programmatic candidates** — for each character present at an entry
+ *    who can be questioned (not deceased, missing or away), the facts they
+ *    hide or deny that the entry doesn't already reveal (what a
+ *    confrontation could draw out), and the true facts sharing a subject
+ *    with those that could serve as the evidence to present.
+ *
+ * 2. **AI authoring** — the AI picks which candidates make a good
+ *    confrontation, the evidence that breaks the character, which hidden
+ *    facts they give up, and writes the short marked-up scene.
+ *
+ * Follow-ups that stray outside the candidates are dropped. The result goes
+ * back through ValidateCasebook, whose reachability BFS counts a follow-up's
+ * facts once its entry and its evidence fact are both reachable. If
+ * validation fails, this step retries with the errors (up to 1 retry).
+ */
+export const handler = async (state: OperationalState): Promise<OperationalState> => {
+  const { input, draftId, validationResult } = state;
+  await updateDraft(draftId, {
+    currentStep: 'generateFollowUps',
+    lastStepStartedAt: new Date().toISOString(),
+  });
+  const draft = await getDraft(draftId);
+  const { template, characters, facts, casebook, introductionFactIds } = draft ?? {};
+
+  if (!template) throw new Error('GenerateFollowUps requires template from step 1');
+  if (!characters) throw new Error('GenerateFollowUps requires characters from step 3');
+  if (!facts) throw new Error('GenerateFollowUps requires facts from step 6');
+  if (!introductionFactIds) throw new Error('GenerateFollowUps requires introductionFactIds from step 7');
+  if (!casebook) throw new Error('GenerateFollowUps requires casebook from step 8');
+
+  // ── Phase 1: Programmatic candidates ─────────────────────────────
+  const candidates = findFollowUpCandidates(casebook, characters, facts, introductionFactIds);
+  if (candidates.length === 0) {
+    console.log('[generateFollowUps] No character hides or denies a fact an entry could draw out; no follow-ups');
+    await updateDraft(draftId, { followUps: {} });
+    return state;
+  }
+
+  // ── Phase 2: AI authoring ────────────────────────────────────────
+  const describeFact = (fid: string) => `${fid}: "${facts[fid].description}"`;
+
+  const systemPrompt = `You are a game designer writing confrontation scenes for a detective game. After visiting a casebook entry, the player may present a fact they have discovered to a character there. The right piece of evidence breaks the character's silence and reveals what they were keeping back.
+
+Your response must end with valid JSON: a Record<followUpId, FollowUp> where each FollowUp is:
+{
+  "entryId": string,           // a candidate's entryId, exactly
+  "characterId": string,       // that candidate's characterId, exactly
+  "presentFactId": string,     // ONE factId from that candidate's evidence list
+  "revealsFactIds": string[],  // factIds from that candidate's held-back list that this evidence draws out
+  "scene": string              // the confrontation, 80-200 words
+}
+
+Rules:
+- Use followUpIds like "followup_<character>_<evidence>" (lowercase, underscores).
+- At most one follow-up per candidate. Skip candidates where no evidence would plausibly move the character; aim for the most dramatic confrontations, not every candidate.
+- The evidence must actually contradict or expose what the character hides or denies. A character who DENIES should be caught in the lie; one who HIDES should be cornered into admitting it.
+- Only reveal held-back facts the chosen evidence bears on.
+- Write the scene in second person for the detective ("You lay the letter before her..."), with the character's dialogue in their own voice. Never state the significance of what is admitted.
+- Mark up the scene like the case's other scenes: wrap the passage revealing each fact in revealsFactIds in <fact id="FACT_ID">…</fact>, and character and place names in <character id="CHARACTER_ID">…</character> and <location id="LOCATION_ID">…</location>. Every tag must be closed; fact spans must not nest.
+- Keep each character's current status in mind: only characters who can be questioned appear as candidates.
+- Maintain the narrative tone (${template.narrativeTone}) and atmosphere (${template.atmosphere}).`;
+
+  const userPrompt = `Setting: ${template.era}
+Crime Type: ${template.crimeType}
+
+Candidates:
+
+${candidates.map((c) => {
+  const character = characters[c.characterId];
+  const entry = casebook[c.entryId];
+  return `### entryId "${c.entryId}" (${entry.label}) — characterId "${c.characterId}" (${character.name}, ${character.mysteryRole}, tone: ${character.tone.register})
+Held back (status in their knowledge):
+${c.heldBackFactIds.map((fid) => `  - ${describeFact(fid)} [${character.knowledgeState[fid]}]`).join('\n')}
+Possible evidence to present:
+${c.evidenceFactIds.map((fid) => `  - ${describeFact(fid)}`).join('\n')}`;
+}).join('\n\n')}
+
+Provide the JSON follow-ups.${
+  validationResult && !validationResult.valid
+    ? `
+
+## IMPORTANT — PREVIOUS ATTEMPT FAILED VALIDATION
+
+Your previous follow-ups failed validation. Fix these errors:
+
+${validationResult.errors.map((e) => `- ${e}`).join('\n')}`
+    : ''
+}`;
+
+  const { data } = await callModel(
+    {
+      stepName: 'generateFollowUps',
+      draftId,
+      systemPrompt,
+      userPrompt,
+      modelConfig: input.modelConfig,
+      outputSchema: FollowUpsSchema,
+    },
+    (raw) => FollowUpsSchema.parse(raw),
+  );
+
+  // ── Phase 3: Keep only follow-ups within the candidates ──────────
+  const followUps: Record<string, FollowUpDraft> = {};
+  const authored = new Set<string>();
+  for (const [followUpId, fu] of Object.entries(data)) {
+    const candidate = candidates.find((c) => c.entryId === fu.entryId && c.characterId === fu.characterId);
+    const revealsFactIds = [...new Set(fu.revealsFactIds)].filter((fid) => candidate?.heldBackFactIds.includes(fid));
+    const key = `${fu.entryId}/${fu.characterId}`;
+    if (!candidate || !candidate.evidenceFactIds.includes(fu.presentFactId) || revealsFactIds.length === 0 || authored.has(key)) {
+      console.warn(`[generateFollowUps] Dropped follow-up "${followUpId}": not within the candidates for ${key}`);
+      continue;
+    }
+    authored.add(key);
+    followUps[followUpId] = {
+      followUpId,
+      entryId: fu.entryId,
+      characterId: fu.characterId,
+      presentFactId: fu.presentFactId,
+      revealsFactIds,
+      scene: fu.scene,
+    };
+  }
+
+  await updateDraft(draftId, { followUps });
+  return state;
+};
+
+// ============================================
+// Candidates
+// ============================================
+
+interface FollowUpCandidate {
+  entryId: string;
+  characterId: string;
+  /** Facts the character hides or denies that the entry doesn't reveal. */
+  heldBackFactIds: string[];
+  /** True facts sharing a subject with a held-back fact, other than those the character keeps back. */
+  evidenceFactIds: string[];
+}
+
+/** Knowledge statuses whose facts a confrontation can draw out. */
+const HELD_BACK_STATUSES = new Set(['hides', 'denies']);
+
+function findFollowUpCandidates(
+  casebook: Record<string, CasebookEntryDraft>,
+  characters: Record<string, CharacterDraft>,
+  facts: Record<string, FactDraft>,
+  introductionFactIds: string[],
+): FollowUpCandidate[] {
+  const candidates: FollowUpCandidate[] = [];
+
+  for (const entry of Object.values(casebook)) {
+    for (const characterId of entry.characterIds) {
+      const character = characters[characterId];
+      // Only characters who can be questioned can be confronted
+      if (!character || !canBeQuestioned(character)) continue;
+
+      const keptBack = Object.entries(character.knowledgeState)
+        .filter(([fid, status]) => HELD_BACK_STATUSES.has(status) && facts[fid])
+        .map(([fid]) => fid);
+      // Introduction facts are already known; revealing them again unlocks nothing
+      const heldBackFactIds = keptBack.filter(
+        (fid) => !entry.revealsFactIds.includes(fid) && !introductionFactIds.includes(fid),
+      );
+      if (heldBackFactIds.length === 0) continue;
+
+      const heldBackSubjects = new Set(heldBackFactIds.flatMap((fid) => facts[fid].subjects));
+      const evidenceFactIds = Object.values(facts)
+        .filter((f) =>
+          f.veracity === 'true' &&
+          !keptBack.includes(f.factId) &&
+          f.subjects.some((s) => heldBackSubjects.has(s)))
+        .map((f) => f.factId);
+      if (evidenceFactIds.length === 0) continue;
+
+      candidates.push({ entryId: entry.entryId, characterId, heldBackFactIds, evidenceFactIds });
+    }
+  }
+
+  return candidates;
+}
@@ -34,7 +34,7 @@ export const handler = async (state: OperationalState): Promise<OperationalState
     lastStepStartedAt: new Date().toISOString(),
   });
   const draft = await getDraft(draftId);
-  const { template, events, characters, locations, facts, factGraph } = draft ?? {};
+  const { template, events, characters, locations, facts, factGraph, factSkeletons } = draft ?? {};
 
   if (!template) throw new Error('GenerateIntroduction requires template from step 1');
   if (!events) throw new Error('GenerateIntroduction requires events from step 2');
@@ -43,8 +43,12 @@ export const handler = async (state: OperationalState): Promise<OperationalState
   if (!facts) throw new Error('GenerateIntroduction requires facts from step 6');
   if (!factGraph) throw new Error('GenerateIntroduction requires factGraph from ComputeFacts');
 
+  // Expert analyses are earned by consulting the expert; they can't open the case
+  const expertFactIds = new Set(
+    (factSkeletons ?? []).filter((s) => s.source.type === 'expert_analysis').map((s) => s.factId),
+  );
   const allFacts = Object.values(facts);
-  const trueFacts = allFacts.filter((f) => f.veracity === 'true');
+  const trueFacts = allFacts.filter((f) => f.veracity === 'true' && !expertFactIds.has(f.factId));
 
   const storyTimeline = Object.values(events)
     .sort((a, b) => a.timestamp - b.timestamp)
@@ -131,9 +135,11 @@ Select 2-4 introduction facts, write the opening scene, and finalize the title.
   const { data: result } = await callModel(
     {
       stepName: 'generateIntroduction',
+      draftId,
       systemPrompt,
       userPrompt,
       modelConfig: input.modelConfig,
+      outputSchema: GenerateIntroductionOutputSchema,
     },
     (raw) => {
       const parsed = GenerateIntroductionOutputSchema.parse(raw);
@@ -147,6 +153,9 @@ Select 2-4 introduction facts, write the opening scene, and finalize the title.
         if (facts[fid].veracity !== 'true') {
           throw new Error(`Introduction factId "${fid}" has veracity "${facts[fid].veracity}" — only true facts allowed`);
         }
+        if (expertFactIds.has(fid)) {
+          throw new Error(`Introduction factId "${fid}" is an expert's analysis — it must be earned by consulting the expert`);
+        }
       }
 
       return parsed;
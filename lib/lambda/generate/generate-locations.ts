@@ -107,9 +107,11 @@ ${validationResult.errors.map((e) => `- ${e}`).join('\n')}`
   const { data: locations } = await callModel(
     {
       stepName: 'generateLocations',
+      draftId,
       systemPrompt,
       userPrompt,
       modelConfig: input.modelConfig,
+      outputSchema: LocationsSchema,
     },
     (raw) => LocationsSchema.parse(raw),
   );
@@ -1,12 +1,19 @@
-import { callModel } from '../shared/bedrock';
-import { getDraft, updateDraft } from '../shared/draft-db';
+import { callModel, type CallModelProgress } from '../shared/bedrock';
+import { getDraft, updateDraft, updateStepProgress } from '../shared/draft-db';
+import { mapWithConcurrency } from '../shared/concurrency';
 import {
+  ContinuityBriefSchema,
   SceneBatchSchema,
   type OperationalState,
   type CasebookEntryDraft,
   type CharacterDraft,
+  type ContinuityBrief,
+  type ExpertRole,
   type FactDraft,
+  type FollowUpDraft,
+  type GenerateCaseInput,
   type LocationDraft,
+  type ProseValidationResult,
 } from '../shared/generation-state';
 
 /**
@@ -15,21 +22,41 @@ import {
  * Generates prose scenes for ALL casebook entries in a single LLM call
  * to ensure cross-scene coherence.
  *
+ * Large casebooks can exceed the output limit (or drop facts) in one call, so
+ * with input.proseBatchSize set the step instead writes a short continuity
+ * brief (character voices, timeline, shared details) and then the scenes in
+ * parallel batches that all work from it. Either way the merged scenes are
+ * checked for missing entries, which are re-asked for once.
+ *
+ * Scenes carry inline markup (see scene-markup): each fact's revealing
+ * passage is wrapped in a <fact> span, and character/location names in
+ * mention tags, so the player UI can highlight them and ValidateProse can
+ * check coverage mechanically.
+ *
+ * When ValidateProse fails, the retry rewrites only the scenes with uncovered
+ * facts or bad markup (keeping the rest and any continuity brief), told what
+ * to fix. That includes confrontation scenes from GenerateFollowUps, which
+ * are rewritten in one extra call and saved back to the follow-ups.
+ *
  * The introduction and title are already written by GenerateIntroduction
  * (step 7) — this step only produces casebook scenes.
  *
  * Each scene uses present characters' knowledge states (knows, suspects,
  * hides, denies, believes) and fact veracity so false facts are presented
  * as believed by characters who hold them.
+ *
+ * The call is streamed: bytes received and scenes completed so far are
+ * written to the draft's stepProgress every few seconds so the generation
+ * page can show the step advancing.
  */
 export const handler = async (state: OperationalState): Promise<OperationalState> => {
-  const { input, draftId } = state;
+  const { input, draftId, validationResult } = state;
   await updateDraft(draftId, {
     currentStep: 'generateProse',
     lastStepStartedAt: new Date().toISOString(),
   });
   const draft = await getDraft(draftId);
-  const { template, events, characters, locations, facts, casebook, introduction, title } = draft ?? {};
+  const { template, events, characters, locations, facts, casebook, followUps, introduction, title, prose: previousProse } = draft ?? {};
 
   if (!template) throw new Error('GenerateProse requires template from step 1');
   if (!events) throw new Error('GenerateProse requires events from step 2');
@@ -42,6 +69,14 @@ export const handler = async (state: OperationalState): Promise<OperationalState
 
   const entries = Object.values(casebook);
 
+  // Retry after ValidateProse: rewrite only the scenes with uncovered facts or bad markup
+  const proseFixes = validationResult && !validationResult.valid && 'uncoveredFacts' in validationResult && previousProse
+    ? validationResult
+    : undefined;
+  const toWrite = proseFixes
+    ? entries.filter((e) => proseFixes.uncoveredFacts[e.entryId] || proseFixes.markupErrors[e.entryId])
+    : entries;
+
   const storyTimeline = Object.values(events)
     .sort((a, b) => a.timestamp - b.timestamp)
     .map((e) => `  ${e.timestamp}. ${e.description}`)
@@ -51,12 +86,13 @@ export const handler = async (state: OperationalState): Promise<OperationalState
 - Scene length should scale with the number of facts to reveal. Aim for roughly 40-50 words per fact, with a minimum of 150 words and a maximum of 800 words. A 3-fact entry needs ~150 words; a 12-fact entry needs ~500-600 words. Every fact must be covered.
 - The player is the detective visiting this location/person. Write in second person ("You arrive at...") where describing the scene, third person for dialogue.
 
-## Entry Types — CHARACTER vs LOCATION
+## Entry Types — CHARACTER, LOCATION, EXPERT
 
-There are two kinds of entries, and they require different scene styles:
+There are three kinds of entries, and they require different scene styles:
 
 - For CHARACTER entries (entryId starts with "entry_char_"): the scene is an interview. The detective speaks with the character, who reveals (or conceals) facts through dialogue. Focus on conversation, body language, and what the character says or avoids saying.
 - For LOCATION entries (entryId starts with "entry_loc_"): the scene is a pure physical investigation. The detective investigates alone — no characters are present. Describe what the detective sees, hears, and finds. Mention spatial connections naturally — what can be seen from here, what sounds carry from nearby, what paths lead where. Facts are discovered through evidence, documents, environmental details, and observation — never through dialogue.
+- For EXPERT entries (entryId starts with "entry_expert_"): the scene is a consultation. The detective brings the listed evidence to the specialist named in the entry label, at their own premises, and the specialist examines it and explains what it shows. The specialist is not part of the story and knows nothing of the case beyond what the evidence tells them. Their conclusions are the facts to reveal; show the expertise at work rather than just stating results.
 
 ## Character Knowledge and Fact Revelation
 
@@ -82,24 +118,18 @@ There are two kinds of entries, and they require different scene styles:
 
 - After writing each scene, verify that every fact in the entry's "Facts to reveal" list is described or referenced in the prose. If any are missing, revise the scene to include them. The player discovers facts by reading — if a fact is not in the prose, the player cannot learn it.
 
-Mystery Style Prose Constraints (CRITICAL — the mystery style is "${template.mysteryStyle}"):
-${getMysteryStyleProseConstraints(template.mysteryStyle)}`;
-
-  const entryContexts = entries.map((entry) =>
-    buildEntryContext(entry, locations, characters, facts),
-  );
-
-  const scenesSystemPrompt = `You are a mystery writer crafting prose scenes for a detective game. Each scene is what the player reads when they visit a casebook entry.
-
-You are writing ALL scenes for this case in a single pass. Ensure consistency across scenes: if two characters describe the same event, their accounts should align (or deliberately conflict if one is lying/denying). Recurring details (weather, time of day, physical descriptions) must be consistent.
-
-Your response must end with valid JSON: a Record<string, string> mapping entryId to prose scene text.
+## Markup (REQUIRED)
 
-${sceneGuidelines}`;
+Scenes are marked up inline so the game can link the text to the case's records:
+- Wrap the passage that reveals each fact in <fact id="FACT_ID">…</fact>, using the factIds from the entry's "Facts to reveal" list. Every listed fact needs a span. Mark the clause or sentence that conveys the fact, not the whole paragraph. Never mark facts from other entries.
+- Wrap character names in <character id="CHARACTER_ID">…</character> and place names in <location id="LOCATION_ID">…</location>, using the ids from the cast and places lists. Mark names, not pronouns.
+- A name may be marked inside a fact span. Fact spans must not nest or overlap, names must not nest, and every tag must be closed. Use no other tags.
+- Example: <fact id="fact_torn_letter">In the grate lies a half-burnt letter signed by <character id="char_edmund">Edmund</character>.</fact>
 
-  const scenesUserPrompt = `Here is the case context:
+Mystery Style Prose Constraints (CRITICAL — the mystery style is "${template.mysteryStyle}"):
+${getMysteryStyleProseConstraints(template.mysteryStyle)}`;
 
-Title: ${title}
+  const caseContext = `Title: ${title}
 Setting: ${template.era}, ${template.date}
 Crime Type: ${template.crimeType}
 Mystery Style: ${template.mysteryStyle}
@@ -111,29 +141,382 @@ ${introduction}
 The story (chronological events):
 ${storyTimeline}
 
-Write scenes for all ${entries.length} casebook entries:
+Cast (ids for <character> markup):
+${Object.values(characters).map((c) => `  ${c.characterId} — ${c.name}`).join('\n')}
+
+Places (ids for <location> markup):
+${Object.values(locations).map((l) => `  ${l.locationId} — ${l.name}`).join('\n')}`;
+
+  const sceneContext: SceneContext = {
+    draftId,
+    input,
+    caseContext,
+    sceneGuidelines,
+    totalEntries: entries.length,
+    locations,
+    characters,
+    facts,
+    followUps: Object.values(followUps ?? {}),
+    expertRoles: template.expertRoles ?? [],
+    proseFixes,
+    reportProgress: createProgressReporter(draftId, toWrite.map((e) => e.entryId)),
+  };
+
+  const batchSize = input.proseBatchSize && input.proseBatchSize < toWrite.length
+    ? input.proseBatchSize
+    : toWrite.length;
+  let proseBrief = proseFixes ? draft?.proseBrief : undefined;
+  if (!proseBrief && batchSize < toWrite.length) {
+    proseBrief = await generateContinuityBrief(sceneContext);
+  }
+  if (proseBrief) sceneContext.brief = formatBrief(proseBrief, characters);
+
+  const batches: CasebookEntryDraft[][] = [];
+  for (let i = 0; i < toWrite.length; i += batchSize) {
+    batches.push(toWrite.slice(i, i + batchSize));
+  }
+  const results = await mapWithConcurrency(batches, PROSE_CONCURRENCY, (batch, i) =>
+    writeScenes(
+      sceneContext,
+      batch,
+      batches.length > 1 ? `batch ${i + 1}/${batches.length}` : proseFixes ? 'coverage fixes' : undefined,
+    ),
+  );
+  const scenes: Record<string, string> = Object.assign({ ...(proseFixes ? previousProse : {}) }, ...results);
+
+  // Merge check: every entry needs a scene. Re-ask once for any the model skipped.
+  let missing = entries.filter((e) => !scenes[e.entryId]);
+  if (missing.length > 0) {
+    console.warn(`[generateProse] ${missing.length} scenes missing: ${missing.map((e) => e.entryId).join(', ')}. Re-asking.`);
+    Object.assign(scenes, await writeScenes(sceneContext, missing, 'missing scenes'));
+    missing = entries.filter((e) => !scenes[e.entryId]);
+  }
+  if (missing.length > 0) {
+    throw new Error(`GenerateProse: no scene for entries ${missing.map((e) => e.entryId).join(', ')} after re-asking`);
+  }
+
+  // Casebook order; scenes keyed by an entryId the casebook doesn't have are dropped
+  const prose = Object.fromEntries(entries.map((e) => [e.entryId, scenes[e.entryId]]));
+  const unknown = Object.keys(scenes).filter((id) => !(id in prose));
+  if (unknown.length > 0) {
+    console.warn(`[generateProse] Dropped scenes for unknown entries: ${unknown.join(', ')}`);
+  }
+
+  // Confrontation scenes that failed ValidateProse
+  const followUpsToFix = proseFixes
+    ? Object.values(followUps ?? {}).filter((fu) => sceneProblems(sceneContext, fu.followUpId).length > 0)
+    : [];
+  const fixedFollowUps = followUpsToFix.length > 0
+    ? await rewriteFollowUpScenes(sceneContext, followUpsToFix, casebook)
+    : undefined;
+
+  // Clearing goes through the progress queue, so no late progress write can
+  // land after (and overwrite) the prose below.
+  await updateStepProgress(draftId, undefined);
+  await updateDraft(draftId, { prose, proseBrief, ...(fixedFollowUps ? { followUps: fixedFollowUps } : {}) });
+  return state;
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+/** Minimum gap between progress writes while the prose streams in. */
+const PROGRESS_INTERVAL_MS = 5000;
+
+/** Batched mode: how many scene calls run at once. */
+const PROSE_CONCURRENCY = 4;
+
+/** Everything a scene-writing call needs besides its entries. */
+interface SceneContext {
+  draftId: string;
+  input: GenerateCaseInput;
+  /** Title, setting, introduction, story timeline, and the cast/place ids used in markup. */
+  caseContext: string;
+  sceneGuidelines: string;
+  totalEntries: number;
+  locations: Record<string, LocationDraft>;
+  characters: Record<string, CharacterDraft>;
+  facts: Record<string, FactDraft>;
+  /** Confrontations written by GenerateFollowUps; their facts stay hidden in the main scenes. */
+  followUps: FollowUpDraft[];
+  /** Specialists behind the expert entries. */
+  expertRoles: ExpertRole[];
+  /** Formatted continuity brief; set in batched mode. */
+  brief?: string;
+  /** On a ValidateProse retry: the failed result, naming each scene's uncovered facts and markup errors. */
+  proseFixes?: ProseValidationResult;
+  reportProgress: (callLabel: string) => (progress: CallModelProgress) => void;
+}
+
+/**
+ * Write scenes for `batch`. Without a brief this is the single-call prompt
+ * covering every entry; with one, the prompt tells the model other writers
+ * are covering the remaining entries from the same brief.
+ */
+async function writeScenes(
+  ctx: SceneContext,
+  batch: CasebookEntryDraft[],
+  label?: string,
+): Promise<Record<string, string>> {
+  const entryContexts = batch.map((entry) =>
+    buildEntryContext(entry, ctx.locations, ctx.characters, ctx.facts, ctx.followUps, ctx.expertRoles),
+  );
+
+  const consistency = ctx.brief
+    ? `Other writers are writing (or have written) the case's remaining scenes, from the same continuity brief. Follow the brief exactly so your scenes agree with theirs: character voices, the timeline, and shared details (weather, time of day, physical descriptions) must match it. If two characters describe the same event, their accounts should align (or deliberately conflict if one is lying/denying).`
+    : batch.length === ctx.totalEntries
+      ? `You are writing ALL scenes for this case in a single pass. Ensure consistency across scenes: if two characters describe the same event, their accounts should align (or deliberately conflict if one is lying/denying). Recurring details (weather, time of day, physical descriptions) must be consistent.`
+      : `The case's other scenes are already written. Keep these consistent with the case context: accounts of the same event should align (or deliberately conflict if a character is lying/denying), and recurring details (weather, time of day, physical descriptions) must not contradict the introduction or the story.`;
+
+  const systemPrompt = `You are a mystery writer crafting prose scenes for a detective game. Each scene is what the player reads when they visit a casebook entry.
+
+${consistency}
+
+Your response must end with valid JSON: a Record<string, string> mapping entryId to marked-up prose scene text.
+
+${ctx.sceneGuidelines}`;
+
+  const scope = batch.length === ctx.totalEntries
+    ? `all ${batch.length} casebook entries`
+    : `${batch.length === 1 ? 'this one' : `these ${batch.length}`} of the case's ${ctx.totalEntries} casebook entries`;
+
+  const coverageFixes = batch.flatMap((entry) => {
+    const problems = sceneProblems(ctx, entry.entryId);
+    return problems.length > 0 ? [`- ${entry.entryId}: ${problems.join('; ')}`] : [];
+  });
+
+  const userPrompt = `Here is the case context:
+
+${ctx.caseContext}
+${ctx.brief ? `\nContinuity brief (shared with the writers of the other scenes):\n${ctx.brief}\n` : ''}
+Write scenes for ${scope}:
 
 ${entryContexts.join('\n\n')}
 
-Provide the JSON mapping entryId -> scene text.`;
+Provide the JSON mapping entryId -> scene text.${
+    coverageFixes.length > 0
+      ? `
+
+## IMPORTANT — PREVIOUS ATTEMPT FAILED VALIDATION
+
+The previous scenes for these entries did not convey some of their facts, or had broken markup. Rewrite each scene so the player can clearly learn every listed fact, along with all the entry's other facts, each in its own correctly closed <fact> span:
 
-  const { data: scenes } = await callModel(
+${coverageFixes.join('\n')}`
+      : ''
+  }`;
+
+  const { data } = await callModel(
     {
       stepName: 'generateProse',
-      systemPrompt: scenesSystemPrompt,
-      userPrompt: scenesUserPrompt,
-      modelConfig: input.modelConfig,
+      draftId: ctx.draftId,
+      label,
+      systemPrompt,
+      userPrompt,
+      modelConfig: ctx.input.modelConfig,
+      outputSchema: SceneBatchSchema,
+      onProgress: ctx.reportProgress(label ?? 'scenes'),
     },
     (raw) => SceneBatchSchema.parse(raw),
   );
+  return data;
+}
 
-  await updateDraft(draftId, { prose: scenes });
-  return state;
-};
+/** On a ValidateProse retry: what was wrong with a scene (entryId or followUpId), or nothing. */
+function sceneProblems(ctx: SceneContext, sceneId: string): string[] {
+  const missing = ctx.proseFixes?.uncoveredFacts[sceneId] ?? [];
+  const markup = ctx.proseFixes?.markupErrors[sceneId] ?? [];
+  return [
+    ...(missing.length > 0
+      ? [`missing ${missing.map((fid) => `${fid} ("${ctx.facts[fid]?.description ?? fid}")`).join(', ')}`]
+      : []),
+    ...markup.map((problem) => `markup: ${problem}`),
+  ];
+}
 
-// ============================================
-// Helpers
-// ============================================
+/**
+ * On a ValidateProse retry: rewrite the confrontation scenes that failed, in
+ * one call. Returns every follow-up, with the rewritten scenes swapped in.
+ */
+async function rewriteFollowUpScenes(
+  ctx: SceneContext,
+  toFix: FollowUpDraft[],
+  casebook: Record<string, CasebookEntryDraft>,
+): Promise<Record<string, FollowUpDraft>> {
+  const describeFact = (fid: string) => `${fid}: "${ctx.facts[fid]?.description ?? fid}"`;
+
+  const systemPrompt = `You are a mystery writer fixing confrontation scenes for a detective game. In each, the detective presents a piece of evidence to a character at a casebook entry, and it breaks their silence.
+
+Your response must end with valid JSON: a Record<string, string> mapping followUpId to the rewritten, marked-up scene.
+
+Rules:
+- Keep the confrontation as it is: the same character, place and evidence. Fix only what is listed as wrong.
+- The player must be able to learn every fact the scene reveals from the text. Wrap the passage revealing each one in <fact id="FACT_ID">…</fact>, and only those facts.
+- Wrap character and place names in <character id="CHARACTER_ID">…</character> and <location id="LOCATION_ID">…</location>. Every tag must be closed; fact spans must not nest or overlap.
+- Write in second person for the detective, with the character's dialogue in their own voice, 80-200 words. Never state the significance of what is admitted.
+- Avoid common AI writing tells like em-dashes, asterisks, or excessive line breaks.`;
+
+  const userPrompt = `Here is the case context:
+
+${ctx.caseContext}
+${ctx.brief ? `\nContinuity brief:\n${ctx.brief}\n` : ''}
+Rewrite these ${toFix.length} confrontation scenes:
+
+${toFix.map((fu) => {
+  const character = ctx.characters[fu.characterId];
+  return `### followUpId "${fu.followUpId}" — ${character?.name ?? fu.characterId} at ${casebook[fu.entryId]?.label ?? fu.entryId}${character ? ` (tone: ${character.tone.register})` : ''}
+Evidence presented: ${describeFact(fu.presentFactId)}
+Facts to reveal:
+${fu.revealsFactIds.map((fid) => `  - ${describeFact(fid)}`).join('\n')}
+What was wrong: ${sceneProblems(ctx, fu.followUpId).join('; ')}
+Previous scene:
+${fu.scene}`;
+}).join('\n\n')}
+
+Provide the JSON mapping followUpId -> scene text.`;
+
+  const { data } = await callModel(
+    {
+      stepName: 'generateProse',
+      draftId: ctx.draftId,
+      label: 'follow-up fixes',
+      systemPrompt,
+      userPrompt,
+      modelConfig: ctx.input.modelConfig,
+      outputSchema: SceneBatchSchema,
+    },
+    (raw) => SceneBatchSchema.parse(raw),
+  );
+
+  const followUps = Object.fromEntries(ctx.followUps.map((fu) => [fu.followUpId, fu]));
+  for (const fu of toFix) {
+    if (data[fu.followUpId]) {
+      followUps[fu.followUpId] = { ...fu, scene: data[fu.followUpId] };
+    } else {
+      console.warn(`[generateProse] No rewrite for follow-up "${fu.followUpId}"; keeping its scene`);
+    }
+  }
+  return followUps;
+}
+
+/** Batched mode: one call for the continuity brief every batch is written from. */
+async function generateContinuityBrief(ctx: SceneContext): Promise<ContinuityBrief> {
+  const systemPrompt = `You are the lead writer for a detective game. Several writers will now write this case's casebook scenes in parallel, each seeing only their own entries. Write the continuity brief they will all share, so their scenes agree with each other.
+
+Keep it short and concrete: a reference sheet, not prose.
+- characterVoices: for every character, keyed by characterId, one or two sentences on how they speak and carry themselves and what they are guarded about.
+- timeline: the events the scenes may refer to, in order, each with the time or date the characters would give for it.
+- sharedDetails: details that must read the same in every scene that mentions them: weather, light, when the investigation takes place, the appearance of people and key objects, names of places.
+
+Your response must end with valid JSON: {"characterVoices": Record<characterId, string>, "timeline": string[], "sharedDetails": string[]}.`;
+
+  const characterLines = Object.values(ctx.characters)
+    .map((c) => `  ${c.characterId} — ${c.name} (${c.mysteryRole}, ${c.societalRole}${c.currentStatus ? `, ${c.currentStatus}` : ''}): ${c.description} Tone: ${c.tone.register}; vocab: [${c.tone.vocabulary.join(', ')}]${c.tone.quirk ? `; quirk: ${c.tone.quirk}` : ''}`)
+    .join('\n');
+  const locationLines = Object.values(ctx.locations)
+    .map((l) => `  ${l.locationId} — ${l.name}: ${l.description}`)
+    .join('\n');
+
+  const userPrompt = `Here is the case context:
+
+${ctx.caseContext}
+
+Characters:
+${characterLines}
+
+Locations:
+${locationLines}
+
+Provide the continuity brief JSON.`;
+
+  const { data } = await callModel(
+    {
+      stepName: 'generateProse',
+      draftId: ctx.draftId,
+      label: 'brief',
+      systemPrompt,
+      userPrompt,
+      modelConfig: ctx.input.modelConfig,
+      outputSchema: ContinuityBriefSchema,
+      onProgress: ctx.reportProgress('brief'),
+    },
+    (raw) => ContinuityBriefSchema.parse(raw),
+  );
+  return data;
+}
+
+function formatBrief(brief: ContinuityBrief, characters: Record<string, CharacterDraft>): string {
+  const voices = Object.entries(brief.characterVoices)
+    .map(([id, voice]) => `- ${characters[id]?.name ?? id} (${id}): ${voice}`);
+  return [
+    'Character voices:',
+    ...voices,
+    'Timeline:',
+    ...brief.timeline.map((t) => `- ${t}`),
+    'Shared details:',
+    ...brief.sharedDetails.map((d) => `- ${d}`),
+  ].join('\n');
+}
+
+/**
+ * Progress callback factory: each streaming call reports under its own label,
+ * and the draft gets the totals across calls, written at most every
+ * PROGRESS_INTERVAL_MS.
+ */
+function createProgressReporter(
+  draftId: string,
+  entryIds: string[],
+): (callLabel: string) => (progress: CallModelProgress) => void {
+  const byCall = new Map<string, { reasoningBytes: number; textBytes: number; itemsCompleted: number }>();
+  let lastProgressAt = 0;
+
+  return (callLabel) => (progress) => {
+    byCall.set(callLabel, {
+      reasoningBytes: progress.reasoningBytes,
+      textBytes: progress.textBytes,
+      itemsCompleted: countCompletedScenes(progress.text, entryIds),
+    });
+
+    const now = Date.now();
+    if (now - lastProgressAt < PROGRESS_INTERVAL_MS) return;
+    lastProgressAt = now;
+
+    const totals = [...byCall.values()];
+    updateStepProgress(draftId, {
+      step: 'generateProse',
+      reasoningBytes: totals.reduce((sum, t) => sum + t.reasoningBytes, 0),
+      textBytes: totals.reduce((sum, t) => sum + t.textBytes, 0),
+      itemsCompleted: Math.min(totals.reduce((sum, t) => sum + t.itemsCompleted, 0), entryIds.length),
+      itemsTotal: entryIds.length,
+      itemLabel: 'scenes',
+      updatedAt: new Date(now).toISOString(),
+    }).catch((err) => console.warn('Failed to write prose progress:', err));
+  };
+}
+
+/**
+ * Count scenes whose text has fully arrived in a partial JSON response: an
+ * entry counts once its `"entryId": "..."` string value has a closing quote.
+ */
+function countCompletedScenes(partialText: string, entryIds: string[]): number {
+  const valueStart = /\s*:\s*"/y;
+  let completed = 0;
+  for (const entryId of entryIds) {
+    const keyAt = partialText.indexOf(`"${entryId}"`);
+    if (keyAt === -1) continue;
+    valueStart.lastIndex = keyAt + entryId.length + 2;
+    if (!valueStart.test(partialText)) continue;
+    for (let i = valueStart.lastIndex; i < partialText.length; i++) {
+      if (partialText[i] === '\\') {
+        i++;
+      } else if (partialText[i] === '"') {
+        completed++;
+        break;
+      }
+    }
+  }
+  return completed;
+}
 
 /**
  * Returns prose constraints specific to each mystery style. Ensures scenes
@@ -183,8 +566,12 @@ function buildEntryContext(
   locations: Record<string, LocationDraft>,
   characters: Record<string, CharacterDraft>,
   facts: Record<string, FactDraft>,
+  followUps: FollowUpDraft[],
+  expertRoles: ExpertRole[],
 ): string {
   const location = locations[entry.locationId];
+  const expert = expertRoles.find((e) => entry.entryId === `entry_${e.expertId}`);
+  const entryFollowUps = followUps.filter((fu) => fu.entryId === entry.entryId);
   const presentChars = entry.characterIds
     .map((cid) => characters[cid])
     .filter(Boolean);
@@ -193,14 +580,18 @@ function buildEntryContext(
     .filter(Boolean);
 
   const isCharEntry = entry.entryId.startsWith('entry_char_');
-  const entryType = isCharEntry ? 'CHARACTER (interview)' : 'LOCATION (physical investigation)';
-
-  return `Entry "${entry.entryId}" [${entryType}] (${entry.label}, ${entry.address}):
-  Location: ${entry.locationId} — ${location.name} — ${location?.description ?? ''}
+  const entryType = expert
+    ? 'EXPERT (consultation)'
+    : isCharEntry ? 'CHARACTER (interview)' : 'LOCATION (physical investigation)';
+
+  return `Entry "${entry.entryId}" [${entryType}] (${entry.label}, ${entry.address}):${expert ? `
+  Expert: ${expert.role} — specialty: ${expert.specialty}
+  Evidence brought to them: ${entry.requiresAnyFact.map((fid) => `${fid}: "${facts[fid]?.description ?? fid}"`).join('; ')}` : ''}
+  Location: ${entry.locationId} — ${location.name} — ${location?.description ?? ''}${expert ? ' (where the evidence was found; the consultation is at the address above)' : ''}
   Accessible from: ${location?.accessibleFrom.map((id) => `${id} — ${locations[id]?.name ?? id}`).join(', ') ?? ''}
   Visible from: ${location?.visibleFrom.map((id) => `${id} — ${locations[id]?.name ?? id}`).join(', ') ?? ''}
   Audible from: ${location?.audibleFrom.map((id) => `${id} — ${locations[id]?.name ?? id}`).join(', ') ?? ''}
-  Characters present: ${presentChars.map((c) => `${c.name} (${c.mysteryRole}, ${c.societalRole}, tone: ${c.tone.register}, vocab: [${c.tone.vocabulary.join(', ')}]${c.tone.quirk ? `, quirk: ${c.tone.quirk}` : ''})`).join('; ') || 'none'}
+  Characters present: ${presentChars.map((c) => `${c.characterId} — ${c.name} (${c.mysteryRole}, ${c.societalRole}, tone: ${c.tone.register}, vocab: [${c.tone.vocabulary.join(', ')}]${c.tone.quirk ? `, quirk: ${c.tone.quirk}` : ''})`).join('; ') || 'none'}
   Facts to reveal (${revealedFacts.length}): ${revealedFacts.map((f) => `${f.factId}: "${f.description}" (veracity: ${f.veracity})`).join('; ')}
   Character knowledge at this entry:
 ${presentChars.map((c) => {
@@ -208,5 +599,7 @@ ${presentChars.map((c) => {
     .filter((fid) => c.knowledgeState[fid])
     .map((fid) => `${fid}: ${c.knowledgeState[fid]}`);
   return `    ${c.name}: knowledge [${relevantKnowledge.join(', ')}], motivations [${c.motivations.join('; ')}]`;
-}).join('\n')}`;
+}).join('\n')}${entryFollowUps.length > 0 ? `
+  Held back for a later confrontation (do NOT reveal these here; let the character deflect or deny):
+${entryFollowUps.map((fu) => `    ${characters[fu.characterId]?.name ?? fu.characterId}: ${fu.revealsFactIds.map((fid) => `${fid} ("${facts[fid]?.description ?? fid}")`).join('; ')}`).join('\n')}` : ''}`;
 }
@@ -1,5 +1,6 @@
 import { callModel } from '../shared/bedrock';
 import { getDraft, updateDraft } from '../shared/draft-db';
+import { eventTimesOf } from '../shared/discovery';
 import {
   QuestionsSchema,
   type OperationalState,
@@ -12,6 +13,9 @@ import {
  * to connect facts discovered across multiple casebook entries.
  * Answer types: person (characterIds), location (locationIds), fact (factIds + factCategory).
  * False facts (veracity: "false") are excluded from acceptable answers.
+ * Answer kinds: single (default), multi (all that apply), ordered (a
+ * sequence), compound (labelled parts, e.g. person + fact) and timeline
+ * (timeline facts put in event order), the last four with partial credit. Each accepted answer also gets aliases for free-text mode.
  */
 export const handler = async (state: OperationalState): Promise<OperationalState> => {
   const { input, draftId } = state;
@@ -20,7 +24,7 @@ export const handler = async (state: OperationalState): Promise<OperationalState
     lastStepStartedAt: new Date().toISOString(),
   });
   const draft = await getDraft(draftId);
-  const { template, events, characters, facts, casebook, locations } = draft ?? {};
+  const { template, events, characters, facts, casebook, locations, factSkeletons, followUps, documents } = draft ?? {};
 
   if (!template) throw new Error('GenerateQuestions requires template from step 1');
   if (!events) throw new Error('GenerateQuestions requires events from step 2');
@@ -30,6 +34,15 @@ export const handler = async (state: OperationalState): Promise<OperationalState
 
   const difficulty = template.difficulty;
 
+  // Timeline facts with a time: candidates for a "timeline" question
+  const trueTimelineFactIds = Object.values(facts)
+    .filter((f) => f.category === 'timeline' && f.veracity !== 'false')
+    .map((f) => f.factId);
+  const eventTimes = eventTimesOf(trueTimelineFactIds, factSkeletons ?? [], events);
+  const orderableFactIds = trueTimelineFactIds
+    .filter((fid) => eventTimes[fid] != null)
+    .sort((a, b) => eventTimes[a] - eventTimes[b]);
+
   const factCategories = [
     'motive', 'means', 'opportunity', 'alibi',
     'relationship', 'timeline', 'physical_evidence', 'background',
@@ -51,9 +64,15 @@ Each question must match this schema:
   "questionId": string,          // e.g. "q_01_who"
   "text": string,                // the question (see guidelines on vagueness below)
   "answer": {
+    "kind": "single" | "multi" | "ordered" | "compound" | "timeline",  // see ANSWER KINDS; omit for "single"
+    "label": string,             // compound only: names the first part, e.g. "Who"
     "type": "person" | "location" | "fact",
     "factCategory": string,      // REQUIRED when type is "fact"; one of: ${factCategories.join(', ')}
-    "acceptedIds": string[]      // at least 1; characterIds for "person", locationIds for "location", factIds for "fact"
+    "acceptedIds": string[],     // at least 1; characterIds for "person", locationIds for "location", factIds for "fact"
+    "aliases": Record<acceptedId, string[]>, // other ways a player might type each accepted answer (see ALIASES)
+    "parts": [                   // compound only: the remaining parts, each shaped like a single answer
+      { "label": string, "type": ..., "factCategory": ..., "acceptedIds": [...], "aliases": {...} }
+    ]
   },
   "points": number,              // point value (5, 10, 15, or 20)
   "difficulty": "easy" | "medium" | "hard"
@@ -84,7 +103,25 @@ CRITICAL: "Who" questions MUST use \`answer.type: "person"\` with characterIds 
 - If multiple answers could reasonably be correct, include all of them in acceptedIds.
 - CRITICAL: question text must be VAGUE and NON-SPOILING. Do NOT name specific characters, locations, or details that would give away answers to other questions.
 - Try to cover a variety of answer types. Don't make every question a "Who" question.
-- Point values: easy=5-10, medium=10-15, hard=15-20.`;
+- Point values: easy=5-10, medium=10-15, hard=15-20.
+
+## ANSWER KINDS
+
+- **"single"** (the default): the player picks one answer; any acceptedId is right. Most questions should be single.
+- **"multi"**: "Who were the conspirators?" The player picks every answer that applies; acceptedIds lists ALL of them (at least 2). Each right pick earns partial credit and each wrong pick loses it.
+- **"ordered"**: "In what order did the visitors arrive?" The player puts answers in sequence; acceptedIds is the correct sequence (at least 2), earliest first. Credit follows how much of the sequence is in the right order.
+- **"compound"**: "Who did it, and with what?" The answer has labelled parts: the top-level fields (with "label") are the first part, and "parts" holds the rest. Each part is answered like a single answer and earns its share of the credit.
+- **"timeline"**: "Reconstruct the events of that night." The player drags the timeline facts they found into the order they happened. Use type "fact" and factCategory "timeline", and put 3-5 factIds from the ORDERABLE TIMELINE FACTS list in acceptedIds, each at a different time. Order is scored against the events' times, so pick facts whose order matters to the solution.
+
+Use at most one or two non-single questions, and only where the deduction really has several pieces. Every multi or ordered answer must be fully discoverable.
+
+## ALIASES
+
+Players can choose to type their answers instead of picking from a list. A typed answer is accepted if it contains every word of the answer's name (or fact description) or of one of its aliases, allowing for small misspellings. Give 2-5 aliases for every accepted answer, keyed by its ID (in each compound part too):
+- For a person: surname, title and surname, first name if they go by it, nickname, role ("the butler") if only one character has it.
+- For a location: short name, common name, street.
+- For a fact: short paraphrases of 1-4 words that capture its point ("arsenic in the tea", "poisoned tea", "gambling debts").
+- An alias must never fit another character or location: no surname shared by two characters, no role two characters share.`;
 
   const validationResult = state.validationResult;
   const userPrompt = `Here is the case context:
@@ -105,8 +142,27 @@ ${locations ? Object.values(locations).map((l) => `  - ${l.locationId}: ${l.name
 Available facts (valid factIds for "fact" answer type — do NOT use false facts as answers):
 ${Object.values(facts).filter((f) => f.veracity !== 'false').map((f) => `  - ${f.factId} [${f.category}]: ${f.description}`).join('\n')}
 
+Orderable timeline facts (for a "timeline" question; earliest first, with event time):
+${orderableFactIds.length > 0
+    ? orderableFactIds.map((fid) => `  - ${fid} (t=${eventTimes[fid]}): ${facts[fid].description}`).join('\n')
+    : '  (none; do not write a timeline question)'}
+
 Where facts are found (casebook entries):
-${Object.values(casebook).map((e) => `  - ${e.label}: reveals [${e.revealsFactIds.join(', ')}]`).join('\n')}
+${Object.values(casebook).map((e) => `  - ${e.label}: reveals [${e.revealsFactIds.join(', ')}]`).join('\n')}${
+    Object.keys(followUps ?? {}).length > 0
+      ? `
+
+Confrontations (presenting a fact to a character at an entry):
+${Object.values(followUps ?? {}).map((fu) => `  - ${characters[fu.characterId]?.name ?? fu.characterId} at ${casebook[fu.entryId]?.label ?? fu.entryId}, shown ${fu.presentFactId}: reveals [${fu.revealsFactIds.join(', ')}]`).join('\n')}`
+      : ''
+  }${
+    Object.keys(documents ?? {}).length > 0
+      ? `
+
+Documents:
+${Object.values(documents ?? {}).map((d) => `  - ${d.title} (${d.kind}): reveals [${d.revealsFactIds.join(', ')}]`).join('\n')}`
+      : ''
+  }
 
 Design the quiz. For "person" answers, use characterIds. For "location" answers, use locationIds. For "fact" answers, use factIds and set factCategory. Think through the key deductions first, then provide the JSON array.${
     validationResult && !validationResult.valid
@@ -123,9 +179,11 @@ ${validationResult.errors.map((e) => `- ${e}`).join('\n')}`
   const { data: questions } = await callModel(
     {
       stepName: 'generateQuestions',
+      draftId,
       systemPrompt,
       userPrompt,
       modelConfig: input.modelConfig,
+      outputSchema: QuestionsSchema,
     },
     (raw) => QuestionsSchema.parse(raw),
   );
@@ -0,0 +1,301 @@
+import { callModel } from '../shared/bedrock';
+import { getDraft, updateDraft } from '../shared/draft-db';
+import { eventTimesOf, readAvailableDocuments, triggerAvailableFollowUps } from '../shared/discovery';
+import { answerParts } from '../../game/session';
+import {
+  SolutionSchema,
+  type OperationalState,
+  type AnswerPartDraft,
+  type CasebookEntryDraft,
+  type CharacterDraft,
+  type DocumentDraft,
+  type FactDraft,
+  type FollowUpDraft,
+  type LocationDraft,
+  type QuestionDraft,
+  type SolutionDraft,
+} from '../shared/generation-state';
+
+/**
+ * Pipeline Step 12c: Generate Solution (after ComputeDifficulty)
+ *
+ * Writes the Great Detective's explanation of the case, shown on the result
+ * screen beside the player's own path. Two phases:
+ *
+ * 1. **Programmatic walk** — follows optimalPath (reading documents and
+ *    making confrontations as they open, as ComputeOptimalPath does) and
+ *    records where each fact was first found. For each question, the
+ *    candidate facts are those that answer it: its accepted facts, or true
+ *    facts about its accepted people or places.
+ *
+ * 2. **AI writing** — a paragraph per path entry, an explanation per
+ *    question resting on facts it picks from the candidates, and a closing
+ *    summary, in the template's narrative tone.
+ *
+ * Citations are built from the walk, so each one names the entry, document,
+ * follow-up or introduction where Holmes actually found the fact.
+ */
+export const handler = async (state: OperationalState): Promise<OperationalState> => {
+  const { input, draftId } = state;
+  await updateDraft(draftId, {
+    currentStep: 'generateSolution',
+    lastStepStartedAt: new Date().toISOString(),
+  });
+  const draft = await getDraft(draftId);
+  const { template, events, characters, locations, facts, casebook, questions, optimalPath, introductionFactIds, title } = draft ?? {};
+  const documents = Object.values(draft?.documents ?? {});
+  const followUps = Object.values(draft?.followUps ?? {});
+
+  if (!template) throw new Error('GenerateSolution requires template from step 1');
+  if (!events) throw new Error('GenerateSolution requires events from step 2');
+  if (!characters) throw new Error('GenerateSolution requires characters from step 3');
+  if (!locations) throw new Error('GenerateSolution requires locations from step 4');
+  if (!facts) throw new Error('GenerateSolution requires facts from step 6');
+  if (!introductionFactIds) throw new Error('GenerateSolution requires introductionFactIds from step 7');
+  if (!casebook) throw new Error('GenerateSolution requires casebook from step 8');
+  if (!questions) throw new Error('GenerateSolution requires questions from step 10');
+  if (!optimalPath) throw new Error('GenerateSolution requires optimalPath from step 12');
+
+  // ── Phase 1: Programmatic walk ───────────────────────────────────
+  const { sourceOf, confrontedAt } = walkOptimalPath(optimalPath, casebook, documents, followUps, introductionFactIds);
+  const eventTimes = eventTimesOf(Object.keys(facts), draft?.factSkeletons ?? [], events);
+  const candidates = new Map(questions.map((q) => [q.questionId, answeringFacts(q, sourceOf, facts)]));
+
+  const sourceLabel = (source: string) => {
+    if (source === 'introduction') return 'in the introduction';
+    const followUp = draft?.followUps?.[source];
+    if (followUp) {
+      return `by confronting ${characters[followUp.characterId]?.name ?? followUp.characterId} at ${casebook[followUp.entryId]?.label ?? followUp.entryId}`;
+    }
+    return `in ${casebook[source]?.label ?? draft?.documents?.[source]?.title ?? source}`;
+  };
+  const describeFact = (fid: string) =>
+    `${fid}: "${facts[fid].description}" (found ${sourceLabel(sourceOf.get(fid)!)})`;
+  /** Facts first found during this path step: at the entry, or by a confrontation it made possible. */
+  const learnedAt = (entryId: string) =>
+    [...sourceOf].filter(([, source]) => source === entryId || confrontedAt.get(source) === entryId).map(([fid]) => fid);
+
+  // ── Phase 2: AI writing ──────────────────────────────────────────
+  const systemPrompt = `You are the Great Detective of a detective game, in the manner of Sherlock Holmes, explaining a solved case to your companion after the player has made their own attempt. You are brilliant and know it: confident, precise, a little impatient with anyone who missed the obvious.
+
+Your response must end with valid JSON:
+{
+  "walkthrough": Record<entryId, string>,  // one paragraph per entry on your path, keyed by entryId
+  "answers": Record<questionId, { "text": string, "factIds": string[] }>,
+  "summary": string                        // 2-4 sentences: what really happened
+}
+
+Rules:
+- Write a walkthrough paragraph (2-4 sentences) for EVERY entry on your path, and no others: what you learned there and why it sent you where you went next.
+- Answer EVERY question: explain in 2-4 sentences how the evidence settles it, and list in factIds the facts your reasoning rests on. Use ONLY factIds from that question's candidate list.
+- Refer to places by their names, not ids. Quote no factIds in the prose.
+- Expose false statements for what they are when they matter; never present a false fact as true.
+- Write in the first person. Keep the case's narrative tone (${template.narrativeTone}) and atmosphere (${template.atmosphere}).
+- Avoid common AI writing tells like em-dashes, asterisks, or excessive line breaks.`;
+
+  const userPrompt = `Title: ${title ?? template.title}
+Setting: ${template.era}, ${template.date}
+Crime Type: ${template.crimeType}
+
+## What really happened (chronological events)
+${Object.values(events).sort((a, b) => a.timestamp - b.timestamp).map((e) => `  ${e.timestamp}. ${e.description}`).join('\n')}
+
+## Characters
+${Object.values(characters).map((c) => `  - ${c.name} (${c.mysteryRole}, ${c.societalRole})`).join('\n')}
+
+## From the introduction and documents
+${[...sourceOf.keys()].filter((fid) => !casebook[sourceOf.get(fid)!] && !confrontedAt.has(sourceOf.get(fid)!)).map((fid) => `  - ${describeFact(fid)} [veracity: ${facts[fid].veracity}]`).join('\n') || '  (nothing)'}
+
+## Your path
+${optimalPath.map((entryId, i) => {
+  const entry = casebook[entryId];
+  const learned = learnedAt(entryId);
+  return `${i + 1}. entryId "${entryId}": ${entry.label}, ${entry.address}
+   Learned here:
+${learned.map((fid) => `     - ${describeFact(fid)} [veracity: ${facts[fid].veracity}]`).join('\n') || '     (nothing new)'}`;
+}).join('\n')}
+
+## Questions
+${questions.map((q) => `### questionId "${q.questionId}": ${q.text}
+Answer: ${describeAnswer(q, characters, locations, facts, eventTimes)}
+Candidate facts:
+${candidates.get(q.questionId)!.map((fid) => `  - ${describeFact(fid)}`).join('\n')}`).join('\n\n')}
+
+Provide the JSON solution.`;
+
+  const { data } = await callModel(
+    {
+      stepName: 'generateSolution',
+      draftId,
+      systemPrompt,
+      userPrompt,
+      modelConfig: input.modelConfig,
+      outputSchema: SolutionSchema,
+    },
+    (raw) => {
+      const parsed = SolutionSchema.parse(raw);
+      const problems: string[] = [];
+      for (const entryId of optimalPath) {
+        if (!parsed.walkthrough[entryId]) problems.push(`walkthrough is missing path entry "${entryId}"`);
+      }
+      for (const entryId of Object.keys(parsed.walkthrough)) {
+        if (!optimalPath.includes(entryId)) problems.push(`walkthrough entry "${entryId}" is not on the path`);
+      }
+      for (const q of questions) {
+        const answer = parsed.answers[q.questionId];
+        if (!answer) {
+          problems.push(`answers is missing question "${q.questionId}"`);
+          continue;
+        }
+        const allowed = candidates.get(q.questionId)!;
+        for (const fid of answer.factIds) {
+          if (!allowed.includes(fid)) problems.push(`answer to "${q.questionId}" cites "${fid}", which is not among its candidate facts`);
+        }
+      }
+      if (problems.length > 0) {
+        throw new Error(`Solution failed validation:\n${problems.map((p) => `- ${p}`).join('\n')}`);
+      }
+      return parsed;
+    },
+  );
+
+  const citedFactIds = new Set(Object.values(data.answers).flatMap((a) => a.factIds));
+  const solution: SolutionDraft = {
+    walkthrough: optimalPath.map((entryId, i) => {
+      // Key facts found here: those cited in an answer, or that open the next entry on the path
+      const nextGate = casebook[optimalPath[i + 1]]?.requiresAnyFact ?? [];
+      return {
+        entryId,
+        text: data.walkthrough[entryId],
+        factIds: learnedAt(entryId).filter((fid) => citedFactIds.has(fid) || nextGate.includes(fid)),
+      };
+    }),
+    answers: questions.map((q) => {
+      const answer = data.answers[q.questionId];
+      return {
+        questionId: q.questionId,
+        text: answer.text,
+        citations: [...new Set(answer.factIds)].map((factId) => ({ factId, source: sourceOf.get(factId)! })),
+      };
+    }),
+    summary: data.summary,
+  };
+
+  await updateDraft(draftId, { solution });
+  return state;
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Where each fact is first found walking the path (`sourceOf`):
+ * "introduction", a documentId, a followUpId, or an entryId. Insertion order
+ * is discovery order. `confrontedAt` gives, for each follow-up made, the path
+ * entry whose visit made it possible (its own entry, or a later one that
+ * turned up the evidence).
+ */
+function walkOptimalPath(
+  optimalPath: string[],
+  casebook: Record<string, CasebookEntryDraft>,
+  documents: DocumentDraft[],
+  followUps: FollowUpDraft[],
+  introductionFactIds: string[],
+): { sourceOf: Map<string, string>; confrontedAt: Map<string, string> } {
+  const sourceOf = new Map<string, string>(introductionFactIds.map((fid) => [fid, 'introduction']));
+  const confrontedAt = new Map<string, string>();
+  const known = new Set(introductionFactIds);
+  const visited = new Set<string>();
+  const documentsById = new Map(documents.map((d) => [d.documentId, d]));
+  const followUpsById = new Map(followUps.map((fu) => [fu.followUpId, fu]));
+
+  // Documents and confrontations are free, so make every one that opens; each can open the other
+  const readAndConfront = (entryId?: string) => {
+    let size = -1;
+    while (size !== known.size) {
+      size = known.size;
+      for (const documentId of readAvailableDocuments(known, documents)) {
+        for (const fid of documentsById.get(documentId)!.revealsFactIds) {
+          if (!sourceOf.has(fid)) sourceOf.set(fid, documentId);
+        }
+      }
+      const open = followUps.filter((fu) => !confrontedAt.has(fu.followUpId));
+      for (const followUpId of triggerAvailableFollowUps(known, visited, open)) {
+        confrontedAt.set(followUpId, entryId!); // nothing can be confronted before the first visit
+        for (const fid of followUpsById.get(followUpId)!.revealsFactIds) {
+          if (!sourceOf.has(fid)) sourceOf.set(fid, followUpId);
+        }
+      }
+    }
+  };
+
+  readAndConfront();
+  for (const entryId of optimalPath) {
+    for (const fid of casebook[entryId]?.revealsFactIds ?? []) {
+      known.add(fid);
+      if (!sourceOf.has(fid)) sourceOf.set(fid, entryId);
+    }
+    visited.add(entryId);
+    readAndConfront(entryId);
+  }
+  return { sourceOf, confrontedAt };
+}
+
+/**
+ * Facts on the path that answer the question, part by part (see
+ * isQuestionSatisfied). For people and places, true facts about them, unless
+ * only false ones were found.
+ */
+function answeringFacts(
+  question: QuestionDraft,
+  sourceOf: Map<string, string>,
+  facts: Record<string, FactDraft>,
+): string[] {
+  const found = [...sourceOf.keys()].filter((fid) => facts[fid]);
+  return [...new Set(answerParts(question.answer).flatMap((part) => {
+    const accepted = new Set(part.acceptedIds);
+    if (part.type === 'fact') return found.filter((fid) => accepted.has(fid));
+    const about = found.filter((fid) => facts[fid].subjects.some((s) => accepted.has(s)));
+    const trueFacts = about.filter((fid) => facts[fid].veracity === 'true');
+    return trueFacts.length > 0 ? trueFacts : about;
+  }))];
+}
+
+/** The correct answer as the prompt states it: alternatives, a set, a sequence, or labelled parts. */
+function describeAnswer(
+  question: QuestionDraft,
+  characters: Record<string, CharacterDraft>,
+  locations: Record<string, LocationDraft>,
+  facts: Record<string, FactDraft>,
+  eventTimes: Record<string, number>,
+): string {
+  const kind = question.answer.kind ?? 'single';
+  const separator = { multi: ' AND ', ordered: ' THEN ', timeline: ' THEN ' }[kind] ?? ' / ';
+  const names = (part: AnswerPartDraft) =>
+    (kind === 'timeline'
+      ? [...part.acceptedIds].sort((a, b) => (eventTimes[a] ?? 0) - (eventTimes[b] ?? 0))
+      : part.acceptedIds
+    ).map((id) => answerName(part, id, characters, locations, facts)).join(separator);
+  const parts = answerParts(question.answer);
+  return question.answer.kind === 'compound'
+    ? parts.map((part) => `${part.label}: ${names(part)}`).join('; ')
+    : names(parts[0]);
+}
+
+function answerName(
+  part: AnswerPartDraft,
+  id: string,
+  characters: Record<string, CharacterDraft>,
+  locations: Record<string, LocationDraft>,
+  facts: Record<string, FactDraft>,
+): string {
+  switch (part.type) {
+    case 'person':
+      return characters[id]?.name ?? id;
+    case 'location':
+      return locations[id]?.name ?? id;
+    default:
+      return facts[id]?.description ?? id;
+  }
+}
@@ -63,7 +63,14 @@ const SETTING_FLAVORS = [
  * crime type, required event slots, character roles, era/setting.
  */
 export const handler = async (state: OperationalState): Promise<OperationalState> => {
-  const { input, draftId } = state;
+  const { draftId } = state;
+
+  // Pick a random setting flavor to suggest variety, unless the input pins one
+  // (persisted on the draft input so replays send the same prompt)
+  const settingFlavor = state.input.settingFlavor
+    ?? SETTING_FLAVORS[Math.floor(Math.random() * SETTING_FLAVORS.length)];
+  const input = { ...state.input, settingFlavor };
+
   await updateDraft(draftId, {
     input,
     currentStep: 'generateTemplate',
@@ -71,9 +78,6 @@ export const handler = async (state: OperationalState): Promise<OperationalState
   });
   const difficulty = input.difficulty ?? 'medium';
 
-  // Pick a random setting flavor to suggest variety
-  const settingFlavor = SETTING_FLAVORS[Math.floor(Math.random() * SETTING_FLAVORS.length)];
-
   const systemPrompt = `You are a mystery case designer for a detective game. Your job is to create a case template — the structural blueprint for a mystery. Cases can be set in ANY era, genre, or world: historical, modern, futuristic, fantastical, horrific, or speculative. Embrace creative range.
 
 CRITICAL DISTINCTION — Story Events vs. Investigation:
@@ -130,6 +134,23 @@ Your response must end with valid JSON matching this schema:
       "description": string  // what this role does in the STORY (not the investigation)
     }
   ],
+  "expertRoles": [           // 1-3 specialists the detective can consult (see below)
+    {
+      "expertId": string,    // e.g. "expert_chemist", "expert_harbourmaster" (must start with "expert_")
+      "role": string,        // e.g. "Analytical Chemist", "Harbourmaster", "Freelance Hacker"
+      "specialty": string    // what evidence they can read, e.g. "poisons, residues, inks and papers"
+    }
+  ],
+  "falseLeads": [            // 1-3 alternate theories pointing at innocent characters (see below)
+    {
+      "leadId": string,      // e.g. "lead_jealous_understudy" (must start with "lead_")
+      "suspectRoleId": string, // roleId from characterRoles of the INNOCENT character the lead points at
+      "theory": string,      // the wrong conclusion, e.g. "The understudy dropped the chandelier to take the lead role"
+      "motive": string,      // why they might have done it, e.g. "She was passed over for the part in favour of Hartley"
+      "opportunity": string, // how they could have done it, e.g. "She was seen backstage near the fly gallery before the second act"
+      "alibi": string        // what clears them, e.g. "She was in the wardrobe room being fitted, with the seamstress, throughout the second act"
+    }
+  ],
   "difficulty": "${difficulty}"
 }
 
@@ -145,6 +166,23 @@ The "mysteryStyle" describes the structural shape of the mystery — how the inv
 
 The mystery style guides how events are structured, how characters relate, and how the casebook will be laid out.
 
+## Experts
+
+"expertRoles" are specialists outside the story whom the detective can consult: they examine physical evidence (objects, traces, documents) and explain what it shows. They are not suspects or witnesses and take no part in the events. Choose ones the setting would actually have: a chemist or pathologist in Victorian London, a harbourmaster in a port town, a hacker or data broker in a cyberpunk city, a scribe or alchemist in a fantasy court, a xenobiologist on a research station.
+
+- For "easy" difficulty: 1 expert. For "medium": 1-2. For "hard": 2-3.
+- Give each a distinct specialty, broad enough to cover several kinds of evidence.
+- Write the specialty as the plain words for the evidence they read ("poison, bottles, glass, residue, ink, paper"; "ships, tides, cargo, harbour logs"). Evidence is matched to experts by these words against the events and places, so use the words the events will use.
+
+## False Leads
+
+"falseLeads" are the red herring threads: coherent alternate theories a careful player could believe for a while. Each points at an innocent character with a real motive and a real opportunity, and is refuted by an alibi that the player can find elsewhere in the investigation (from someone other than the suspect).
+
+- For "easy" difficulty: 1 false lead. For "medium": 1-2. For "hard": 2-3.
+- "suspectRoleId" must be a roleId from "characterRoles", and that character must NOT be the culprit or an accomplice.
+- The motive and opportunity must be true and must fit the events; only the theory is wrong. The alibi must hold up against the events: it places the suspect somewhere else, or doing something else, at the moment that matters.
+- Different leads should point at different characters.
+
 ## Narrative Tone
 
 The "narrativeTone" sets the voice and mood for all prose in the case. Choose one that complements the setting and atmosphere:
@@ -161,11 +199,11 @@ The "narrativeTone" sets the voice and mood for all prose in the case. Choose on
 
 Guidelines:
 - For "easy" difficulty: 5-6 events, 5-6 characters, straightforward motive
-- For "medium" difficulty: 6-8 events, 6-8 characters, one red herring thread
-- For "hard" difficulty: 8-10 events, 8-12 characters, multiple misleading threads
+- For "medium" difficulty: 6-8 events, 6-8 characters, one or two false leads
+- For "hard" difficulty: 8-10 events, 8-12 characters, several false leads
 - Event slots form a DAG via causedBy. At least one root event (empty causedBy) must exist.
 - At least 3 events must be "required" (form the narrative spine).
-- Include roles for: at least one victim (or wronged party), at least one genuine suspect, and at least one red herring character.
+- Include roles for: at least one victim (or wronged party), at least one genuine suspect, and at least one red herring character (the suspect of a false lead).
 - Other roles can be things like witnesses, unreliable witnesses, bystanders, accomplices, informants, etc. — use roles that fit the setting naturally.
 - The crime type should be specific, not generic. "Theft of shipping manifests to cover embezzlement" is better than "theft". "Sabotage of the ward-stones to frame a rival mage" is better than "sabotage".
 - Every event must be something that HAPPENED in the world, not something the police/detective discovered or concluded.
@@ -191,11 +229,23 @@ Think through your creative choices first, then provide the JSON object.`;
   const { data: template } = await callModel(
     {
       stepName: 'generateTemplate',
+      draftId,
       systemPrompt,
       userPrompt,
       modelConfig: input.modelConfig,
+      outputSchema: CaseTemplateSchema,
+    },
+    (raw) => {
+      const parsed = CaseTemplateSchema.parse(raw);
+      const roleIds = new Set(parsed.characterRoles.map((r) => r.roleId));
+      const problems = (parsed.falseLeads ?? [])
+        .filter((lead) => !roleIds.has(lead.suspectRoleId))
+        .map((lead) => `${lead.leadId}: suspectRoleId "${lead.suspectRoleId}" is not a roleId in characterRoles`);
+      if (problems.length > 0) {
+        throw new Error(`Template failed validation:\n${problems.map((p) => `- ${p}`).join('\n')}`);
+      }
+      return parsed;
     },
-    (raw) => CaseTemplateSchema.parse(raw),
   );
 
   await updateDraft(draftId, { template });
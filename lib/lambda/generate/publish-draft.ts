@@ -1,5 +1,4 @@
-import { PutCommand } from '@aws-sdk/lib-dynamodb';
-import { docClient, CASES_TABLE } from '../shared/db';
+import { putCase } from '../shared/case-db';
 import { getDraft } from '../shared/draft-db';
 import { assembleCaseFromDraft } from '../shared/assemble-case';
 
@@ -31,12 +30,7 @@ export const handler = async (event: PublishDraftEvent): Promise<{ caseDate: str
 
   const finalCase = assembleCaseFromDraft(draft, caseDate, draftId);
 
-  await docClient.send(
-    new PutCommand({
-      TableName: CASES_TABLE,
-      Item: finalCase,
-    }),
-  );
+  await putCase(finalCase);
 
   return { caseDate };
 };
@@ -0,0 +1,47 @@
+import { getDraft, updateDraft } from '../shared/draft-db';
+import { assembleCaseFromDraft } from '../shared/assemble-case';
+import { simulateCase } from '../../game/simulator';
+import type { OperationalState } from '../shared/generation-state';
+
+/**
+ * Pipeline Step 12d: Simulate Playthroughs (optional, after GenerateSolution)
+ *
+ * Runs only when input.simulationRuns is set. Assembles the draft into the
+ * Case players will get and plays it headlessly (see game/simulator): random
+ * walk, breadth-first, greedy-newest-lead and oracle players, each through
+ * the same session rules as the UI. Stores the distribution of visits and
+ * scores as `simulation`.
+ *
+ * Warns when the oracle, following the optimal path, fails to answer every
+ * question, or when no strategy ever solves the case.
+ *
+ * This is pure computation — no LLM call needed.
+ */
+export const handler = async (state: OperationalState): Promise<OperationalState> => {
+  const { input, draftId } = state;
+  if (!input.simulationRuns) return state;
+
+  await updateDraft(draftId, {
+    currentStep: 'simulatePlaythroughs',
+    lastStepStartedAt: new Date().toISOString(),
+  });
+  const draft = await getDraft(draftId);
+  if (!draft) throw new Error('SimulatePlaythroughs requires a draft');
+
+  const simulation = simulateCase(assembleCaseFromDraft(draft, input.caseDate), { runs: input.simulationRuns });
+
+  const warnings = [...(state.validationResult?.warnings ?? [])];
+  const oracle = simulation.strategies.find((s) => s.strategy === 'oracle');
+  if (oracle && oracle.solvedShare < 1) {
+    warnings.push('Simulation: the oracle player, following the optimal path, did not answer every question');
+  }
+  if (simulation.strategies.every((s) => s.solvedShare === 0)) {
+    warnings.push('Simulation: no simulated player solved the case');
+  }
+
+  await updateDraft(draftId, { simulation });
+  return {
+    ...state,
+    validationResult: { valid: true, errors: [], ...state.validationResult, warnings },
+  };
+};
@@ -1,5 +1,4 @@
-import { PutCommand } from '@aws-sdk/lib-dynamodb';
-import { docClient, CASES_TABLE } from '../shared/db';
+import { putCase } from '../shared/case-db';
 import { getDraft, updateDraft } from '../shared/draft-db';
 import { assembleCaseFromDraft } from '../shared/assemble-case';
 import type { OperationalState } from '../shared/generation-state';
@@ -31,12 +30,7 @@ export const handler = async (state: OperationalState): Promise<OperationalState
 
   const finalCase = assembleCaseFromDraft(draft, input.caseDate, draftId);
 
-  await docClient.send(
-    new PutCommand({
-      TableName: CASES_TABLE,
-      Item: finalCase,
-    }),
-  );
+  await putCase(finalCase);
 
   await updateDraft(draftId, { lastValidationResult: undefined });
 
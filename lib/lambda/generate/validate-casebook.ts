@@ -20,20 +20,37 @@ import type {
  *   - **Facts**: unlocked by the introduction or revealed by entries
  *   - **Entries**: unlocked when ANY fact in their `requiresAnyFact` is discovered
  *
+ * Follow-ups (from GenerateFollowUps) add a third kind of edge: a follow-up
+ * reveals its facts once its entry is reachable AND its presentFactId is.
+ * Documents (from GenerateDocuments) are like entries, except that one with
+ * an empty `requiresAnyFact` is available from the start.
+ *
  * Algorithm:
  *   1. Seed reachable facts with `introductionFactIds`
  *   2. Iterate until fixed point:
  *      a. Reachable facts unlock new entries (OR-gate)
  *      b. Reachable entries reveal new facts
- *   3. Report any unreachable facts or entries as errors
+ *      c. Triggerable follow-ups reveal new facts
+ *      d. Available documents reveal new facts
+ *   3. Report any unreachable facts, entries, follow-ups or documents as errors
+ *   4. Check every red herring thread (see ComputeFacts) has a reachable
+ *      refutation: its alibi fact is discovered, and not only at entries
+ *      where the suspect is present, since a suspect vouching for themselves
+ *      refutes nothing
+ *   5. Warn about each template expert left without an entry: ComputeFacts
+ *      pairs experts with evidence by shared words, and drops one whose
+ *      specialty fits none
  *
- * If validation fails, the Step Function retries GenerateCasebook with
- * error context (up to 2 retries).
+ * Runs twice: after GenerateCasebook (no follow-ups yet) and after
+ * GenerateFollowUps. If validation fails, the Step Function retries the step
+ * that just ran with error context (up to 1 retry).
  */
 export const handler = async (state: OperationalState): Promise<OperationalState> => {
   const { draftId } = state;
   const draft = await getDraft(draftId);
-  const { events, characters, locations, facts, casebook, introductionFactIds } = draft ?? {};
+  const { template, events, characters, locations, facts, casebook, introductionFactIds, roleMapping } = draft ?? {};
+  const followUps = Object.values(draft?.followUps ?? {});
+  const documents = Object.values(draft?.documents ?? {});
 
   if (!facts) throw new Error('ValidateCasebook requires facts');
   if (!casebook) throw new Error('ValidateCasebook requires casebook');
@@ -88,6 +105,43 @@ export const handler = async (state: OperationalState): Promise<OperationalState
     }
   }
 
+  for (const fu of followUps) {
+    const entry = casebook[fu.entryId];
+    if (!entry) {
+      errors.push(`Follow-up "${fu.followUpId}": entryId "${fu.entryId}" is not in the casebook`);
+    } else if (!entry.characterIds.includes(fu.characterId)) {
+      errors.push(
+        `Follow-up "${fu.followUpId}": character "${fu.characterId}" is not present at entry "${fu.entryId}"`,
+      );
+    }
+    if (!allFactIds.has(fu.presentFactId)) {
+      errors.push(`Follow-up "${fu.followUpId}": presentFactId references unknown fact "${fu.presentFactId}"`);
+    }
+    if (fu.revealsFactIds.length === 0) {
+      errors.push(`Follow-up "${fu.followUpId}": revealsFactIds is empty`);
+    }
+    for (const revealedFactId of fu.revealsFactIds) {
+      if (!allFactIds.has(revealedFactId)) {
+        errors.push(`Follow-up "${fu.followUpId}": revealsFactIds references unknown fact "${revealedFactId}"`);
+      } else if (revealedFactId === fu.presentFactId) {
+        errors.push(`Follow-up "${fu.followUpId}": reveals its own presentFactId "${revealedFactId}"`);
+      }
+    }
+  }
+
+  for (const doc of documents) {
+    for (const gateFactId of doc.requiresAnyFact) {
+      if (!allFactIds.has(gateFactId)) {
+        errors.push(`Document "${doc.documentId}": requiresAnyFact references unknown fact "${gateFactId}"`);
+      }
+    }
+    for (const revealedFactId of doc.revealsFactIds) {
+      if (!allFactIds.has(revealedFactId)) {
+        errors.push(`Document "${doc.documentId}": revealsFactIds references unknown fact "${revealedFactId}"`);
+      }
+    }
+  }
+
   for (const introFactId of introductionFactIds) {
     if (!allFactIds.has(introFactId)) {
       errors.push(
@@ -116,6 +170,15 @@ export const handler = async (state: OperationalState): Promise<OperationalState
     }
   }
 
+  // ── Warnings: template experts without an entry ──────────────────
+  for (const expert of template?.expertRoles ?? []) {
+    if (!casebook[`entry_${expert.expertId}`]) {
+      warnings.push(
+        `Expert ${expert.expertId} (${expert.role}): no evidence matched their specialty "${expert.specialty}", so they have no casebook entry`,
+      );
+    }
+  }
+
   // If referential integrity is broken, bail early
   if (errors.length > 0) {
     const result: CasebookValidationResult = {
@@ -132,6 +195,7 @@ export const handler = async (state: OperationalState): Promise<OperationalState
   // ── Bipartite BFS: facts ↔ entries ───────────────────────────────
   const reachableFacts = new Set<string>(introductionFactIds);
   const reachableEntries = new Set<string>();
+  const readableDocuments = new Set<string>();
 
   let changed = true;
   while (changed) {
@@ -156,13 +220,33 @@ export const handler = async (state: OperationalState): Promise<OperationalState
         }
       }
     }
+
+    // Follow-ups reveal facts once their entry and evidence are both reachable
+    for (const fu of followUps) {
+      if (!reachableEntries.has(fu.entryId) || !reachableFacts.has(fu.presentFactId)) continue;
+      for (const factId of fu.revealsFactIds) {
+        if (!reachableFacts.has(factId)) {
+          reachableFacts.add(factId);
+          changed = true;
+        }
+      }
+    }
+
+    // Documents reveal facts once any gate fact is reachable (or at once, if ungated)
+    for (const doc of documents) {
+      if (readableDocuments.has(doc.documentId)) continue;
+      if (doc.requiresAnyFact.length > 0 && !doc.requiresAnyFact.some((factId) => reachableFacts.has(factId))) continue;
+      readableDocuments.add(doc.documentId);
+      changed = true;
+      for (const factId of doc.revealsFactIds) reachableFacts.add(factId);
+    }
   }
 
   // ── Check for unreachable facts ──────────────────────────────────
   for (const factId of allFactIds) {
     if (!reachableFacts.has(factId)) {
       errors.push(
-        `Fact "${factId}" (${facts[factId].description}) is unreachable — not in introductionFactIds and not revealed by any reachable entry`,
+        `Fact "${factId}" (${facts[factId].description}) is unreachable — not in introductionFactIds and not revealed by any reachable entry or document`,
       );
     }
   }
@@ -178,9 +262,63 @@ export const handler = async (state: OperationalState): Promise<OperationalState
     }
   }
 
+  // ── Check for follow-ups that can never be triggered ─────────────
+  for (const fu of followUps) {
+    if (reachableEntries.has(fu.entryId) && !reachableFacts.has(fu.presentFactId)) {
+      errors.push(
+        `Follow-up "${fu.followUpId}" can never be triggered — its evidence fact "${fu.presentFactId}" is never discovered`,
+      );
+    }
+  }
+
+  // ── Check for documents that can never be read ───────────────────
+  for (const doc of documents) {
+    if (!readableDocuments.has(doc.documentId)) {
+      errors.push(
+        `Document "${doc.documentId}" (${doc.title}) is unreachable — its gate facts [${doc.requiresAnyFact.join(', ')}] are never discovered`,
+      );
+    }
+  }
+
+  // ── Check that every red herring thread can be refuted ───────────
+  const threads = new Map<string, { alibiId?: string }>();
+  for (const skeleton of draft?.factSkeletons ?? []) {
+    if (skeleton.source.type !== 'red_herring' || !skeleton.source.thread) continue;
+    const { leadId, part } = skeleton.source.thread;
+    const thread = threads.get(leadId) ?? {};
+    if (part === 'alibi') thread.alibiId = skeleton.factId;
+    threads.set(leadId, thread);
+  }
+  for (const [leadId, { alibiId }] of threads) {
+    if (!alibiId || !reachableFacts.has(alibiId)) {
+      errors.push(
+        `Red herring thread "${leadId}" has no reachable refutation — its alibi fact ${alibiId ? `"${alibiId}" is never discovered` : 'is missing'}`,
+      );
+      continue;
+    }
+    const lead = draft?.template?.falseLeads?.find((l) => l.leadId === leadId);
+    const suspectId = lead ? roleMapping?.[lead.suspectRoleId] : undefined;
+    const refutedElsewhere =
+      allEntries.some((e) =>
+        reachableEntries.has(e.entryId) && e.revealsFactIds.includes(alibiId) && !e.characterIds.includes(suspectId ?? '')) ||
+      followUps.some((fu) =>
+        reachableEntries.has(fu.entryId) && fu.revealsFactIds.includes(alibiId) && fu.characterId !== suspectId) ||
+      documents.some((d) => readableDocuments.has(d.documentId) && d.revealsFactIds.includes(alibiId));
+    if (!refutedElsewhere) {
+      errors.push(
+        `Red herring thread "${leadId}": its alibi fact "${alibiId}" is only revealed where the suspect "${suspectId}" is present — it must also be found elsewhere`,
+      );
+    }
+  }
+
   // ── Check that intro facts unlock at least some entries ──────────
+  // Documents available from the start count: the player can read them first
+  const startFactIds = new Set([
+    ...introductionFactIds,
+    ...documents.filter((d) => d.requiresAnyFact.length === 0).flatMap((d) => d.revealsFactIds),
+  ]);
   const firstWaveEntries = allEntries.filter(
-    (e) => e.requiresAnyFact.some((f) => introductionFactIds.includes(f)),
+    (e) => e.requiresAnyFact.some((f) => startFactIds.has(f)),
   );
   if (firstWaveEntries.length === 0) {
     errors.push(
@@ -0,0 +1,303 @@
+import { callModel } from '../shared/bedrock';
+import { mapWithConcurrency } from '../shared/concurrency';
+import { getDraft, updateDraft } from '../shared/draft-db';
+import { factPassages, parseSceneMarkup } from '../shared/scene-markup';
+import {
+  ProseCoverageSchema,
+  type OperationalState,
+  type CharacterDraft,
+  type FactDraft,
+  type GenerationModelConfig,
+  type LocationDraft,
+  type ProseCoverage,
+  type ProseValidationResult,
+} from '../shared/generation-state';
+
+/**
+ * Pipeline Step 9b: Validate Prose (after GenerateProse)
+ *
+ * Checks that every scene conveys every fact in its revealsFactIds: the
+ * casebook scenes from GenerateProse and the confrontation scenes of the
+ * follow-ups. The player learns facts only by reading, so a fact missing
+ * from the prose is a fact the player can never discover.
+ *
+ * Scenes carry inline markup (see scene-markup), which is checked first:
+ * malformed tags, and fact spans for facts the scene doesn't reveal, are
+ * markup errors; links to unknown characters/locations are warnings (assembly
+ * drops them).
+ *
+ * Then three passes over each revealed fact:
+ *   1. Markup (no LLM): the fact must have a <fact> span in the scene.
+ *   2. Lexical pre-check (no LLM): a fact is about its subjects, so a scene
+ *      that never names any of them — and isn't set at or with one of them —
+ *      cannot convey it. Those facts are reported without asking the judge.
+ *   3. LLM judge: the remaining facts get a covered/missing verdict and
+ *      evidence per fact, in one call, or in batches of input.proseBatchSize
+ *      scenes when that is set.
+ *
+ * Failures list the uncovered facts and markup errors per scene (keyed by
+ * entryId or followUpId); on retry, GenerateProse rewrites only those scenes
+ * (up to 1 retry).
+ */
+export const handler = async (state: OperationalState): Promise<OperationalState> => {
+  const { input, draftId } = state;
+  const draft = await getDraft(draftId);
+  const { characters, locations, facts, casebook, prose, followUps } = draft ?? {};
+
+  if (!characters) throw new Error('ValidateProse requires characters');
+  if (!locations) throw new Error('ValidateProse requires locations');
+  if (!facts) throw new Error('ValidateProse requires facts');
+  if (!casebook) throw new Error('ValidateProse requires casebook');
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const uncoveredFacts: Record<string, string[]> = {};
+  const markupErrors: Record<string, string[]> = {};
+
+  const addUncovered = (sceneId: string, factId: string, reason: string) => {
+    (uncoveredFacts[sceneId] ??= []).push(factId);
+    errors.push(
+      `${sceneName(sceneId)}: scene does not convey fact ${factId} ("${facts[factId]?.description ?? factId}") — ${reason}`,
+    );
+  };
+
+  const addMarkupError = (sceneId: string, problem: string) => {
+    (markupErrors[sceneId] ??= []).push(problem);
+    errors.push(`${sceneName(sceneId)}: markup — ${problem}`);
+  };
+
+  // ── Markup and lexical pre-check ─────────────────────────────────
+  const toJudge: JudgeScene[] = [];
+
+  /** Check one scene: `setting` is who and where the scene is, for the lexical pre-check. */
+  const checkScene = (sceneId: string, label: string, markup: string, revealsFactIds: string[], setting: SceneSetting) => {
+    const { text: scene, paragraphs, errors: parseErrors } = parseSceneMarkup(markup);
+    for (const problem of parseErrors) addMarkupError(sceneId, problem);
+    const passages = factPassages(paragraphs);
+    for (const factId of passages.keys()) {
+      if (!revealsFactIds.includes(factId)) {
+        addMarkupError(sceneId, `<fact id="${factId}"> marks a fact this scene does not reveal`);
+      }
+    }
+    const spans = paragraphs.flat();
+    for (const id of new Set(spans.flatMap((s) => (s.characterId && !characters[s.characterId] ? [s.characterId] : [])))) {
+      warnings.push(`${sceneName(sceneId)}: <character id="${id}"> names an unknown character`);
+    }
+    for (const id of new Set(spans.flatMap((s) => (s.locationId && !locations[s.locationId] ? [s.locationId] : [])))) {
+      warnings.push(`${sceneName(sceneId)}: <location id="${id}"> names an unknown location`);
+    }
+
+    const judgeFactIds: string[] = [];
+    for (const factId of revealsFactIds) {
+      const fact = facts[factId];
+      if (!fact) {
+        warnings.push(`${sceneName(sceneId)}: revealsFactIds references unknown fact "${factId}"`);
+        continue;
+      }
+      if (!passages.has(factId)) {
+        addUncovered(sceneId, factId, 'no <fact> span marks it');
+      } else if (mentionsAnySubject(scene, fact, setting, characters, locations)) {
+        judgeFactIds.push(factId);
+      } else {
+        const names = fact.subjects.map((id) => subjectName(id, characters, locations)).join(', ');
+        addUncovered(sceneId, factId, `none of its subjects (${names}) is mentioned`);
+      }
+    }
+    if (judgeFactIds.length > 0) toJudge.push({ sceneId, label, scene, factIds: judgeFactIds, passages });
+  };
+
+  for (const entry of Object.values(casebook)) {
+    const markup = prose?.[entry.entryId];
+    if (!markup) {
+      errors.push(`Entry "${entry.entryId}": no prose scene`);
+      uncoveredFacts[entry.entryId] = [...entry.revealsFactIds];
+      continue;
+    }
+    checkScene(entry.entryId, entry.label, markup, entry.revealsFactIds, {
+      locationId: entry.locationId,
+      characterIds: entry.characterIds,
+      expert: entry.entryId.startsWith('entry_expert_'),
+    });
+  }
+
+  // Confrontation scenes come from GenerateFollowUps but are read like any other
+  for (const fu of Object.values(followUps ?? {})) {
+    const entry = casebook[fu.entryId];
+    checkScene(
+      fu.followUpId,
+      `${characters[fu.characterId]?.name ?? fu.characterId} confronted at ${entry?.label ?? fu.entryId}`,
+      fu.scene,
+      fu.revealsFactIds,
+      { locationId: entry?.locationId ?? '', characterIds: [fu.characterId], expert: false },
+    );
+  }
+
+  // ── LLM judge ────────────────────────────────────────────────────
+  // Batched like GenerateProse, so a large case doesn't outgrow one response
+  const batchSize = input.proseBatchSize && input.proseBatchSize < toJudge.length
+    ? input.proseBatchSize
+    : toJudge.length;
+  const batches: JudgeScene[][] = [];
+  for (let i = 0; i < toJudge.length; i += batchSize) {
+    batches.push(toJudge.slice(i, i + batchSize));
+  }
+  const results = await mapWithConcurrency(batches, JUDGE_CONCURRENCY, (batch, i) =>
+    judgeCoverage(
+      batch,
+      facts,
+      draftId,
+      input.modelConfig,
+      batches.length > 1 ? `coverage check ${i + 1}/${batches.length}` : 'coverage check',
+    ),
+  );
+  const verdicts: ProseCoverage = Object.assign({}, ...results);
+
+  for (const { sceneId, factIds } of toJudge) {
+    const sceneVerdicts = verdicts[sceneId] ?? [];
+    for (const factId of factIds) {
+      const verdict = sceneVerdicts.find((v) => v.factId === factId);
+      if (!verdict) {
+        warnings.push(`${sceneName(sceneId)}: judge gave no verdict for fact ${factId}; assuming covered`);
+      } else if (!verdict.covered) {
+        addUncovered(sceneId, factId, verdict.evidence);
+      }
+    }
+  }
+
+  const result: ProseValidationResult = {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    uncoveredFacts,
+    markupErrors,
+  };
+  if (!result.valid) {
+    await updateDraft(draftId, { lastValidationResult: result });
+  }
+  return { ...state, validationResult: result };
+};
+
+// ============================================
+// LLM judge
+// ============================================
+
+/** Judge calls run at once when the scenes are checked in batches. */
+const JUDGE_CONCURRENCY = 4;
+
+/** A scene and the facts left for the judge after the markup and lexical checks. */
+interface JudgeScene {
+  /** entryId, or followUpId for a confrontation scene. */
+  sceneId: string;
+  label: string;
+  scene: string;
+  factIds: string[];
+  passages: Map<string, string[]>;
+}
+
+/** One judge call: a covered/missing verdict with evidence for every fact of every scene in `batch`. */
+async function judgeCoverage(
+  batch: JudgeScene[],
+  facts: Record<string, FactDraft>,
+  draftId: string,
+  modelConfig: GenerationModelConfig | undefined,
+  label: string,
+): Promise<ProseCoverage> {
+  const systemPrompt = `You are checking prose scenes for a detective game. The player learns facts only by reading the scenes, so every fact assigned to a scene must be conveyed by it.
+
+A fact is COVERED when a careful reader could learn it from the scene: stated outright, said in dialogue, or shown through a physical detail that clearly implies it. False facts (veracity "false") count as covered when a character asserts or implies them. A fact is NOT covered when it is absent, only vaguely gestured at, or contradicted by the scene without anyone asserting it.
+
+Each fact comes with the passage the writer marked as revealing it; the fact may also be conveyed elsewhere in the scene. Judge each fact independently. For covered facts, quote the shortest passage that conveys it. For missing facts, say briefly what is absent.
+
+Your response must end with valid JSON: a Record<sceneId, Array<{ factId, covered, evidence }>> with a verdict for every fact listed.`;
+
+  const userPrompt = `Check these ${batch.length} scenes:
+
+${batch.map(({ sceneId, label, scene, factIds, passages }) => `### Scene "${sceneId}" (${label})
+Facts to check:
+${factIds.map((fid) => `- ${fid}: "${facts[fid].description}" (veracity: ${facts[fid].veracity})
+  Marked passage: ${passages.get(fid)!.map((p) => `"${p}"`).join(' … ')}`).join('\n')}
+
+Scene:
+${scene}`).join('\n\n')}
+
+Provide the JSON verdicts.`;
+
+  const { data } = await callModel(
+    {
+      stepName: 'validateProse',
+      draftId,
+      label,
+      systemPrompt,
+      userPrompt,
+      modelConfig,
+      outputSchema: ProseCoverageSchema,
+    },
+    (raw) => ProseCoverageSchema.parse(raw),
+  );
+  return data;
+}
+
+// ============================================
+// Lexical pre-check
+// ============================================
+
+/** Words too common in names to count as a mention on their own. */
+const NAME_STOPWORDS = new Set([
+  'the', 'and', 'of', 'mr', 'mrs', 'miss', 'ms', 'dr', 'sir', 'lady', 'lord', 'st', 'saint',
+  'old', 'new', 'house', 'room', 'street', 'road', 'lane', 'hall',
+]);
+
+/** Distinctive lowercase words of a name ("Lady Margaret Ashworth" → margaret, ashworth). */
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .split(/[^\p{L}]+/u)
+    .filter((t) => t.length >= 3 && !NAME_STOPWORDS.has(t));
+}
+
+function subjectName(
+  subjectId: string,
+  characters: Record<string, CharacterDraft>,
+  locations: Record<string, LocationDraft>,
+): string {
+  return characters[subjectId]?.name ?? locations[subjectId]?.name ?? subjectId;
+}
+
+/** Where a scene takes place and who is in it. */
+interface SceneSetting {
+  locationId: string;
+  characterIds: string[];
+  /** An expert consultation. */
+  expert: boolean;
+}
+
+/** How messages name a scene: casebook scenes by entryId, confrontations by followUpId. */
+function sceneName(sceneId: string): string {
+  return sceneId.startsWith('entry_') ? `Entry "${sceneId}"` : `Follow-up "${sceneId}"`;
+}
+
+/**
+ * True if the scene could plausibly convey the fact: one of its subjects is
+ * the scene's own location or a character present (the scene is about them
+ * even if never named), or a distinctive word of a subject's name appears.
+ * Expert scenes are always left to the judge.
+ * Misses only what is clearly absent; the judge decides the rest.
+ */
+function mentionsAnySubject(
+  scene: string,
+  fact: FactDraft,
+  setting: SceneSetting,
+  characters: Record<string, CharacterDraft>,
+  locations: Record<string, LocationDraft>,
+): boolean {
+  // An expert reads the evidence in hand, which the scene may describe without naming whose it is
+  if (setting.expert) return true;
+  const sceneWords = new Set(scene.toLowerCase().split(/[^\p{L}]+/u));
+  return fact.subjects.some((subjectId) => {
+    if (subjectId === setting.locationId || setting.characterIds.includes(subjectId)) return true;
+    // Unknown subjects and names with no distinctive word can't be checked; leave them to the judge
+    if (!characters[subjectId] && !locations[subjectId]) return true;
+    const tokens = nameTokens(subjectName(subjectId, characters, locations));
+    return tokens.length === 0 || tokens.some((t) => sceneWords.has(t));
+  });
+}
@@ -1,4 +1,6 @@
 import { getDraft, updateDraft } from '../shared/draft-db';
+import { eventTimesOf } from '../shared/discovery';
+import { answerParts, answerWords, wordMatches } from '../../game/session';
 import type {
   OperationalState,
   ValidationResult,
@@ -8,18 +10,26 @@ import type {
  * Pipeline Step 10b: Validate Questions (after GenerateQuestions)
  *
  * Pure logic — no LLM call. Validates:
- * - Every question has a valid answer type ('person', 'location', or 'fact')
+ * - Every answer has a valid kind; compound answers have labelled parts, and
+ *   multi and ordered answers at least two acceptedIds
+ * - Timeline answers order at least three timeline facts, each revealed by
+ *   an event at a different timestamp
+ * - Every answer part has a valid answer type ('person', 'location', or 'fact')
  * - For 'fact' answers: factCategory is present, acceptedIds reference valid factIds,
  *   and their categories match factCategory (reachability is guaranteed by ComputeFacts/casebook generation)
  * - For 'person' answers: acceptedIds reference valid characterIds
  * - For 'location' answers: acceptedIds reference valid locationIds
+ * - Free-text aliases are keyed by acceptedIds, and a person or location
+ *   alias never fits another character or location (all of its words found
+ *   in their name, allowing the typos the player matcher allows), which
+ *   would let a wrong typed answer through
  *
  * On failure, the Step Function retries GenerateQuestions.
  */
 export const handler = async (state: OperationalState): Promise<OperationalState> => {
   const { draftId } = state;
   const draft = await getDraft(draftId);
-  const { questions, facts, characters, locations } = draft ?? {};
+  const { questions, facts, characters, locations, events, factSkeletons } = draft ?? {};
 
   const errors: string[] = [];
   const warnings: string[] = [];
@@ -44,72 +54,157 @@ export const handler = async (state: OperationalState): Promise<OperationalState
   const locationIds = new Set(locations ? Object.keys(locations) : []);
 
   const validAnswerTypes = new Set(['person', 'location', 'fact']);
+  const validAnswerKinds = new Set(['single', 'multi', 'ordered', 'compound', 'timeline']);
 
   for (const question of questions) {
     const { answer } = question;
+    const kind = answer?.kind ?? 'single';
 
-    if (!answer || !validAnswerTypes.has(answer.type)) {
+    if (!answer || !validAnswerKinds.has(kind)) {
       errors.push(
-        `Question ${question.questionId}: answer.type must be 'person', 'location', or 'fact' (got "${answer?.type}")`,
+        `Question ${question.questionId}: answer.kind must be 'single', 'multi', 'ordered', 'compound', or 'timeline' (got "${answer?.kind}")`,
       );
       continue;
     }
-
-    if (!answer.acceptedIds || answer.acceptedIds.length === 0) {
-      errors.push(
-        `Question ${question.questionId}: answer.acceptedIds must have at least one entry`,
-      );
-      continue;
+    if (kind === 'compound') {
+      if (!answer.parts?.length) {
+        errors.push(`Question ${question.questionId}: a compound answer needs at least one entry in answer.parts`);
+      }
+      if (!answer.label) {
+        errors.push(`Question ${question.questionId}: a compound answer needs answer.label for its first part`);
+      }
+    } else if (answer.parts?.length) {
+      errors.push(`Question ${question.questionId}: answer.parts is only allowed when kind is 'compound'`);
     }
-
-    switch (answer.type) {
-      case 'fact': {
-        if (!answer.factCategory) {
+    if ((kind === 'multi' || kind === 'ordered') && answer.acceptedIds?.length < 2) {
+      errors.push(`Question ${question.questionId}: a ${kind} answer needs at least two acceptedIds`);
+    }
+    if (kind === 'timeline') {
+      if (answer.type !== 'fact' || answer.factCategory !== 'timeline') {
+        errors.push(`Question ${question.questionId}: a timeline answer needs type 'fact' and factCategory 'timeline'`);
+      }
+      if (answer.acceptedIds.length < 3) {
+        errors.push(`Question ${question.questionId}: a timeline answer needs at least three facts to order`);
+      }
+      const times = eventTimesOf(answer.acceptedIds, factSkeletons ?? [], events ?? {});
+      const factAt = new Map<number, string>();
+      for (const id of answer.acceptedIds) {
+        if (times[id] == null) {
           errors.push(
-            `Question ${question.questionId}: answer.factCategory is required when type is 'fact'`,
+            `Question ${question.questionId}: timeline fact "${id}" is not revealed by an event, so it has no time to order by`,
           );
+        } else if (factAt.has(times[id])) {
+          errors.push(
+            `Question ${question.questionId}: timeline facts "${factAt.get(times[id])}" and "${id}" come from events at the same time; pick facts from different moments`,
+          );
+        } else {
+          factAt.set(times[id], id);
         }
-        for (const id of answer.acceptedIds) {
-          if (!factIds.has(id)) {
+      }
+    }
+
+    answerParts(answer).forEach((part, i) => {
+      const at = i === 0 ? 'answer' : `answer.parts[${i - 1}]`;
+
+      if (!validAnswerTypes.has(part.type)) {
+        errors.push(
+          `Question ${question.questionId}: ${at}.type must be 'person', 'location', or 'fact' (got "${part.type}")`,
+        );
+        return;
+      }
+
+      if (!part.acceptedIds || part.acceptedIds.length === 0) {
+        errors.push(
+          `Question ${question.questionId}: ${at}.acceptedIds must have at least one entry`,
+        );
+        return;
+      }
+
+      switch (part.type) {
+        case 'fact': {
+          if (!part.factCategory) {
             errors.push(
-              `Question ${question.questionId}: answer.acceptedIds references unknown fact "${id}"`,
+              `Question ${question.questionId}: ${at}.factCategory is required when type is 'fact'`,
             );
-          } else {
-            const fact = facts[id];
-            if (fact?.veracity === 'false') {
+          }
+          for (const id of part.acceptedIds) {
+            if (!factIds.has(id)) {
               errors.push(
-                `Question ${question.questionId}: answer fact "${id}" has veracity "false"; only true facts may be accepted answers`,
+                `Question ${question.questionId}: ${at}.acceptedIds references unknown fact "${id}"`,
               );
-            } else if (answer.factCategory && fact && fact.category !== answer.factCategory) {
+            } else {
+              const fact = facts[id];
+              if (fact?.veracity === 'false') {
+                errors.push(
+                  `Question ${question.questionId}: answer fact "${id}" has veracity "false"; only true facts may be accepted answers`,
+                );
+              } else if (part.factCategory && fact && fact.category !== part.factCategory) {
+                errors.push(
+                  `Question ${question.questionId}: answer fact "${id}" category "${fact.category}" does not match factCategory "${part.factCategory}"`,
+                );
+              }
+            }
+          }
+          break;
+        }
+        case 'person': {
+          for (const id of part.acceptedIds) {
+            if (!characterIds.has(id)) {
               errors.push(
-                `Question ${question.questionId}: answer fact "${id}" category "${fact.category}" does not match factCategory "${answer.factCategory}"`,
+                `Question ${question.questionId}: ${at}.acceptedIds references unknown character "${id}"`,
               );
             }
           }
+          break;
         }
-        break;
-      }
-      case 'person': {
-        for (const id of answer.acceptedIds) {
-          if (!characterIds.has(id)) {
-            errors.push(
-              `Question ${question.questionId}: answer.acceptedIds references unknown character "${id}"`,
-            );
+        case 'location': {
+          for (const id of part.acceptedIds) {
+            if (!locationIds.has(id)) {
+              errors.push(
+                `Question ${question.questionId}: ${at}.acceptedIds references unknown location "${id}"`,
+              );
+            }
           }
+          break;
         }
-        break;
       }
-      case 'location': {
-        for (const id of answer.acceptedIds) {
-          if (!locationIds.has(id)) {
+
+      const aliases = part.aliases ?? {};
+      for (const id of Object.keys(aliases)) {
+        if (!part.acceptedIds.includes(id)) {
+          errors.push(
+            `Question ${question.questionId}: ${at}.aliases has key "${id}", which is not in acceptedIds`,
+          );
+        }
+      }
+      for (const id of part.acceptedIds) {
+        if (!aliases[id]?.length) {
+          warnings.push(`Question ${question.questionId}: no free-text aliases for "${id}"`);
+        }
+      }
+
+      // Names a typed answer could mean instead of the accepted one
+      const otherNames =
+        part.type === 'person'
+          ? Object.values(characters ?? {}).filter((c) => !part.acceptedIds.includes(c.characterId)).map((c) => c.name)
+          : part.type === 'location'
+            ? Object.values(locations ?? {}).filter((l) => !part.acceptedIds.includes(l.locationId)).map((l) => l.name)
+            : [];
+      for (const [id, list] of Object.entries(aliases)) {
+        for (const alias of list) {
+          const words = answerWords(alias);
+          const clash = otherNames.find((name) => {
+            const nameWords = answerWords(name);
+            return words.length > 0 && words.every((w) => nameWords.some((n) => wordMatches(n, w)));
+          });
+          if (clash) {
             errors.push(
-              `Question ${question.questionId}: answer.acceptedIds references unknown location "${id}"`,
+              `Question ${question.questionId}: alias "${alias}" for "${id}" also fits "${clash}"; use one that names only the answer`,
             );
           }
         }
-        break;
       }
-    }
+    });
   }
 
   const questionValidationResult: ValidationResult = {
@@ -5,8 +5,10 @@ import { successResponse, errorResponse, ErrorCodes } from '../shared/response';
 import type {
   GenerateCaseInput,
   DraftCase,
+  DraftUsage,
   CaseTemplate,
   PipelineStep,
+  StepProgress,
   StepValidationResult,
 } from '../shared/generation-state';
 
@@ -22,6 +24,7 @@ export interface CaseSummary {
   mysteryStyle?: string;
   atmosphere?: string;
   modelConfig?: GenerateCaseInput['modelConfig'];
+  budget?: number;
 }
 
 export interface ExecutionDetailResponse {
@@ -36,6 +39,10 @@ export interface ExecutionDetailResponse {
   lastStepStartedAt?: string;
   lastValidationResult?: StepValidationResult;
   caseSummary: CaseSummary;
+  /** Tokens and estimated cost so far, by step and by model. */
+  usage?: DraftUsage;
+  /** Live progress of the running step, when it streams. */
+  stepProgress?: StepProgress;
 }
 
 function buildCaseSummary(input: GenerateCaseInput | undefined, draft: DraftCase | null): CaseSummary {
@@ -45,6 +52,7 @@ function buildCaseSummary(input: GenerateCaseInput | undefined, draft: DraftCase
     summary.difficulty = input.difficulty;
     summary.crimeType = input.crimeType;
     summary.modelConfig = input.modelConfig;
+    summary.budget = input.budget;
   }
   const template = draft?.template as CaseTemplate | undefined;
   if (template) {
@@ -109,6 +117,8 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       lastStepStartedAt: draft?.lastStepStartedAt,
       lastValidationResult: draft?.lastValidationResult,
       caseSummary,
+      usage: draft?.usage,
+      stepProgress: draft?.stepProgress,
     };
 
     return successResponse(response);
@@ -0,0 +1,40 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { getTranscript } from '../shared/transcript-db';
+import { successResponse, errorResponse, ErrorCodes } from '../shared/response';
+
+/**
+ * GET /generation/drafts/{draftId}/transcripts/{callId} — One model call in full:
+ * prompts, extended-thinking reasoning, raw response and validated output.
+ * callId contains '#' and ':' so clients send it URL-encoded.
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    const draftId = event.pathParameters?.draftId;
+    const callId = event.pathParameters?.callId;
+    if (!draftId || !callId) {
+      return errorResponse(
+        ErrorCodes.VALIDATION_ERROR.code,
+        'draftId and callId path parameters are required',
+        ErrorCodes.VALIDATION_ERROR.status,
+      );
+    }
+
+    const transcript = await getTranscript(decodeURIComponent(draftId), decodeURIComponent(callId));
+    if (!transcript) {
+      return errorResponse(
+        ErrorCodes.NOT_FOUND.code,
+        `Transcript not found: ${callId}`,
+        ErrorCodes.NOT_FOUND.status,
+      );
+    }
+
+    return successResponse(transcript);
+  } catch (err) {
+    console.error('Get transcript error:', err);
+    return errorResponse(
+      ErrorCodes.INTERNAL_ERROR.code,
+      'Failed to get transcript',
+      ErrorCodes.INTERNAL_ERROR.status,
+    );
+  }
+}
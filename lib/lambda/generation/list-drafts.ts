@@ -5,8 +5,10 @@ import { successResponse, errorResponse, ErrorCodes } from '../shared/response';
 import type {
   GenerateCaseInput,
   DraftCase,
+  DraftUsage,
   CaseTemplate,
   PipelineStep,
+  StepProgress,
   StepValidationResult,
 } from '../shared/generation-state';
 
@@ -95,6 +97,7 @@ export interface CaseSummary {
   mysteryStyle?: string;
   atmosphere?: string;
   modelConfig?: GenerateCaseInput['modelConfig'];
+  budget?: number;
 }
 
 export interface DraftListItem {
@@ -114,6 +117,10 @@ export interface DraftListItem {
   forkedFrom?: string;
   /** Step at which this draft was forked (re-generation started here). */
   forkedAtStep?: PipelineStep;
+  /** Tokens and estimated cost so far, by step and by model. */
+  usage?: DraftUsage;
+  /** Live progress of the running step, when it streams. */
+  stepProgress?: StepProgress;
 }
 
 function executionArn(stateMachineArn: string, executionId: string): string {
@@ -131,6 +138,7 @@ function buildCaseSummary(input: GenerateCaseInput | undefined, draft: DraftCase
     summary.difficulty = input.difficulty;
     summary.crimeType = input.crimeType;
     summary.modelConfig = input.modelConfig;
+    summary.budget = input.budget;
   }
   const template = draft?.template as CaseTemplate | undefined;
   if (template) {
@@ -206,6 +214,8 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
         versionId: draftId,
         forkedFrom: draft.forkedFrom,
         forkedAtStep: draft.forkedAtStep,
+        usage: draft.usage,
+        stepProgress: draft.stepProgress,
       });
     }
 
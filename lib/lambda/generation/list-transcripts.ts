@@ -0,0 +1,43 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { listTranscripts, type ModelCallTranscript } from '../shared/transcript-db';
+import { successResponse, errorResponse, ErrorCodes } from '../shared/response';
+
+/**
+ * Transcript list item: everything except the large text fields (prompts,
+ * reasoning, raw text, tool input, output). Fetch one call via GET .../transcripts/{callId}.
+ */
+export type TranscriptSummary = Omit<
+  ModelCallTranscript,
+  'systemPrompt' | 'messages' | 'reasoning' | 'rawText' | 'toolInput' | 'output'
+>;
+
+/**
+ * GET /generation/drafts/{draftId}/transcripts — Every model call recorded for a
+ * draft, oldest first, without prompt/response bodies (they can be hundreds of KB each).
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    const draftId = event.pathParameters?.draftId;
+    if (!draftId) {
+      return errorResponse(
+        ErrorCodes.VALIDATION_ERROR.code,
+        'draftId path parameter is required',
+        ErrorCodes.VALIDATION_ERROR.status,
+      );
+    }
+
+    const transcripts = await listTranscripts(decodeURIComponent(draftId));
+    const summaries: TranscriptSummary[] = transcripts.map(
+      ({ systemPrompt: _s, messages: _m, reasoning: _r, rawText: _t, toolInput: _i, output: _o, ...summary }) => summary,
+    );
+
+    return successResponse(summaries);
+  } catch (err) {
+    console.error('List transcripts error:', err);
+    return errorResponse(
+      ErrorCodes.INTERNAL_ERROR.code,
+      'Failed to list transcripts',
+      ErrorCodes.INTERNAL_ERROR.status,
+    );
+  }
+}
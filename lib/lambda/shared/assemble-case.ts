@@ -4,10 +4,13 @@ import type { CausalEvent, EventReveal, InvolvementType, EventNecessity } from '
 import type { Character } from '../../types/character';
 import type { KnowledgeStatus } from '../../types/fact';
 import type { Location, LocationType } from '../../types/location';
-import type { CasebookEntry } from '../../types/casebook';
+import type { CasebookEntry, DirectoryListing, FollowUp, SceneSpan } from '../../types/casebook';
+import type { CaseDocument } from '../../types/document';
 import type { Fact, FactCategory } from '../../types/fact';
-import type { Question, QuestionAnswer } from '../../types/question';
+import type { AnswerKind, AnswerPart, Question, QuestionAnswer } from '../../types/question';
 import type { Difficulty } from '../../types/common';
+import { eventTimesOf } from './discovery';
+import { parseSceneMarkup } from './scene-markup';
 
 /**
  * Assembles a complete DraftCase into a final Case for storage.
@@ -86,31 +89,101 @@ export function assembleCaseFromDraft(
     };
   }
 
+  // Links to records the case doesn't have (or facts the scene doesn't reveal) are dropped; the text stays
+  const toSceneSpans = (paragraphs: SceneSpan[][], revealsFactIds: string[]) =>
+    paragraphs.map((paragraph) => paragraph.map((span): SceneSpan => ({
+      text: span.text,
+      ...(span.factId && revealsFactIds.includes(span.factId) && { factId: span.factId }),
+      ...(span.characterId && characters[span.characterId] && { characterId: span.characterId }),
+      ...(span.locationId && locations[span.locationId] && { locationId: span.locationId }),
+    })));
+
+  const followUpsByEntry: Record<string, FollowUp[]> = {};
+  for (const fu of Object.values(draft.followUps ?? {})) {
+    const scene = parseSceneMarkup(fu.scene);
+    (followUpsByEntry[fu.entryId] ??= []).push({
+      followUpId: fu.followUpId,
+      characterId: fu.characterId,
+      presentFactId: fu.presentFactId,
+      scene: scene.text,
+      sceneSpans: toSceneSpans(scene.paragraphs, fu.revealsFactIds),
+      revealsFactIds: fu.revealsFactIds,
+    });
+  }
+
   const finalCasebook: Record<string, CasebookEntry> = {};
   for (const [id, entry] of Object.entries(casebook)) {
+    const scene = parseSceneMarkup(prose[id] ?? '');
+    const sceneSpans = toSceneSpans(scene.paragraphs, entry.revealsFactIds);
     finalCasebook[id] = {
       entryId: entry.entryId,
       label: entry.label,
       address: entry.address,
       locationId: entry.locationId,
-      scene: prose[id] ?? '',
+      scene: scene.text,
+      sceneSpans,
       characterIds: entry.characterIds,
       revealsFactIds: entry.revealsFactIds,
       requiresAnyFact: entry.requiresAnyFact ?? [],
+      followUps: followUpsByEntry[id],
+      turnedAwayScene: draft.directory?.turnedAway[id],
+    };
+  }
+
+  const finalDirectory: Record<string, DirectoryListing> = {};
+  for (const [id, listing] of Object.entries(draft.directory?.listings ?? {})) {
+    finalDirectory[id] = {
+      listingId: listing.listingId,
+      label: listing.label,
+      address: listing.address,
+      scene: listing.scene,
     };
   }
 
-  const finalQuestions: Question[] = questions.map((q) => ({
-    questionId: q.questionId,
-    text: q.text,
-    answer: {
-      type: q.answer.type as 'person' | 'location' | 'fact',
-      factCategory: q.answer.factCategory as FactCategory | undefined,
-      acceptedIds: q.answer.acceptedIds,
-    } satisfies QuestionAnswer,
-    points: q.points,
-    difficulty: q.difficulty as Difficulty,
-  }));
+  const finalDocuments: Record<string, CaseDocument> = {};
+  for (const [id, doc] of Object.entries(draft.documents ?? {})) {
+    const text = parseSceneMarkup(doc.text);
+    finalDocuments[id] = {
+      documentId: doc.documentId,
+      kind: doc.kind,
+      title: doc.title,
+      text: text.text,
+      textSpans: toSceneSpans(text.paragraphs, doc.revealsFactIds),
+      revealsFactIds: doc.revealsFactIds,
+      requiresAnyFact: doc.requiresAnyFact,
+    };
+  }
+
+  const finalQuestions: Question[] = questions.map((q) => {
+    // Timeline answers carry their facts' event times, and list the facts earliest first
+    const eventTimes = q.answer.kind === 'timeline'
+      ? eventTimesOf(q.answer.acceptedIds, draft.factSkeletons ?? [], events)
+      : undefined;
+    return {
+      questionId: q.questionId,
+      text: q.text,
+      answer: {
+        kind: q.answer.kind as AnswerKind | undefined,
+        label: q.answer.label,
+        parts: q.answer.parts?.map((part) => ({
+          label: part.label,
+          type: part.type as 'person' | 'location' | 'fact',
+          factCategory: part.factCategory as FactCategory | undefined,
+          acceptedIds: part.acceptedIds,
+          aliases: part.aliases,
+        }) satisfies AnswerPart),
+        type: q.answer.type as 'person' | 'location' | 'fact',
+        factCategory: q.answer.factCategory as FactCategory | undefined,
+        acceptedIds: eventTimes
+          ? [...q.answer.acceptedIds].sort((a, b) => (eventTimes[a] ?? 0) - (eventTimes[b] ?? 0))
+          : q.answer.acceptedIds,
+        aliases: q.answer.aliases,
+        eventTimes,
+      } satisfies QuestionAnswer,
+      points: q.points,
+      difficulty: q.difficulty as Difficulty,
+    };
+  });
 
   return {
     caseDate,
@@ -126,10 +199,17 @@ export function assembleCaseFromDraft(
     characters: finalCharacters,
     locations: finalLocations,
     casebook: finalCasebook,
+    directory: draft.directory ? finalDirectory : undefined,
+    documents: draft.documents ? finalDocuments : undefined,
     facts: finalFacts,
     questions: finalQuestions,
     introductionFactIds,
     optimalPath,
+    optimalPathProven: draft.optimalPathProven,
+    pathAnalysis: draft.pathAnalysis,
+    solution: draft.solution,
     difficulty: template.difficulty as Difficulty,
+    difficultyAnalysis: draft.difficultyAnalysis,
+    simulation: draft.simulation,
   };
 }
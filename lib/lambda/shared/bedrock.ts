@@ -1,20 +1,32 @@
+import { z } from 'zod';
 import {
-  BedrockRuntimeClient,
-  ConverseCommand,
-  type Message,
-  type ContentBlock,
-  type TokenUsage,
-  type InferenceConfiguration,
-} from '@aws-sdk/client-bedrock-runtime';
-import type { DocumentType } from '@smithy/types';
-import type { GenerationModelConfig, GenerationStep } from './generation-state';
+  MIN_ANSWER_TOKENS,
+  type GenerationModelConfig,
+  type ModelStep,
+  type StepModelSettings,
+} from './generation-state';
+import {
+  getModelProvider,
+  type ModelMessage,
+  type ModelResponse,
+  type ModelStreamDelta,
+  type ModelTool,
+  type ModelUsage,
+} from './model-provider';
+import { putTranscript, type ModelCallTranscript } from './transcript-db';
+import { addDraftUsage, getDraft } from './draft-db';
+import {
+  buildRepairSchema,
+  findRepairUnits,
+  formatZodIssues,
+  mergeRepairs,
+  type RepairUnit,
+} from './output-repair';
 
 // ============================================
-// Client
+// Defaults
 // ============================================
 
-const client = new BedrockRuntimeClient({});
-
 /** Env-var fallback when no config is provided at all */
 const DEFAULT_MODEL_ID = process.env.BEDROCK_DEFAULT_MODEL_ID ?? 'us.anthropic.claude-haiku-4-5-20251001-v1:0';
 
@@ -32,6 +44,35 @@ export const MODEL_SHORTCUTS: Record<string, string> = {
   opus41: 'us.anthropic.claude-opus-4-1-20250805-v1:0',
 };
 
+// ============================================
+// Model Pricing
+// ============================================
+
+/**
+ * On-demand price in USD per million tokens, keyed by full inference profile ID.
+ * Thinking tokens are billed as output. Used for per-draft cost accounting and
+ * budget checks, so keep in step with MODEL_SHORTCUTS when adding models.
+ *
+ * Source: https://aws.amazon.com/bedrock/pricing/
+ */
+export const MODEL_PRICING: Record<string, { inputPerMTok: number; outputPerMTok: number }> = {
+  'us.anthropic.claude-haiku-4-5-20251001-v1:0': { inputPerMTok: 1, outputPerMTok: 5 },
+  'us.anthropic.claude-sonnet-4-5-20250929-v1:0': { inputPerMTok: 3, outputPerMTok: 15 },
+  'us.anthropic.claude-sonnet-4-20250514-v1:0': { inputPerMTok: 3, outputPerMTok: 15 },
+  'us.anthropic.claude-opus-4-6-v1': { inputPerMTok: 5, outputPerMTok: 25 },
+  'us.anthropic.claude-opus-4-5-20251101-v1:0': { inputPerMTok: 5, outputPerMTok: 25 },
+  'us.anthropic.claude-opus-4-1-20250805-v1:0': { inputPerMTok: 15, outputPerMTok: 75 },
+};
+
+/** Unknown models are priced like the most expensive known one, so budgets err on the safe side. */
+const DEFAULT_PRICING = { inputPerMTok: 15, outputPerMTok: 75 };
+
+/** Estimated cost in USD of one call's token usage. */
+export function estimateCostUsd(modelId: string, inputTokens: number, outputTokens: number): number {
+  const pricing = MODEL_PRICING[modelId] ?? DEFAULT_PRICING;
+  return (inputTokens * pricing.inputPerMTok + outputTokens * pricing.outputPerMTok) / 1_000_000;
+}
+
 function expandModelId(idOrShortcut: string): string {
   const lower = idOrShortcut.toLowerCase().trim();
   return MODEL_SHORTCUTS[lower] ?? idOrShortcut;
@@ -43,8 +84,9 @@ function expandModelId(idOrShortcut: string): string {
 
 /**
  * Maximum output tokens (thinking + text combined) for each model.
- * Used to set maxTokens to the model's ceiling so output is never truncated.
- * The thinking budget is set to half the max, leaving the other half for text.
+ * maxTokens defaults to the model's ceiling so output is never truncated, and
+ * the thinking budget to half of that, leaving the other half for text. Steps
+ * can lower either via StepModelSettings (see resolveInferenceSettings).
  *
  * Source: https://platform.claude.com/docs/en/about-claude/models/overview
  *
@@ -80,11 +122,20 @@ function getModelMaxOutputTokens(modelId: string): number {
 // Model Resolution
 // ============================================
 
+/** The step's entry in modelConfig.steps, normalised (a bare string is just a model). */
+function getStepSettings(
+  stepName: ModelStep,
+  modelConfig?: GenerationModelConfig,
+): StepModelSettings {
+  const entry = modelConfig?.steps?.[stepName];
+  return typeof entry === 'string' ? { model: entry } : entry ?? {};
+}
+
 /**
  * Resolve which Bedrock model ID to use for a given pipeline step.
  *
  * Priority (highest first):
- *   1. Per-step override in modelConfig.steps[stepName]
+ *   1. Per-step override in modelConfig.steps[stepName] (string or settings.model)
  *   2. modelConfig.default
  *   3. BEDROCK_DEFAULT_MODEL_ID env var
  *   4. Hard-coded fallback (Claude Haiku 4.5)
@@ -92,33 +143,96 @@ function getModelMaxOutputTokens(modelId: string): number {
  * Both full inference profile IDs and shortcuts (e.g. "haiku", "sonnet") are accepted.
  */
 export function resolveModelId(
-  stepName: GenerationStep,
+  stepName: ModelStep,
   modelConfig?: GenerationModelConfig,
 ): string {
   const raw =
-    modelConfig?.steps?.[stepName]
+    getStepSettings(stepName, modelConfig).model
     ?? modelConfig?.default
     ?? DEFAULT_MODEL_ID;
   return expandModelId(raw);
 }
 
+export interface InferenceSettings {
+  maxTokens: number;
+  /** Extended thinking budget; undefined when thinking is off. */
+  thinkingBudget?: number;
+  /** Only set when thinking is off (Bedrock rejects temperature with thinking). */
+  temperature?: number;
+}
+
+/**
+ * Resolve token limits, thinking and temperature for a step from its
+ * StepModelSettings. Defaults: thinking on, maxTokens at the model's ceiling
+ * (so output is never truncated), thinking budget half of maxTokens.
+ * maxTokens is clamped to the model's maximum and the thinking budget to
+ * MIN_ANSWER_TOKENS below maxTokens, leaving room for the JSON.
+ */
+export function resolveInferenceSettings(
+  stepName: ModelStep,
+  modelConfig: GenerationModelConfig | undefined,
+  modelId: string,
+  defaultTemperature: number,
+): InferenceSettings {
+  const settings = getStepSettings(stepName, modelConfig);
+  const modelMax = getModelMaxOutputTokens(modelId);
+  const maxTokens = Math.min(settings.maxTokens ?? modelMax, modelMax);
+
+  if (settings.thinking === false) {
+    return { maxTokens, temperature: settings.temperature ?? defaultTemperature };
+  }
+
+  const thinkingBudget = Math.min(settings.thinkingBudget ?? Math.floor(maxTokens / 2), maxTokens - MIN_ANSWER_TOKENS);
+  return { maxTokens, thinkingBudget };
+}
+
 // ============================================
 // callModel — structured JSON generation
 // ============================================
 
 export interface CallModelOptions {
   /** Pipeline step name — used for model resolution and logging */
-  stepName: GenerationStep;
+  stepName: ModelStep;
+  /** Draft being generated — each attempt is saved as a transcript record under it */
+  draftId?: string;
+  /**
+   * Distinguishes calls a step makes in parallel or in sequence (e.g. "brief",
+   * "batch 2/5"). Shown in logs and transcripts and part of the transcript callId.
+   */
+  label?: string;
   /** System prompt providing context and instructions */
   systemPrompt: string;
   /** User message with the specific generation request */
   userPrompt: string;
   /** Per-step model config (passed through the generation state) */
   modelConfig?: GenerationModelConfig;
-  /** Temperature. Defaults to 0.7 for creative generation. Ignored when thinking is enabled (always enabled). */
+  /** Temperature when the step runs with thinking off and sets none. Defaults to 0.7. Ignored with thinking on. */
   temperature?: number;
   /** Number of retry attempts for malformed JSON. Defaults to 2. */
   maxRetries?: number;
+  /**
+   * Schema of the step's output. When given, the model answers through a tool
+   * whose input is this schema (unless the step's outputMode is 'text'), so
+   * the JSON arrives as a structured tool-use block instead of being cut out
+   * of free text. Pass the same schema `validate` parses with.
+   */
+  outputSchema?: z.ZodType;
+  /**
+   * Stream the response and report progress as it arrives (called per chunk,
+   * so throttle anything expensive). Restarts from zero on a retry attempt.
+   */
+  onProgress?: (progress: CallModelProgress) => void;
+}
+
+export interface CallModelProgress {
+  /** 1-based attempt the progress belongs to. */
+  attempt: number;
+  /** UTF-8 bytes of extended-thinking text received so far. */
+  reasoningBytes: number;
+  /** UTF-8 bytes of response text received so far. */
+  textBytes: number;
+  /** Response text received so far (partial JSON). */
+  text: string;
 }
 
 export interface CallModelResult<T> {
@@ -133,14 +247,29 @@ export interface CallModelResult<T> {
 }
 
 /**
- * Call a Bedrock model and parse the response as JSON.
+ * Call a model and parse the response as JSON.
+ *
+ * The call goes through the active ModelProvider (Bedrock by default; see
+ * setModelProvider), so the same handlers can replay recorded fixtures offline.
  *
  * The model is encouraged to think through its creative decisions before
  * producing JSON. The reasoning preamble is captured and logged separately
  * from the JSON output.
  *
+ * With `outputSchema`, the schema is sent as an output tool and the tool-use
+ * input is validated. If the model answers in text instead (it may, when
+ * extended thinking rules out forcing the tool), the text path below is used.
+ *
  * On malformed JSON, the function retries with an error-correcting follow-up
- * message up to `maxRetries` times.
+ * message up to `maxRetries` times. Schema failures are reported per field
+ * (path, expected, received). When every issue lies inside record or array
+ * entries of `outputSchema`, the retry asks only for those entries and merges
+ * them back (see output-repair) instead of regenerating the whole payload.
+ *
+ * When `draftId` is given, every attempt (prompts, reasoning, output or error,
+ * usage, latency) is saved as a transcript record linked to the draft, its
+ * tokens and cost are added to the draft's usage, and the call is refused
+ * once the draft has spent its input.budget.
  *
  * @param options - Call configuration
  * @param validate - A function that validates and returns the parsed data (e.g. Zod .parse())
@@ -152,65 +281,110 @@ export async function callModel<T>(
 ): Promise<CallModelResult<T>> {
   const {
     stepName,
+    draftId,
+    label,
     systemPrompt,
     userPrompt,
     modelConfig,
     temperature = 0.7,
     maxRetries = 2,
+    outputSchema,
+    onProgress,
   } = options;
 
   const modelId = resolveModelId(stepName, modelConfig);
+  const { maxTokens, thinkingBudget, temperature: stepTemperature } =
+    resolveInferenceSettings(stepName, modelConfig, modelId, temperature);
 
-  // Resolve token limits from the model's maximum — no per-step budgets needed.
-  // Extended thinking is always enabled; budget gets half the model's max.
-  const modelMax = getModelMaxOutputTokens(modelId);
-  const thinkingTokens = Math.floor(modelMax / 2);
-  const maxTokens = modelMax;
+  const outputTool = outputSchema && getStepSettings(stepName, modelConfig).outputMode !== 'text'
+    ? buildOutputTool(outputSchema)
+    : undefined;
+  const stepSystemPrompt = outputTool ? `${systemPrompt}\n\n${outputTool.instructions}` : systemPrompt;
 
-  const messages: Message[] = [
-    {
-      role: 'user',
-      content: [{ text: userPrompt }],
-    },
-  ];
+  const provider = getModelProvider();
+  const messages: ModelMessage[] = [{ role: 'user', text: userPrompt }];
 
   let lastError: Error | undefined;
   let rawText = '';
+  /** Set when the next attempt only re-asks for the failing entries of `base`. */
+  let repair: { base: unknown; units: RepairUnit[]; error: Error; issues?: string } | undefined;
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     const startMs = Date.now();
-
-    // Build inference config — temperature is incompatible with extended thinking
-    const inferenceConfig: InferenceConfiguration = { maxTokens };
-
-    // Extended thinking is always enabled
-    const additionalModelRequestFields: DocumentType = {
-      thinking: {
-        type: 'enabled',
-        budget_tokens: thinkingTokens,
-      },
-    };
-
-    const command = new ConverseCommand({
-      modelId,
-      system: [{ text: systemPrompt }],
-      messages,
-      inferenceConfig,
-      additionalModelRequestFields,
-    });
-
-    const response = await client.send(command);
+    const startedAt = new Date(startMs).toISOString();
+    const sentMessages = [...messages];
+    const attemptRepair = repair;
+    const attemptTool = attemptRepair && outputTool
+      ? buildOutputTool(buildRepairSchema(attemptRepair.units))
+      : outputTool;
+
+    if (draftId) await assertWithinBudget(draftId, stepName);
+
+    const progress: CallModelProgress = { attempt: attempt + 1, reasoningBytes: 0, textBytes: 0, text: '' };
+    const onDelta = onProgress
+      ? (delta: ModelStreamDelta) => {
+          const bytes = Buffer.byteLength(delta.text, 'utf-8');
+          if (delta.kind === 'reasoning') {
+            progress.reasoningBytes += bytes;
+          } else {
+            progress.textBytes += bytes;
+            progress.text += delta.text;
+          }
+          onProgress(progress);
+        }
+      : undefined;
+
+    let response: ModelResponse;
+    try {
+      response = await provider.converse(
+        {
+          stepName,
+          modelId,
+          systemPrompt: stepSystemPrompt,
+          messages: sentMessages,
+          maxTokens,
+          thinkingBudget,
+          temperature: stepTemperature,
+          outputTool: attemptTool?.tool,
+        },
+        onDelta,
+      );
+    } catch (err) {
+      if (!attemptRepair) throw err;
+      // A rejected or failed repair call falls back to a full retry
+      lastError = err instanceof Error ? err : new Error(String(err));
+      console.error(
+        `[${stepName}] Repair call failed (attempt ${attempt + 1}/${maxRetries + 1}): ${lastError.message}`,
+      );
+      repair = undefined;
+      messages[messages.length - 1] = {
+        role: 'user',
+        text: buildCorrectionPrompt(attemptRepair.error, attemptRepair.issues, null, outputTool !== undefined),
+      };
+      continue;
+    }
+    const { reasoning, text, toolInput, usage } = response;
     const latencyMs = Date.now() - startMs;
-    const usage = response.usage;
+    const usedTool = attemptTool !== undefined && toolInput !== undefined;
+    rawText = usedTool ? JSON.stringify(toolInput) : text;
 
-    // Extract reasoning and text from the response content blocks
-    const { reasoning, text } = extractContent(response.output?.message?.content);
-    rawText = text;
+    if (outputTool && !usedTool) {
+      console.warn(`[${stepName}] Model answered without the output tool; extracting JSON from text`);
+    }
+
+    if (draftId && usage) {
+      await addDraftUsage(draftId, stepName, modelId, {
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        costUsd: estimateCostUsd(modelId, usage.inputTokens, usage.outputTokens),
+      });
+    }
 
     // Extended thinking separates reasoning into its own content block.
     // The text block should be pure JSON, but we still run through
     // splitReasoningAndJson in case the model wrapped it in a fence.
-    const split = splitReasoningAndJson(text);
+    // In tool mode any text is preamble; the JSON is the tool input.
+    const split = usedTool ? { reasoning: text.trim(), jsonStr: '' } : splitReasoningAndJson(text);
     const jsonStr = split.jsonStr;
     const rawTextPreamble = split.reasoning;
     const extractedReasoning = reasoning
@@ -222,7 +396,9 @@ export async function callModel<T>(
     // Log the call details (reasoning = API extended-thinking only; rawTextPreamble = text before JSON)
     logCall({
       stepName,
+      label,
       modelId,
+      provider: provider.name,
       attempt: attempt + 1,
       maxAttempts: maxRetries + 1,
       latencyMs,
@@ -230,42 +406,68 @@ export async function callModel<T>(
       reasoning,
       rawTextLength: text.length,
       rawTextPreamble,
-      systemPrompt,
+      systemPrompt: stepSystemPrompt,
       userPrompt,
       maxTokens,
-      thinkingBudget: thinkingTokens,
+      thinkingBudget: thinkingBudget ?? 0,
     });
 
-    // Try to parse JSON from the response
+    const transcript: ModelCallTranscript | undefined = draftId
+      ? {
+          draftId,
+          callId: `${startedAt}#${stepName}${label ? `#${label}` : ''}#${attempt + 1}`,
+          stepName,
+          label,
+          attempt: attempt + 1,
+          maxAttempts: maxRetries + 1,
+          modelId,
+          provider: provider.name,
+          startedAt,
+          latencyMs,
+          usage,
+          maxTokens,
+          thinkingBudget,
+          temperature: stepTemperature,
+          systemPrompt: stepSystemPrompt,
+          messages: sentMessages,
+          reasoning,
+          rawText: text,
+          toolInput,
+          repairPaths: attemptRepair?.units.map((u) => u.label),
+        }
+      : undefined;
+
+    // Try to parse JSON from the response (merged into the previous output on a repair attempt)
+    let parsed: unknown;
     try {
-      const parsed = JSON.parse(jsonStr);
+      const raw = usedTool ? attemptTool.unwrap(toolInput) : JSON.parse(jsonStr);
+      parsed = attemptRepair ? mergeRepairs(attemptRepair.base, attemptRepair.units, raw) : raw;
       const data = validate(parsed);
-      return { data, modelId, rawText: text, reasoning: extractedReasoning };
+      if (transcript) await saveTranscript({ ...transcript, output: data });
+      return { data, modelId, rawText, reasoning: extractedReasoning };
     } catch (err) {
       lastError = err instanceof Error ? err : new Error(String(err));
+      const issues = err instanceof z.ZodError ? formatZodIssues(err, parsed) : undefined;
+      if (transcript) await saveTranscript({ ...transcript, error: issues ?? lastError.message });
 
       console.error(
-        `[${stepName}] JSON parse/validation failed (attempt ${attempt + 1}/${maxRetries + 1}): ${lastError.message}`,
+        `[${stepName}] JSON parse/validation failed (attempt ${attempt + 1}/${maxRetries + 1}): ${issues ?? lastError.message}`,
       );
 
+      // A repair response that didn't parse is asked for again as a repair
+      const units = parsed === undefined
+        ? attemptRepair?.units ?? null
+        : outputSchema && err instanceof z.ZodError ? findRepairUnits(outputSchema, err) : null;
+      repair = units ? { base: parsed ?? attemptRepair?.base, units, error: lastError, issues } : undefined;
+
       if (attempt < maxRetries) {
         // Add the model's failed response and a correction request.
         // The assistant text may be empty when thinking consumed the entire response —
         // Bedrock rejects blank text fields, so fall back to a placeholder.
         const assistantText = rawText.trim() || '[empty response]';
         messages.push(
-          {
-            role: 'assistant',
-            content: [{ text: assistantText }],
-          },
-          {
-            role: 'user',
-            content: [
-              {
-                text: `Your previous response was not valid JSON or failed validation. Error: ${lastError.message}\n\nPlease try again. Provide ONLY the corrected JSON with no other text.`,
-              },
-            ],
-          },
+          { role: 'assistant', text: assistantText },
+          { role: 'user', text: buildCorrectionPrompt(lastError, issues, units, outputTool !== undefined) },
         );
       }
     }
@@ -277,6 +479,121 @@ export async function callModel<T>(
   );
 }
 
+// ============================================
+// Structured Output
+// ============================================
+
+/** Name of the tool the model submits its structured output through. */
+const OUTPUT_TOOL_NAME = 'submit_output';
+
+/** Tool inputs must be objects, so array outputs are wrapped under this key. */
+const WRAPPED_OUTPUT_KEY = 'items';
+
+interface OutputTool {
+  tool: ModelTool;
+  /** Appended to the system prompt so the model knows to answer through the tool. */
+  instructions: string;
+  /** Turn the tool input back into the value the step's schema expects. */
+  unwrap: (toolInput: unknown) => unknown;
+}
+
+/**
+ * Convert a step's Zod schema into the output tool definition. The JSON
+ * Schema describes the schema's input side, since that is what the model
+ * writes; refinements that JSON Schema can't express are left to `validate`.
+ */
+function buildOutputTool(schema: z.ZodType): OutputTool {
+  const { $schema: _, ...jsonSchema } = z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' });
+  const wrapped = jsonSchema.type !== 'object';
+
+  return {
+    tool: {
+      name: OUTPUT_TOOL_NAME,
+      description: 'Submit the final JSON output for this step.',
+      inputSchema: wrapped
+        ? { type: 'object', properties: { [WRAPPED_OUTPUT_KEY]: jsonSchema }, required: [WRAPPED_OUTPUT_KEY] }
+        : jsonSchema,
+    },
+    instructions: wrapped
+      ? `Submit your final output by calling the ${OUTPUT_TOOL_NAME} tool with the JSON array described above as its "${WRAPPED_OUTPUT_KEY}" field, instead of writing the JSON as text.`
+      : `Submit your final output by calling the ${OUTPUT_TOOL_NAME} tool with the JSON described above as its input, instead of writing the JSON as text.`,
+    unwrap: (toolInput) => {
+      // A truncated stream leaves the input as an unparseable string; parsing it
+      // here surfaces the JSON error to the correction loop like the text path
+      const input = typeof toolInput === 'string' ? JSON.parse(toolInput) : toolInput;
+      return wrapped ? (input as Record<string, unknown> | null)?.[WRAPPED_OUTPUT_KEY] : input;
+    },
+  };
+}
+
+/**
+ * Follow-up message after a failed attempt. With repair units, asks only for
+ * those entries; otherwise for the whole output again. `issues` is the
+ * formatted Zod issue list when validation (rather than JSON parsing) failed.
+ */
+function buildCorrectionPrompt(
+  error: Error,
+  issues: string | undefined,
+  units: RepairUnit[] | null,
+  toolMode: boolean,
+): string {
+  const problem = issues
+    ? `failed validation:\n${issues}`
+    : `was not valid JSON. Error: ${error.message}`;
+
+  if (units) {
+    const keys = units.map((u) => `"${u.key}" for ${u.label}`).join(', ');
+    const format = `a JSON object with one key per entry (${keys}), where each value is the complete corrected entry`;
+    return `Your previous output ${problem}\n\n` +
+      `${units.length === 1 ? 'Only this entry needs' : `Only these ${units.length} entries need`} fixing; everything else is kept from your previous output, so do not repeat it. ` +
+      (toolMode
+        ? `Call ${OUTPUT_TOOL_NAME} with ${format}.`
+        : `Provide ONLY ${format}, with no other text.`);
+  }
+
+  return toolMode
+    ? `Your previous ${OUTPUT_TOOL_NAME} input ${problem}\n\nPlease call ${OUTPUT_TOOL_NAME} again with the corrected input.`
+    : `Your previous response ${problem}\n\nPlease try again. Provide ONLY the corrected JSON with no other text.`;
+}
+
+// ============================================
+// Budget
+// ============================================
+
+/**
+ * Throw if the draft has already spent its budget (input.budget, USD).
+ * Checked before every attempt, so a run stops at the first call past the cap
+ * rather than after the step finishes.
+ */
+async function assertWithinBudget(draftId: string, stepName: ModelStep): Promise<void> {
+  const draft = await getDraft(draftId);
+  const budget = draft?.input?.budget;
+  const spent = draft?.usage?.costUsd ?? 0;
+  if (budget !== undefined && spent >= budget) {
+    throw new Error(
+      `Budget exceeded before step "${stepName}": spent $${spent.toFixed(4)} of $${budget.toFixed(2)}`,
+    );
+  }
+}
+
+// ============================================
+// Transcripts
+// ============================================
+
+/**
+ * Persist a transcript record. Best-effort: a failed write is logged and
+ * never fails the generation step.
+ */
+async function saveTranscript(record: ModelCallTranscript): Promise<void> {
+  try {
+    await putTranscript(record);
+  } catch (err) {
+    console.error(
+      `[${record.stepName}] Failed to save transcript ${record.callId}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+}
+
 // ============================================
 // Logging
 // ============================================
@@ -290,7 +607,7 @@ const LOG_CHUNK_CHARS = 200_000;
  * Log a potentially long string in chunks so no single event exceeds CloudWatch's limit.
  * Each chunk is prefixed with a header so readers can reassemble or skip.
  */
-function logChunked(stepName: GenerationStep, label: string, body: string): void {
+function logChunked(stepName: ModelStep, label: string, body: string): void {
   if (!body) return;
   if (body.length <= LOG_CHUNK_CHARS) {
     console.log(`[${stepName}] --- ${label} ---`);
@@ -309,12 +626,14 @@ function logChunked(stepName: GenerationStep, label: string, body: string): void
 }
 
 interface LogCallParams {
-  stepName: GenerationStep;
+  stepName: ModelStep;
+  label?: string;
   modelId: string;
+  provider: string;
   attempt: number;
   maxAttempts: number;
   latencyMs: number;
-  usage?: TokenUsage;
+  usage?: ModelUsage;
   reasoning: string;
   /** Length of full raw text (for token estimates). */
   rawTextLength: number;
@@ -323,13 +642,16 @@ interface LogCallParams {
   systemPrompt: string;
   userPrompt: string;
   maxTokens: number;
+  /** 0 when thinking is off. */
   thinkingBudget: number;
 }
 
 function logCall(params: LogCallParams): void {
   const {
     stepName,
+    label,
     modelId,
+    provider,
     attempt,
     maxAttempts,
     latencyMs,
@@ -363,7 +685,9 @@ function logCall(params: LogCallParams): void {
     JSON.stringify({
       event: 'bedrock_call',
       step: stepName,
+      label,
       model: modelId,
+      provider,
       attempt: `${attempt}/${maxAttempts}`,
       latencyMs,
       tokens: {
@@ -401,37 +725,6 @@ function logCall(params: LogCallParams): void {
 // Helpers
 // ============================================
 
-/**
- * Extract reasoning and text content from Bedrock Converse response content blocks.
- *
- * Extended thinking is always enabled, so the response contains separate
- * `reasoningContent` and `text` content blocks.
- */
-function extractContent(content?: ContentBlock[]): { reasoning: string; text: string } {
-  if (!content) return { reasoning: '', text: '' };
-
-  const reasoningParts: string[] = [];
-  const textParts: string[] = [];
-
-  for (const block of content) {
-    if ('reasoningContent' in block && block.reasoningContent) {
-      // Extended thinking block
-      const rc = block.reasoningContent;
-      if ('reasoningText' in rc && rc.reasoningText?.text) {
-        reasoningParts.push(rc.reasoningText.text);
-      }
-      // redactedContent blocks are encrypted — nothing useful to extract
-    } else if ('text' in block && typeof block.text === 'string') {
-      textParts.push(block.text);
-    }
-  }
-
-  return {
-    reasoning: reasoningParts.join('\n'),
-    text: textParts.join(''),
-  };
-}
-
 /**
  * Split a model response into reasoning preamble and JSON content.
  *
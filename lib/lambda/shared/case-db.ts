@@ -0,0 +1,39 @@
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, CASES_TABLE } from './db';
+import type { Case } from '../../types/case';
+
+/**
+ * Storage backend for published cases. Mirrors DraftStore in draft-db: the
+ * Lambdas write to the Cases table; the local pipeline runner swaps in a
+ * JSON-file store via setCaseStore.
+ */
+export interface CaseStore {
+  put(finalCase: Case): Promise<void>;
+}
+
+/** Default store: the Cases DynamoDB table (keyed by caseDate). */
+export const dynamoCaseStore: CaseStore = {
+  async put(finalCase) {
+    await docClient.send(
+      new PutCommand({
+        TableName: CASES_TABLE,
+        Item: finalCase,
+      }),
+    );
+  },
+};
+
+let caseStore: CaseStore = dynamoCaseStore;
+
+/** Replace the case store for this process (e.g. the local file store). */
+export function setCaseStore(store: CaseStore): void {
+  caseStore = store;
+}
+
+/**
+ * Write a final Case. Overwrites any existing case for the same caseDate.
+ * Shared by StoreCase (pipeline step) and publish-draft Lambda.
+ */
+export async function putCase(finalCase: Case): Promise<void> {
+  await caseStore.put(finalCase);
+}
@@ -0,0 +1,123 @@
+import { answerParts } from '../../game/session';
+import type {
+  DocumentDraft,
+  EventDraft,
+  FactDraft,
+  FactSkeleton,
+  FollowUpDraft,
+  QuestionDraft,
+} from './generation-state';
+
+/**
+ * Helpers for walking the discovery graph the way a player does: facts unlock
+ * entries and documents, which reveal more facts.
+ */
+
+/**
+ * Add the facts of every document readable with `factIds` (ungated, or any
+ * gate fact known) to `factIds`, repeating until no new document opens.
+ * Returns the documentIds read, in the order they opened.
+ */
+export function readAvailableDocuments(factIds: Set<string>, documents: DocumentDraft[]): string[] {
+  const read: string[] = [];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const doc of documents) {
+      if (read.includes(doc.documentId)) continue;
+      if (doc.requiresAnyFact.length > 0 && !doc.requiresAnyFact.some((fid) => factIds.has(fid))) continue;
+      read.push(doc.documentId);
+      changed = true;
+      for (const fid of doc.revealsFactIds) factIds.add(fid);
+    }
+  }
+  return read;
+}
+
+/**
+ * Add the facts of every follow-up triggerable with `factIds` (its entry
+ * visited and its evidence fact known) to `factIds`. Confronting a character
+ * costs no visit, like reading a document. Returns the followUpIds triggered,
+ * in the order they fired.
+ */
+export function triggerAvailableFollowUps(
+  factIds: Set<string>,
+  visitedEntryIds: ReadonlySet<string>,
+  followUps: FollowUpDraft[],
+): string[] {
+  const triggered: string[] = [];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const fu of followUps) {
+      if (triggered.includes(fu.followUpId)) continue;
+      if (!visitedEntryIds.has(fu.entryId) || !factIds.has(fu.presentFactId)) continue;
+      triggered.push(fu.followUpId);
+      changed = true;
+      for (const fid of fu.revealsFactIds) factIds.add(fid);
+    }
+  }
+  return triggered;
+}
+
+/**
+ * Everything learned without another visit: documents and follow-ups, until
+ * neither opens anything new (each can open the other).
+ */
+export function learnWithoutVisiting(
+  factIds: Set<string>,
+  visitedEntryIds: ReadonlySet<string>,
+  documents: DocumentDraft[],
+  followUps: FollowUpDraft[],
+): void {
+  let size = -1;
+  while (size !== factIds.size) {
+    size = factIds.size;
+    readAvailableDocuments(factIds, documents);
+    triggerAvailableFollowUps(factIds, visitedEntryIds, followUps);
+  }
+}
+
+/**
+ * True when the known facts let a player answer the question in full. A fact
+ * is found by knowing it; a person or place by knowing any fact about them.
+ * Multi, ordered and timeline answers need every accepted answer found, others
+ * one per part.
+ */
+export function isQuestionSatisfied(
+  question: QuestionDraft,
+  factIds: Set<string>,
+  facts: Record<string, FactDraft>,
+): boolean {
+  const found = (type: string, id: string): boolean => {
+    if (type === 'fact') return factIds.has(id);
+    for (const fid of factIds) {
+      if (facts[fid]?.subjects.includes(id)) return true;
+    }
+    return false;
+  };
+  const needsAll = ['multi', 'ordered', 'timeline'].includes(question.answer.kind ?? '');
+  return answerParts(question.answer).every((part) =>
+    needsAll
+      ? part.acceptedIds.every((id) => found(part.type, id))
+      : part.acceptedIds.some((id) => found(part.type, id)),
+  );
+}
+
+/**
+ * When each fact happened: the timestamp of the event that reveals it (its
+ * skeleton's event_reveal source). Facts with another source are left out.
+ */
+export function eventTimesOf(
+  factIds: string[],
+  factSkeletons: FactSkeleton[],
+  events: Record<string, EventDraft>,
+): Record<string, number> {
+  const times: Record<string, number> = {};
+  for (const fid of factIds) {
+    const source = factSkeletons.find((s) => s.factId === fid)?.source;
+    const event = source?.type === 'event_reveal' ? events[source.eventId] : undefined;
+    if (event) times[fid] = event.timestamp;
+  }
+  return times;
+}
@@ -4,22 +4,88 @@ import {
   PIPELINE_STEPS,
   STEP_DRAFT_FIELDS,
   type DraftCase,
+  type DraftUsage,
+  type ModelStep,
   type PipelineStep,
+  type StepProgress,
+  type UsageTotals,
 } from './generation-state';
 
+// ============================================
+// Draft Store
+// ============================================
+
+/**
+ * Storage backend for drafts. The Lambdas use the DynamoDB store; the local
+ * pipeline runner swaps in a JSON-file store via setDraftStore so the same
+ * step handlers run without AWS.
+ */
+export interface DraftStore {
+  get(draftId: string): Promise<DraftCase | null>;
+  put(draftId: string, draft: DraftCase): Promise<void>;
+  list(limit: number): Promise<DraftCase[]>;
+  delete(draftId: string): Promise<void>;
+}
+
+/** Default store: the DraftCases DynamoDB table. */
+export const dynamoDraftStore: DraftStore = {
+  async get(draftId) {
+    const result = await docClient.send(
+      new GetCommand({
+        TableName: DRAFT_CASES_TABLE,
+        Key: { draftId },
+      }),
+    );
+    if (!result.Item) return null;
+    return { ...result.Item, draftId: result.Item.draftId ?? draftId } as DraftCase;
+  },
+
+  async put(draftId, draft) {
+    await docClient.send(
+      new PutCommand({
+        TableName: DRAFT_CASES_TABLE,
+        Item: { ...draft, draftId },
+      }),
+    );
+  },
+
+  async list(limit) {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: DRAFT_CASES_TABLE,
+        Limit: limit,
+      }),
+    );
+    return (result.Items ?? []) as DraftCase[];
+  },
+
+  async delete(draftId) {
+    await docClient.send(
+      new DeleteCommand({
+        TableName: DRAFT_CASES_TABLE,
+        Key: { draftId },
+      }),
+    );
+  },
+};
+
+let draftStore: DraftStore = dynamoDraftStore;
+
+/** Replace the draft store for this process (e.g. the local file store). */
+export function setDraftStore(store: DraftStore): void {
+  draftStore = store;
+}
+
+// ============================================
+// Draft Operations
+// ============================================
+
 /**
  * Load the draft case for a generation run. Returns null if no draft exists yet
  * (e.g. before the first step has run).
  */
 export async function getDraft(draftId: string): Promise<DraftCase | null> {
-  const result = await docClient.send(
-    new GetCommand({
-      TableName: DRAFT_CASES_TABLE,
-      Key: { draftId },
-    }),
-  );
-  if (!result.Item) return null;
-  return { ...result.Item, draftId: result.Item.draftId ?? draftId } as DraftCase;
+  return draftStore.get(draftId);
 }
 
 /**
@@ -27,12 +93,7 @@ export async function getDraft(draftId: string): Promise<DraftCase | null> {
  * Only include fields that are set; DynamoDB marshalling will omit undefined.
  */
 export async function putDraft(draftId: string, draft: DraftCase): Promise<void> {
-  await docClient.send(
-    new PutCommand({
-      TableName: DRAFT_CASES_TABLE,
-      Item: { ...draft, draftId },
-    }),
-  );
+  await draftStore.put(draftId, draft);
 }
 
 /**
@@ -49,19 +110,66 @@ export async function updateDraft(
   return merged;
 }
 
+/**
+ * Serialises tracking writes (usage, progress) within this process so
+ * concurrent model calls in one step don't lose each other's updates.
+ */
+let trackingWriteQueue: Promise<unknown> = Promise.resolve();
+
+function enqueueTrackingWrite<T>(write: () => Promise<T>): Promise<T> {
+  const result = trackingWriteQueue.then(write);
+  trackingWriteQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Add one model call's tokens and cost to the draft's usage totals (overall,
+ * by step, and by model). Read-merge-write like updateDraft, but queued so
+ * calls made in parallel by one step are all counted.
+ */
+export async function addDraftUsage(
+  draftId: string,
+  stepName: ModelStep,
+  modelId: string,
+  call: Omit<UsageTotals, 'calls'>,
+): Promise<DraftUsage> {
+  const add = (totals: UsageTotals | undefined): UsageTotals => ({
+    calls: (totals?.calls ?? 0) + 1,
+    inputTokens: (totals?.inputTokens ?? 0) + call.inputTokens,
+    outputTokens: (totals?.outputTokens ?? 0) + call.outputTokens,
+    costUsd: (totals?.costUsd ?? 0) + call.costUsd,
+  });
+
+  return enqueueTrackingWrite(async () => {
+    const current = (await getDraft(draftId))?.usage;
+    const usage: DraftUsage = {
+      ...add(current),
+      byStep: { ...current?.byStep, [stepName]: add(current?.byStep[stepName]) },
+      byModel: { ...current?.byModel, [modelId]: add(current?.byModel[modelId]) },
+    };
+    await updateDraft(draftId, { usage });
+    return usage;
+  });
+}
+
+/**
+ * Write a streaming step's live progress (or clear it with undefined).
+ * Queued with the usage writes for the same reason.
+ */
+export async function updateStepProgress(
+  draftId: string,
+  stepProgress: StepProgress | undefined,
+): Promise<void> {
+  await enqueueTrackingWrite(() => updateDraft(draftId, { stepProgress }));
+}
+
 /**
  * List drafts from the draft table (scan). Use for generation tracking UI.
  * Returns at most `limit` items; order is not guaranteed (table has no sort key).
  * Each item includes draftId (the partition key) and all draft fields.
  */
 export async function listDrafts(limit: number = 50): Promise<DraftCase[]> {
-  const result = await docClient.send(
-    new ScanCommand({
-      TableName: DRAFT_CASES_TABLE,
-      Limit: limit,
-    }),
-  );
-  return (result.Items ?? []) as DraftCase[];
+  return draftStore.list(limit);
 }
 
 /**
@@ -69,12 +177,7 @@ export async function listDrafts(limit: number = 50): Promise<DraftCase[]> {
  * kept so retries from any step are possible); available for manual cleanup.
  */
 export async function deleteDraft(draftId: string): Promise<void> {
-  await docClient.send(
-    new DeleteCommand({
-      TableName: DRAFT_CASES_TABLE,
-      Key: { draftId },
-    }),
-  );
+  await draftStore.delete(draftId);
 }
 
 /**
@@ -112,9 +215,11 @@ export async function forkDraft(
     lastValidationResult: undefined,
   };
 
+  // usage is skipped too: a fork's cost is only what it spends itself
   const skipKeys = new Set([
     'draftId', 'input', 'forkedFrom', 'forkedAtStep',
-    'currentStep', 'lastStepStartedAt', 'lastValidationResult',
+    'currentStep', 'lastStepStartedAt', 'lastValidationResult', 'usage',
+    'stepProgress',
   ]);
   for (const [key, value] of Object.entries(source)) {
     if (skipKeys.has(key)) continue;
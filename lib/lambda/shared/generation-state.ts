@@ -13,17 +13,38 @@ export const GENERATION_STEPS = [
   'computeFacts',
   'generateFacts',
   'generateIntroduction',
+  'generateDocuments',
   'generateCasebook',
+  'generateFollowUps',
   'generateProse',
+  'generateDirectory',
   'generateQuestions',
+  'generateSolution',
 ] as const;
 
 export type GenerationStep = (typeof GENERATION_STEPS)[number];
 
-/** Full pipeline order for UI progress graph (GENERATION_STEPS + computeOptimalPath, storeCase). */
+/**
+ * Step names that call the model: the generation steps plus ValidateProse,
+ * whose coverage judge is configured, priced and transcribed on its own.
+ * Resuming (startFromStep) covers GENERATION_STEPS except generateTemplate
+ * and generateSolution.
+ */
+export const MODEL_STEPS = [...GENERATION_STEPS, 'validateProse'] as const;
+
+export type ModelStep = (typeof MODEL_STEPS)[number];
+
+/**
+ * Full pipeline order for UI progress graph (GENERATION_STEPS + computeOptimalPath, computeDifficulty,
+ * simulatePlaythroughs, storeCase). GenerateSolution explains the optimal path, so it runs after
+ * ComputeOptimalPath. SimulatePlaythroughs runs only when input.simulationRuns is set.
+ */
 export const PIPELINE_STEPS = [
-  ...GENERATION_STEPS,
+  ...GENERATION_STEPS.filter((step) => step !== 'generateSolution'),
   'computeOptimalPath',
+  'computeDifficulty',
+  'generateSolution',
+  'simulatePlaythroughs',
   'storeCase',
 ] as const;
 
@@ -45,10 +66,16 @@ export const STEP_DRAFT_FIELDS: Record<PipelineStep, (keyof DraftCase)[]> = {
   computeFacts: ['factSkeletons', 'factGraph'],
   generateFacts: ['facts'],
   generateIntroduction: ['introductionFactIds', 'introduction', 'title'],
+  generateDocuments: ['documents'],
   generateCasebook: ['casebook'],
-  generateProse: ['prose'],
+  generateFollowUps: ['followUps'],
+  generateProse: ['prose', 'proseBrief'],
+  generateDirectory: ['directory'],
   generateQuestions: ['questions'],
-  computeOptimalPath: ['optimalPath'],
+  computeOptimalPath: ['optimalPath', 'optimalPathProven', 'pathAnalysis'],
+  computeDifficulty: ['difficultyAnalysis'],
+  generateSolution: ['solution'],
+  simulatePlaythroughs: ['simulation'],
   storeCase: [],
 };
 
@@ -63,10 +90,91 @@ export interface GenerationModelConfig {
    * or a shortcut: haiku, sonnet, sonnet4, opus, opus45, opus41.
    */
   default: string;
-  /** Per-step overrides; same format (full ID or shortcut). */
-  steps?: Partial<Record<GenerationStep, string>>;
+  /**
+   * Per-step overrides: a model (same format as `default`), or settings that
+   * can also tune thinking, output length and temperature for that step.
+   */
+  steps?: Partial<Record<ModelStep, string | StepModelSettings>>;
 }
 
+/**
+ * Per-step inference settings. Anything omitted falls back to callModel's
+ * defaults: the config's default model, thinking on, maxTokens at the model's
+ * ceiling, and a thinking budget of half of maxTokens.
+ */
+export interface StepModelSettings {
+  /** Model for this step (full ID or shortcut). Defaults to modelConfig.default. */
+  model?: string;
+  /** Extended thinking on/off. Defaults to true. */
+  thinking?: boolean;
+  /** Thinking budget in tokens (min 1024, at least 1024 below maxTokens). Only when thinking is on. */
+  thinkingBudget?: number;
+  /**
+   * Output token cap (thinking + text). Clamped to the model's maximum. With
+   * thinking on and no thinkingBudget, at least 2048, since the budget
+   * defaults to half of it and Bedrock's minimum budget is 1024.
+   */
+  maxTokens?: number;
+  /** Sampling temperature, 0–1. Only when thinking is off (Bedrock rejects it with thinking). */
+  temperature?: number;
+  /**
+   * How the step's JSON is returned: 'tool' (schema-constrained tool call, the
+   * default for steps that supply a schema) or 'text' (JSON extracted from the
+   * response text).
+   */
+  outputMode?: 'tool' | 'text';
+}
+
+/** Bedrock's smallest extended-thinking budget. */
+export const MIN_THINKING_BUDGET = 1024;
+
+/** Output tokens kept for the answer itself when thinking shares maxTokens with it. */
+export const MIN_ANSWER_TOKENS = 1024;
+
+export const StepModelSettingsSchema = z
+  .object({
+    model: z.string().optional(),
+    thinking: z.boolean().optional(),
+    thinkingBudget: z.number().int().min(MIN_THINKING_BUDGET).optional(),
+    maxTokens: z.number().int().positive().optional(),
+    temperature: z.number().min(0).max(1).optional(),
+    outputMode: z.enum(['tool', 'text']).optional(),
+  })
+  .refine((s) => s.temperature === undefined || s.thinking === false, {
+    message: 'temperature can only be set when thinking is false',
+    path: ['temperature'],
+  })
+  .refine((s) => s.thinkingBudget === undefined || s.thinking !== false, {
+    message: 'thinkingBudget cannot be set when thinking is false',
+    path: ['thinkingBudget'],
+  })
+  .refine(
+    (s) => s.thinkingBudget === undefined || s.maxTokens === undefined ||
+      s.thinkingBudget <= s.maxTokens - MIN_ANSWER_TOKENS,
+    {
+      message: `thinkingBudget must be at least ${MIN_ANSWER_TOKENS} below maxTokens, to leave room for the answer`,
+      path: ['thinkingBudget'],
+    },
+  )
+  .refine(
+    (s) => s.thinking === false || s.thinkingBudget !== undefined || s.maxTokens === undefined ||
+      s.maxTokens >= 2 * MIN_THINKING_BUDGET,
+    {
+      message: `maxTokens must be at least ${2 * MIN_THINKING_BUDGET} when thinking is on without a thinkingBudget (the budget defaults to half of it)`,
+      path: ['maxTokens'],
+    },
+  );
+
+export const GenerationModelConfigSchema = z.object({
+  default: z.string(),
+  steps: z
+    .partialRecord(
+      z.enum(MODEL_STEPS as unknown as [string, ...string[]]),
+      z.union([z.string(), StepModelSettingsSchema]),
+    )
+    .optional(),
+});
+
 // ============================================
 // Generation Input
 // ============================================
@@ -75,21 +183,63 @@ export interface GenerateCaseInput {
   caseDate: string;
   difficulty?: 'easy' | 'medium' | 'hard';
   crimeType?: string;
+  /**
+   * Setting suggestion for GenerateTemplate. Picked at random when omitted and
+   * written back to the draft's input, so resumed or replayed runs send the
+   * same template prompt.
+   */
+  settingFlavor?: string;
   modelConfig?: GenerationModelConfig;
+  /**
+   * Spending cap in USD for this draft's model calls (see DraftCase.usage).
+   * callModel refuses to start a call once the draft has spent this much.
+   */
+  budget?: number;
+  /**
+   * Scenes per GenerateProse call. When set (and smaller than the casebook),
+   * GenerateProse writes a continuity brief first, then the scenes in
+   * parallel batches of this size, and ValidateProse judges them in batches
+   * of the same size. Otherwise all scenes come from one call.
+   */
+  proseBatchSize?: number;
+  /**
+   * Playthroughs per strategy for SimulatePlaythroughs. The step is skipped
+   * when unset.
+   */
+  simulationRuns?: number;
 }
 
 export const GenerateCaseInputSchema = z.object({
   caseDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   difficulty: z.enum(['easy', 'medium', 'hard']).optional().default('medium'),
   crimeType: z.string().optional(),
-  modelConfig: z
-    .object({
-      default: z.string(),
-      steps: z.record(z.enum(GENERATION_STEPS as unknown as [string, ...string[]]), z.string()).optional(),
-    })
-    .optional(),
+  settingFlavor: z.string().optional(),
+  modelConfig: GenerationModelConfigSchema.optional(),
+  budget: z.number().positive().optional(),
+  proseBatchSize: z.number().int().min(1).optional(),
+  simulationRuns: z.number().int().min(1).max(10_000).optional(),
 });
 
+// ============================================
+// Token Usage & Cost
+// ============================================
+
+/** Token and cost totals for a group of model calls. Output tokens include thinking. */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated from MODEL_PRICING in bedrock.ts. */
+  costUsd: number;
+}
+
+/** Accumulated model usage for one draft, broken down by step and by model. */
+export interface DraftUsage extends UsageTotals {
+  byStep: Partial<Record<ModelStep, UsageTotals>>;
+  /** Keyed by full model ID. */
+  byModel: Record<string, UsageTotals>;
+}
+
 // ============================================
 // Draft case (stored in DynamoDB draft table)
 //
@@ -119,16 +269,53 @@ export interface DraftCase {
   introductionFactIds?: string[];
   introduction?: string;
   title?: string;
+  /** Readable documents, keyed by documentId. */
+  documents?: Record<string, DocumentDraft>;
   casebook?: Record<string, CasebookEntryDraft>;
+  /** Confront-a-suspect follow-ups, keyed by followUpId. */
+  followUps?: Record<string, FollowUpDraft>;
   prose?: Record<string, string>;
+  /** Continuity brief shared by batched prose calls (only when input.proseBatchSize is set). */
+  proseBrief?: ContinuityBrief;
+  /** Filler addresses and turned-away scenes for directory mode. */
+  directory?: DirectoryDraft;
   questions?: QuestionDraft[];
   optimalPath?: string[];
+  /** True when ComputeOptimalPath's exact search proved optimalPath shortest. */
+  optimalPathProven?: boolean;
+  /** Alternative paths, bottlenecks and other diversity metrics from ComputeOptimalPath. */
+  pathAnalysis?: PathAnalysisDraft;
+  /** Measured difficulty signals and rating from ComputeDifficulty. */
+  difficultyAnalysis?: DifficultyAnalysisDraft;
+  /** Simulated playthroughs from SimulatePlaythroughs, when input.simulationRuns is set. */
+  simulation?: SimulationReportDraft;
+  /** The Great Detective's explanation of optimalPath. */
+  solution?: SolutionDraft;
   /** Tracking: major step currently running (or last run). Updated by each pipeline Lambda at start. */
   currentStep?: PipelineStep;
   /** Tracking: full validation result when validation fails. Cleared by StoreCase on success. */
   lastValidationResult?: StepValidationResult;
   /** Tracking: ISO timestamp when currentStep was last set. */
   lastStepStartedAt?: string;
+  /** Tracking: tokens and estimated cost of every model call made for this draft (forks start at zero). */
+  usage?: DraftUsage;
+  /** Tracking: live progress of a streaming step. Cleared when the step finishes. */
+  stepProgress?: StepProgress;
+}
+
+/** Incremental progress written by steps that stream their model output. */
+export interface StepProgress {
+  step: ModelStep;
+  /** Extended-thinking bytes received so far. */
+  reasoningBytes: number;
+  /** Response bytes received so far. */
+  textBytes: number;
+  /** Units finished so far (e.g. scenes whose text has fully arrived). */
+  itemsCompleted?: number;
+  itemsTotal?: number;
+  /** What the items are, for display (e.g. "scenes"). */
+  itemLabel?: string;
+  updatedAt: string;
 }
 
 // ============================================
@@ -138,8 +325,11 @@ export interface DraftCase {
 // Draft content lives in the draft table; steps load/save it by draftId.
 // ============================================
 
-/** Single validation slot: overwritten by each validation step. Casebook step writes CasebookValidationResult; others write ValidationResult. */
-export type StepValidationResult = ValidationResult | CasebookValidationResult;
+/**
+ * Single validation slot: overwritten by each validation step. Casebook step writes
+ * CasebookValidationResult, prose step ProseValidationResult; others write ValidationResult.
+ */
+export type StepValidationResult = ValidationResult | CasebookValidationResult | ProseValidationResult;
 
 export interface OperationalState {
   input: GenerateCaseInput;
@@ -182,6 +372,10 @@ export interface CaseTemplate {
   narrativeTone: string;
   eventSlots: EventSlot[];
   characterRoles: CharacterRole[];
+  /** Specialists the detective can consult about physical evidence (absent on older drafts) */
+  expertRoles?: ExpertRole[];
+  /** Innocent characters the case should make look guilty (absent on older drafts) */
+  falseLeads?: FalseLead[];
   difficulty: 'easy' | 'medium' | 'hard';
 }
 
@@ -198,6 +392,41 @@ export interface CharacterRole {
   description: string;
 }
 
+/**
+ * A setting-appropriate specialist (chemist, harbourmaster, hacker) who reads
+ * physical evidence. Not a character in the story: experts appear only as
+ * their own casebook entry ("entry_" + expertId).
+ */
+export interface ExpertRole {
+  /** e.g. "expert_chemist" */
+  expertId: string;
+  /** e.g. "Analytical Chemist" */
+  role: string;
+  /** What evidence they can interpret, e.g. "poisons, residues, inks and papers" */
+  specialty: string;
+}
+
+/**
+ * An alternate theory of the crime, pointing at an innocent character.
+ * ComputeFacts turns each into a red herring thread: a motive and an
+ * opportunity that implicate the suspect, and an alibi, revealed by someone
+ * else, that clears them.
+ */
+export interface FalseLead {
+  /** e.g. "lead_jealous_understudy" */
+  leadId: string;
+  /** roleId of the innocent character the lead points at */
+  suspectRoleId: string;
+  /** The wrong conclusion a player might draw, e.g. "The understudy dropped the chandelier to take the lead role" */
+  theory: string;
+  /** Why they might have done it */
+  motive: string;
+  /** How they could have done it */
+  opportunity: string;
+  /** What clears them */
+  alibi: string;
+}
+
 export interface EventRevealDraft {
   id: string;
   audible: boolean;
@@ -235,6 +464,18 @@ export interface CharacterDraft {
   currentStatus?: string;
 }
 
+/**
+ * currentStatus words that mean a character can't be questioned in person
+ * (GenerateCharacters' status list; the casebook never places them at an entry).
+ */
+export const UNAVAILABLE_STATUSES = ['deceased', 'dead', 'missing', 'traveling', 'travelling'] as const;
+
+/** Whether the detective can question the character (their status doesn't rule it out). */
+export function canBeQuestioned(character: CharacterDraft): boolean {
+  const status = character.currentStatus?.toLowerCase() ?? '';
+  return !UNAVAILABLE_STATUSES.some((s) => status.includes(s));
+}
+
 export interface LocationDraft {
   locationId: string;
   name: string;
@@ -263,6 +504,58 @@ export interface CasebookEntryDraft {
   requiresAnyFact: string[];
 }
 
+export const DOCUMENT_KINDS = ['newspaper', 'letter', 'ledger', 'diary', 'telegram', 'report', 'notice'] as const;
+
+export interface DocumentDraft {
+  documentId: string;
+  kind: (typeof DOCUMENT_KINDS)[number];
+  title: string;
+  /** Marked-up text (see scene-markup). */
+  text: string;
+  revealsFactIds: string[];
+  /** Empty: available from the start. */
+  requiresAnyFact: string[];
+}
+
+export interface FollowUpDraft {
+  followUpId: string;
+  /** Entry where the confrontation happens. */
+  entryId: string;
+  characterId: string;
+  presentFactId: string;
+  revealsFactIds: string[];
+  /** Marked-up prose (see scene-markup). */
+  scene: string;
+}
+
+export interface DirectoryListingDraft {
+  listingId: string;
+  label: string;
+  address: string;
+  /** Plain prose: nothing of interest. */
+  scene: string;
+}
+
+export interface DirectoryDraft {
+  /** Filler addresses, keyed by listingId. */
+  listings: Record<string, DirectoryListingDraft>;
+  /** entryId -> plain scene for a visit before the entry's gate is met. */
+  turnedAway: Record<string, string>;
+}
+
+/**
+ * Shared reference for prose written in parallel batches, so scenes written
+ * by separate calls agree on voices, times and recurring details.
+ */
+export interface ContinuityBrief {
+  /** characterId -> how the character speaks and carries themselves. */
+  characterVoices: Record<string, string>;
+  /** What happened when, as the scenes may refer to it. */
+  timeline: string[];
+  /** Details that must read the same everywhere (weather, light, objects, appearances). */
+  sharedDetails: string[];
+}
+
 export interface QuestionDraft {
   questionId: string;
   text: string;
@@ -272,9 +565,68 @@ export interface QuestionDraft {
 }
 
 export interface QuestionAnswerDraft {
+  /** 'single' | 'multi' | 'ordered' | 'compound' | 'timeline'; absent means 'single'. */
+  kind?: string;
+  /** Compound answers: names the first part. */
+  label?: string;
+  /** Compound answers: the remaining parts. */
+  parts?: AnswerPartDraft[];
+  type: string;
+  factCategory?: string;
+  acceptedIds: string[];
+  /** Free-text aliases, keyed by acceptedId. */
+  aliases?: Record<string, string[]>;
+}
+
+export interface AnswerPartDraft {
+  label: string;
   type: string;
   factCategory?: string;
   acceptedIds: string[];
+  aliases?: Record<string, string[]>;
+}
+
+export interface SolutionDraft {
+  /** One step per optimalPath entry, in order. */
+  walkthrough: { entryId: string; text: string; factIds: string[] }[];
+  /** One per question; citations are computed, not generated. */
+  answers: { questionId: string; text: string; citations: { factId: string; source: string }[] }[];
+  summary: string;
+}
+
+export interface PathAnalysisDraft {
+  /** Distinct covering paths, optimalPath first. */
+  alternativePaths: string[][];
+  /** optimalPath entries every covering path must visit. */
+  bottleneckEntryIds: string[];
+  /** Entries open from the start that begin a shortest path. */
+  viableFirstMoves: string[];
+  /** Per questionId, the fewest entries after which it can be answered. */
+  earliestDepth: Record<string, number>;
+  /** False when the searches hit their time limit. */
+  complete: boolean;
+}
+
+export interface DifficultyAnalysisDraft {
+  /** template.difficulty */
+  requested: 'easy' | 'medium' | 'hard';
+  /** The mean signal rating, rounded. */
+  assessed: 'easy' | 'medium' | 'hard';
+  /** Mean signal rating: 0 easy, 1 medium, 2 hard. */
+  score: number;
+  signals: { name: string; value: number; rating: 'easy' | 'medium' | 'hard' }[];
+}
+
+export interface SimulationReportDraft {
+  seed: number;
+  optimalEntries: number;
+  strategies: {
+    strategy: 'randomWalk' | 'breadthFirst' | 'greedyNewestLead' | 'oracle';
+    runs: number;
+    visits: { min: number; max: number; mean: number; median: number; p90: number };
+    scores: { min: number; max: number; mean: number; median: number; p90: number };
+    solvedShare: number;
+  }[];
 }
 
 export interface ValidationResult {
@@ -294,6 +646,20 @@ export interface CasebookValidationResult {
   reachableEntryIds: string[];
 }
 
+/** Result of Validate Prose: same as ValidationResult plus the scenes that need rewriting and why. */
+export interface ProseValidationResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  /**
+   * entryId (or followUpId, for a confrontation scene) -> factIds from
+   * revealsFactIds the scene does not convey. Only scenes with gaps.
+   */
+  uncoveredFacts: Record<string, string[]>;
+  /** entryId or followUpId -> problems with the scene's inline markup (see scene-markup). Only scenes with problems. */
+  markupErrors: Record<string, string[]>;
+}
+
 // ============================================
 // Intermediate Types for Compute Steps
 // ============================================
@@ -331,7 +697,11 @@ export type FactSkeletonSource =
   | { type: 'event_reveal'; eventId: string }
   | { type: 'denial'; characterId: string; deniedFactId: string }
   | { type: 'bridge'; fromCharacterId: string; toSubject: string }
-  | { type: 'red_herring' };
+  | { type: 'red_herring'; thread?: { leadId: string; part: FalseLeadPart } }
+  | { type: 'expert_analysis'; expertId: string; evidenceFactId: string };
+
+/** The facts of a red herring thread: two that implicate the suspect, one that clears them. */
+export type FalseLeadPart = 'motive' | 'opportunity' | 'alibi';
 
 /**
  * The fact-subject bipartite graph produced by ComputeFacts.
@@ -379,6 +749,30 @@ export const CaseTemplateSchema = z.object({
       }),
     )
     .min(3),
+  expertRoles: z
+    .array(
+      z.object({
+        expertId: z.string().regex(/^expert_/, 'expertId must start with "expert_"'),
+        role: z.string().min(1),
+        specialty: z.string().min(1),
+      }),
+    )
+    .max(3)
+    .optional(),
+  falseLeads: z
+    .array(
+      z.object({
+        leadId: z.string().regex(/^lead_/, 'leadId must start with "lead_"'),
+        suspectRoleId: z.string().min(1),
+        theory: z.string().min(1),
+        motive: z.string().min(1),
+        opportunity: z.string().min(1),
+        alibi: z.string().min(1),
+      }),
+    )
+    .min(1)
+    .max(3)
+    .optional(),
   difficulty: z.enum(['easy', 'medium', 'hard']),
 });
 
@@ -532,17 +926,114 @@ export const GenerateIntroductionOutputSchema = z.object({
   introduction: z.string().min(10),
 });
 
+/**
+ * Schema for GenerateDocuments AI output: documents keyed by documentId.
+ * Fact references and markup are checked in the handler's validate callback.
+ */
+export const DocumentsSchema = z.record(
+  z.string(),
+  z.object({
+    kind: z.enum(DOCUMENT_KINDS),
+    title: z.string().min(1),
+    text: z.string().min(20),
+    revealsFactIds: z.array(z.string().min(1)).min(1),
+    requiresAnyFact: z.array(z.string().min(1)),
+  }),
+);
+
+/**
+ * Schema for GenerateFollowUps AI output: follow-ups keyed by followUpId.
+ * Entry, character and facts are checked against the computed candidates
+ * in the handler.
+ */
+export const FollowUpsSchema = z.record(
+  z.string(),
+  z.object({
+    entryId: z.string().min(1),
+    characterId: z.string().min(1),
+    presentFactId: z.string().min(1),
+    revealsFactIds: z.array(z.string().min(1)).min(1),
+    scene: z.string().min(10),
+  }),
+);
+
+/**
+ * Schema for GenerateDirectory AI output. Coverage of the casebook and
+ * clashes with its labels are checked in the handler's validate callback.
+ */
+export const DirectorySchema = z.object({
+  listings: z.record(
+    z.string(),
+    z.object({
+      label: z.string().min(1),
+      address: z.string().min(1),
+      scene: z.string().min(10),
+    }),
+  ),
+  turnedAway: z.record(z.string(), z.string().min(10)),
+});
+
+/**
+ * Schema for GenerateSolution AI output: a paragraph per optimal-path entry,
+ * an explanation per question with the facts it rests on, and a closing
+ * summary. Coverage of the path and questions, and that the facts come from
+ * each question's candidates, are checked in the handler's validate callback.
+ */
+export const SolutionSchema = z.object({
+  walkthrough: z.record(z.string(), z.string().min(20)),
+  answers: z.record(
+    z.string(),
+    z.object({
+      text: z.string().min(20),
+      factIds: z.array(z.string().min(1)).min(1),
+    }),
+  ),
+  summary: z.string().min(20),
+});
+
 export const SceneBatchSchema = z.record(z.string(), z.string().min(10));
 
+/**
+ * Schema for the ValidateProse coverage judge: for each entry, a verdict on
+ * every fact it was asked about, with the passage that conveys it.
+ */
+export const ProseCoverageSchema = z.record(
+  z.string(),
+  z.array(
+    z.object({
+      factId: z.string().min(1),
+      covered: z.boolean(),
+      /** Short quote from the scene that conveys the fact, or why it is missing. */
+      evidence: z.string(),
+    }),
+  ),
+);
+
+export type ProseCoverage = z.infer<typeof ProseCoverageSchema>;
+
+export const ContinuityBriefSchema = z.object({
+  characterVoices: z.record(z.string(), z.string().min(1)),
+  timeline: z.array(z.string().min(1)).min(1),
+  sharedDetails: z.array(z.string().min(1)).min(1),
+});
+
 const FactCategorySchema = z.enum([
   'motive', 'means', 'opportunity', 'alibi',
   'relationship', 'timeline', 'physical_evidence', 'background',
 ]);
 
-export const QuestionAnswerSchema = z.object({
+const AnswerPartSchema = z.object({
+  label: z.string().min(1),
   type: z.enum(['person', 'location', 'fact']),
   factCategory: FactCategorySchema.optional(),
   acceptedIds: z.array(z.string().min(1)).min(1),
+  aliases: z.record(z.string(), z.array(z.string().min(1))),
+});
+
+export const QuestionAnswerSchema = AnswerPartSchema.extend({
+  kind: z.enum(['single', 'multi', 'ordered', 'compound', 'timeline']).optional(),
+  label: z.string().min(1).optional(),
+  parts: z.array(AnswerPartSchema).min(1).optional(),
 });
 
 export const QuestionsSchema = z
@@ -0,0 +1,262 @@
+import {
+  BedrockRuntimeClient,
+  ConverseCommand,
+  ConverseStreamCommand,
+  type ContentBlock,
+  type ConverseCommandInput,
+  type Message,
+} from '@aws-sdk/client-bedrock-runtime';
+import type { DocumentType } from '@smithy/types';
+import type { ModelStep } from './generation-state';
+
+// ============================================
+// Provider Interface
+// ============================================
+
+/**
+ * One model turn. callModel builds these; a provider turns them into an API
+ * call (or a fixture lookup) and returns the model's reasoning and text.
+ */
+export interface ModelRequest {
+  /** Pipeline step making the call — fixture providers key on this. */
+  stepName: ModelStep;
+  /** Fully resolved model ID (shortcuts already expanded). */
+  modelId: string;
+  systemPrompt: string;
+  /** Conversation so far, alternating user/assistant, ending with a user turn. */
+  messages: ModelMessage[];
+  maxTokens: number;
+  /** Extended thinking budget in tokens; undefined runs without thinking. */
+  thinkingBudget?: number;
+  /** Sampling temperature. Only sent when thinking is off. */
+  temperature?: number;
+  /**
+   * Tool the model should answer through. Forced when thinking is off; with
+   * thinking on (which forbids forced tool choice) the model is left to pick it.
+   */
+  outputTool?: ModelTool;
+}
+
+/** A tool definition whose input is the step's structured output. */
+export interface ModelTool {
+  name: string;
+  description: string;
+  /** JSON Schema for the tool input (root must be an object). */
+  inputSchema: Record<string, unknown>;
+}
+
+export interface ModelMessage {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+export interface ModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface ModelResponse {
+  /** Extended-thinking reasoning (empty if none or redacted). */
+  reasoning: string;
+  /** Concatenated text content blocks. */
+  text: string;
+  /** Input of the outputTool call, when the model made one. */
+  toolInput?: unknown;
+  usage?: ModelUsage;
+}
+
+/**
+ * A chunk of streamed output. Reasoning streams first, then the text; the
+ * partial JSON of a tool call streams as text.
+ */
+export interface ModelStreamDelta {
+  kind: 'reasoning' | 'text';
+  text: string;
+}
+
+export interface ModelProvider {
+  /** Short name for logs (e.g. "bedrock", "fixture"). */
+  readonly name: string;
+  /**
+   * Run one model turn. When `onDelta` is given the provider should stream
+   * and report output as it arrives; providers that can't stream may ignore it.
+   * The resolved response is the same either way.
+   */
+  converse(request: ModelRequest, onDelta?: (delta: ModelStreamDelta) => void): Promise<ModelResponse>;
+}
+
+// ============================================
+// Bedrock Provider
+// ============================================
+
+const client = new BedrockRuntimeClient({});
+
+/** Default provider: Bedrock Converse, with extended thinking when a budget is given. */
+export const bedrockProvider: ModelProvider = {
+  name: 'bedrock',
+
+  async converse(request, onDelta) {
+    const { modelId, systemPrompt, messages, maxTokens, thinkingBudget, temperature, outputTool } = request;
+
+    // Temperature is incompatible with extended thinking, so it is only sent without it
+    const additionalModelRequestFields: DocumentType | undefined = thinkingBudget !== undefined
+      ? {
+          thinking: {
+            type: 'enabled',
+            budget_tokens: thinkingBudget,
+          },
+        }
+      : undefined;
+
+    const input: ConverseCommandInput = {
+      modelId,
+      system: [{ text: systemPrompt }],
+      messages: messages.map((m): Message => ({ role: m.role, content: [{ text: m.text }] })),
+      inferenceConfig: thinkingBudget !== undefined ? { maxTokens } : { maxTokens, temperature },
+      additionalModelRequestFields,
+      toolConfig: outputTool
+        ? {
+            tools: [{
+              toolSpec: {
+                name: outputTool.name,
+                description: outputTool.description,
+                inputSchema: { json: outputTool.inputSchema as DocumentType },
+              },
+            }],
+            toolChoice: thinkingBudget !== undefined ? { auto: {} } : { tool: { name: outputTool.name } },
+          }
+        : undefined,
+    };
+
+    if (onDelta) return converseStream(input, onDelta);
+
+    const response = await client.send(new ConverseCommand(input));
+    return {
+      ...extractContent(response.output?.message?.content),
+      usage: toModelUsage(response.usage),
+    };
+  },
+};
+
+/**
+ * ConverseStream variant of the Bedrock call. Accumulates reasoning and text
+ * deltas into the same ModelResponse the non-streaming path returns.
+ */
+async function converseStream(
+  input: ConverseCommandInput,
+  onDelta: (delta: ModelStreamDelta) => void,
+): Promise<ModelResponse> {
+  const response = await client.send(new ConverseStreamCommand(input));
+  if (!response.stream) throw new Error('ConverseStream returned no stream');
+
+  const reasoningParts: string[] = [];
+  const textParts: string[] = [];
+  const toolInputParts: string[] = [];
+  let usage: ModelUsage | undefined;
+
+  for await (const event of response.stream) {
+    if (event.contentBlockDelta?.delta) {
+      const delta = event.contentBlockDelta.delta;
+      if ('text' in delta && typeof delta.text === 'string') {
+        textParts.push(delta.text);
+        onDelta({ kind: 'text', text: delta.text });
+      } else if ('toolUse' in delta && delta.toolUse?.input) {
+        toolInputParts.push(delta.toolUse.input);
+        onDelta({ kind: 'text', text: delta.toolUse.input });
+      } else if ('reasoningContent' in delta && delta.reasoningContent?.text) {
+        reasoningParts.push(delta.reasoningContent.text);
+        onDelta({ kind: 'reasoning', text: delta.reasoningContent.text });
+      }
+    } else if (event.metadata) {
+      usage = toModelUsage(event.metadata.usage);
+    } else {
+      const streamError =
+        event.internalServerException
+        ?? event.modelStreamErrorException
+        ?? event.validationException
+        ?? event.throttlingException
+        ?? event.serviceUnavailableException;
+      if (streamError) throw new Error(`ConverseStream failed: ${streamError.message}`);
+    }
+  }
+
+  return {
+    reasoning: reasoningParts.join(''),
+    text: textParts.join(''),
+    // Tool input streams as JSON fragments; an unparseable (truncated) input
+    // is returned as the raw string so callModel's validation reports it
+    toolInput: toolInputParts.length > 0 ? parseToolInput(toolInputParts.join('')) : undefined,
+    usage,
+  };
+}
+
+function parseToolInput(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return json;
+  }
+}
+
+function toModelUsage(
+  usage: { inputTokens?: number; outputTokens?: number; totalTokens?: number } | undefined,
+): ModelUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.inputTokens ?? 0,
+    outputTokens: usage.outputTokens ?? 0,
+    totalTokens: usage.totalTokens ?? 0,
+  };
+}
+
+/**
+ * Extract reasoning, text and tool input from Bedrock Converse response content blocks.
+ *
+ * With extended thinking enabled, the response contains separate
+ * `reasoningContent` and `text` content blocks; without it, only `text`.
+ * A `toolUse` block is present when the request carried an output tool.
+ */
+function extractContent(content?: ContentBlock[]): { reasoning: string; text: string; toolInput?: unknown } {
+  if (!content) return { reasoning: '', text: '' };
+
+  const reasoningParts: string[] = [];
+  const textParts: string[] = [];
+  let toolInput: unknown;
+
+  for (const block of content) {
+    if ('reasoningContent' in block && block.reasoningContent) {
+      // Extended thinking block
+      const rc = block.reasoningContent;
+      if ('reasoningText' in rc && rc.reasoningText?.text) {
+        reasoningParts.push(rc.reasoningText.text);
+      }
+      // redactedContent blocks are encrypted — nothing useful to extract
+    } else if ('text' in block && typeof block.text === 'string') {
+      textParts.push(block.text);
+    } else if ('toolUse' in block && block.toolUse) {
+      toolInput = block.toolUse.input;
+    }
+  }
+
+  return {
+    reasoning: reasoningParts.join('\n'),
+    text: textParts.join(''),
+    toolInput,
+  };
+}
+
+// ============================================
+// Active Provider
+// ============================================
+
+let modelProvider: ModelProvider = bedrockProvider;
+
+/** Replace the model provider for this process (e.g. a fixture provider for offline runs). */
+export function setModelProvider(provider: ModelProvider): void {
+  modelProvider = provider;
+}
+
+export function getModelProvider(): ModelProvider {
+  return modelProvider;
+}
@@ -0,0 +1,143 @@
+import { z } from 'zod';
+
+/**
+ * Targeted repair for model output that parsed as JSON but failed its Zod
+ * schema. Rather than asking the model to regenerate the whole payload,
+ * callModel re-asks for just the sub-objects that contain issues (e.g. the
+ * three bad facts in a 30-fact GenerateFactsOutputSchema record) and merges the
+ * corrected ones back in.
+ *
+ * A "repair unit" is the element of the first record or array on an issue's
+ * path: ["fact_3", "category"] → fact_3; ["characters", "char_x", "tone"] →
+ * characters.char_x; [2, "answer", "type"] → [2]. Issues above that level (a
+ * missing top-level field, an array that is too short) have no unit and need
+ * a full retry.
+ *
+ * Units are keyed `unit_0`, `unit_1`, … in the repair response: the keys
+ * become property names in the output tool's input schema, which must match
+ * `^[a-zA-Z0-9_.-]{1,64}$`, so display paths like "[2]" can't be used.
+ */
+
+type PathSegment = PropertyKey;
+
+export interface RepairUnit {
+  /** Path to the sub-object, from the root of the output. */
+  path: PathSegment[];
+  /** Display path, e.g. "characters.char_x" or "[2]". */
+  label: string;
+  /** Key of the unit in the repair response, e.g. "unit_0". */
+  key: string;
+  /** Schema the sub-object must satisfy. */
+  schema: z.ZodType;
+}
+
+// ============================================
+// Issue Formatting
+// ============================================
+
+/** JSON-path style display of an issue path: `characters.char_x.tone`, `[2].answer`. */
+export function formatPath(path: readonly PathSegment[]): string {
+  if (path.length === 0) return '(root)';
+  return path
+    .map((seg, i) => (typeof seg === 'number' ? `[${seg}]` : `${i === 0 ? '' : '.'}${String(seg)}`))
+    .join('');
+}
+
+function valueAt(root: unknown, path: readonly PathSegment[]): unknown {
+  let current = root;
+  for (const seg of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<PropertyKey, unknown>)[seg];
+  }
+  return current;
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) return 'missing';
+  const json = JSON.stringify(value);
+  return json.length > 120 ? `${json.slice(0, 120)}…` : json;
+}
+
+/**
+ * One line per issue: path, Zod's message (which names the expected type or
+ * values), and the value that was actually received at that path.
+ */
+export function formatZodIssues(error: z.ZodError, output: unknown): string {
+  return error.issues
+    .map((issue) => `- ${formatPath(issue.path)}: ${issue.message} (received: ${describeValue(valueAt(output, issue.path))})`)
+    .join('\n');
+}
+
+// ============================================
+// Repair Units
+// ============================================
+
+/** Strip wrappers that don't change the shape of the value. */
+function unwrapSchema(schema: z.ZodType): z.ZodType {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable || schema instanceof z.ZodDefault) {
+    return unwrapSchema(schema.unwrap() as z.ZodType);
+  }
+  if (schema instanceof z.ZodPipe) return unwrapSchema(schema.in as z.ZodType);
+  return schema;
+}
+
+/** Walk the schema along an issue path to the first record/array element. */
+function findUnit(schema: z.ZodType, path: readonly PathSegment[]): Omit<RepairUnit, 'key'> | null {
+  let current = unwrapSchema(schema);
+  for (let i = 0; i < path.length; i++) {
+    const seg = path[i];
+    if (current instanceof z.ZodRecord || current instanceof z.ZodArray) {
+      const unitPath = path.slice(0, i + 1);
+      return {
+        path: unitPath,
+        label: formatPath(unitPath),
+        schema: (current instanceof z.ZodRecord ? current.valueType : current.element) as z.ZodType,
+      };
+    }
+    if (current instanceof z.ZodObject && typeof seg === 'string' && seg in current.shape) {
+      current = unwrapSchema(current.shape[seg] as z.ZodType);
+      continue;
+    }
+    return null;
+  }
+  return null;
+}
+
+/**
+ * The sub-objects to re-ask for, one per distinct unit. Returns null if any
+ * issue sits above unit level, in which case only a full retry can fix it.
+ */
+export function findRepairUnits(schema: z.ZodType, error: z.ZodError): RepairUnit[] | null {
+  const units = new Map<string, Omit<RepairUnit, 'key'>>();
+  for (const issue of error.issues) {
+    const unit = findUnit(schema, issue.path);
+    if (!unit) return null;
+    units.set(unit.label, unit);
+  }
+  return units.size > 0 ? [...units.values()].map((unit, i) => ({ ...unit, key: `unit_${i}` })) : null;
+}
+
+/** Schema of the repair response: an object keyed by unit key. */
+export function buildRepairSchema(units: RepairUnit[]): z.ZodObject {
+  return z.object(Object.fromEntries(units.map((u) => [u.key, u.schema])));
+}
+
+/**
+ * Copy of `base` with each unit replaced by its corrected value from the
+ * repair response. Units the model left out keep their old value, so
+ * validation reports them again.
+ */
+export function mergeRepairs(base: unknown, units: RepairUnit[], repairs: unknown): unknown {
+  if (repairs === null || typeof repairs !== 'object' || Array.isArray(repairs)) {
+    throw new Error('Repair response must be a JSON object keyed by unit');
+  }
+  const merged = structuredClone(base);
+  for (const unit of units) {
+    const value = (repairs as Record<string, unknown>)[unit.key];
+    if (value === undefined) continue;
+    const parent = valueAt(merged, unit.path.slice(0, -1));
+    if (parent === null || typeof parent !== 'object') continue;
+    (parent as Record<PropertyKey, unknown>)[unit.path[unit.path.length - 1]] = value;
+  }
+  return merged;
+}
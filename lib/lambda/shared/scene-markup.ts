@@ -0,0 +1,130 @@
+import type { SceneSpan } from '../../types/casebook';
+
+/**
+ * Inline markup in generated prose scenes:
+ *
+ *   You find <fact id="fact_letter">a letter signed by
+ *   <character id="char_bob">Bob Hale</character></fact> in the
+ *   <location id="loc_study">study</location> grate.
+ *
+ * <fact> marks the passage that reveals a fact; <character> and <location>
+ * mark names. A mention may sit inside a fact passage; nothing else nests.
+ * The draft keeps the marked-up text; assembly parses it into the case's
+ * plain `scene` and its `sceneSpans`.
+ */
+
+type MentionKind = 'character' | 'location';
+
+const TAG_PATTERN = /<(\/?)(fact|character|location)\b([^>]*)>/g;
+const ID_ATTR_PATTERN = /^\s+id\s*=\s*"([^"]+)"\s*$/;
+
+export interface ParsedScene {
+  /** Scene text with the markup removed. */
+  text: string;
+  /** Non-blank paragraphs (split on newlines), each a list of spans. */
+  paragraphs: SceneSpan[][];
+  /** Malformed markup. A tag that can't be used is dropped and its text kept. */
+  errors: string[];
+}
+
+/**
+ * Parse a marked-up scene. Lenient: malformed tags are reported in `errors`
+ * and skipped, so the text always survives.
+ */
+export function parseSceneMarkup(markup: string): ParsedScene {
+  const errors: string[] = [];
+  const spans: SceneSpan[] = [];
+  // An open tag whose id is undefined was dropped; its close is still consumed
+  let fact: { id?: string } | undefined;
+  let mention: { kind: MentionKind; id?: string } | undefined;
+  let last = 0;
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    spans.push({
+      text,
+      ...(fact?.id && { factId: fact.id }),
+      ...(mention?.id && mention.kind === 'character' && { characterId: mention.id }),
+      ...(mention?.id && mention.kind === 'location' && { locationId: mention.id }),
+    });
+  };
+
+  for (const match of markup.matchAll(TAG_PATTERN)) {
+    pushText(markup.slice(last, match.index));
+    last = match.index + match[0].length;
+    const [tag, closing, kind, attrs] = match;
+
+    if (closing) {
+      if (kind === 'fact' && fact) {
+        if (mention) errors.push(`<${mention.kind}> not closed before ${tag}`);
+        fact = undefined;
+        mention = undefined;
+      } else if (kind !== 'fact' && mention?.kind === kind) {
+        mention = undefined;
+      } else {
+        errors.push(`${tag} has no matching open tag`);
+      }
+      continue;
+    }
+
+    const id = ID_ATTR_PATTERN.exec(attrs)?.[1];
+    if (!id) errors.push(`${tag} needs an id="…" attribute`);
+
+    if (kind === 'fact') {
+      if (fact || mention) {
+        errors.push(`${tag} is inside another ${fact ? '<fact>' : `<${mention!.kind}>`}; fact spans cannot nest`);
+        continue;
+      }
+      fact = { id };
+    } else {
+      if (mention) {
+        errors.push(`${tag} is inside another <${mention.kind}>; mentions cannot nest`);
+        continue;
+      }
+      mention = { kind: kind as MentionKind, id };
+    }
+  }
+  pushText(markup.slice(last));
+
+  if (mention) errors.push(`<${mention.kind}${mention.id ? ` id="${mention.id}"` : ''}> is never closed`);
+  if (fact) errors.push(`<fact${fact.id ? ` id="${fact.id}"` : ''}> is never closed`);
+
+  return {
+    text: spans.map((s) => s.text).join(''),
+    paragraphs: splitParagraphs(spans),
+    errors,
+  };
+}
+
+/** Split spans on newlines, dropping blank paragraphs (as the plain scene view does). */
+function splitParagraphs(spans: SceneSpan[]): SceneSpan[][] {
+  const paragraphs: SceneSpan[][] = [[]];
+  for (const span of spans) {
+    span.text.split('\n').forEach((text, i) => {
+      if (i > 0) paragraphs.push([]);
+      if (text) paragraphs[paragraphs.length - 1].push({ ...span, text });
+    });
+  }
+  return paragraphs.filter((p) => p.some((s) => s.text.trim()));
+}
+
+/**
+ * The marked passages for each fact, in scene order. Adjacent spans of the
+ * same fact (split by a mention) are joined back into one passage.
+ */
+export function factPassages(paragraphs: SceneSpan[][]): Map<string, string[]> {
+  const passages = new Map<string, string[]>();
+  for (const paragraph of paragraphs) {
+    let previous: string | undefined;
+    for (const span of paragraph) {
+      if (span.factId) {
+        const list = passages.get(span.factId) ?? [];
+        if (span.factId === previous) list[list.length - 1] += span.text;
+        else list.push(span.text);
+        passages.set(span.factId, list);
+      }
+      previous = span.factId;
+    }
+  }
+  return passages;
+}
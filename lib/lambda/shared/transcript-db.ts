@@ -0,0 +1,163 @@
+import { GetCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, DRAFT_TRANSCRIPTS_TABLE } from './db';
+import type { ModelStep } from './generation-state';
+import type { ModelMessage, ModelUsage } from './model-provider';
+
+// ============================================
+// Transcript Record
+// ============================================
+
+/**
+ * One callModel attempt, persisted alongside the draft so the generation UI
+ * can show what the model was asked, what it thought, and what it returned.
+ * Carries everything a fixture needs, so transcripts can also be replayed.
+ */
+export interface ModelCallTranscript {
+  draftId: string;
+  /** Sort key: `${startedAt}#${stepName}[#${label}]#${attempt}` — orders calls chronologically. */
+  callId: string;
+  stepName: ModelStep;
+  /** callModel's label, for steps that make several calls (e.g. "batch 2/5"). */
+  label?: string;
+  /** 1-based attempt within callModel's JSON-correction loop. */
+  attempt: number;
+  maxAttempts: number;
+  modelId: string;
+  /** ModelProvider name (e.g. "bedrock", "fixture"). */
+  provider: string;
+  startedAt: string;
+  latencyMs: number;
+  usage?: ModelUsage;
+  maxTokens: number;
+  /** Absent when the step ran with thinking off. */
+  thinkingBudget?: number;
+  /** Only set when thinking was off. */
+  temperature?: number;
+  systemPrompt: string;
+  /** Full conversation sent on this attempt (first entry is the user prompt). */
+  messages: ModelMessage[];
+  /** Extended-thinking text (any inline preamble before the JSON stays in rawText). */
+  reasoning: string;
+  rawText: string;
+  /** Set on repair attempts: the entries (by path) the model was asked to correct. */
+  repairPaths?: string[];
+  /** Input of the output tool call, when the step ran in tool mode and the model made one. */
+  toolInput?: unknown;
+  /** Validated output (after merging, on a repair attempt); absent when the attempt failed. */
+  output?: unknown;
+  /** Parse/validation error when the attempt failed. */
+  error?: string;
+  /** Set when text fields were shortened to fit the store's item size limit. */
+  truncated?: boolean;
+}
+
+// ============================================
+// Transcript Store
+// ============================================
+
+/** Storage backend for transcripts. Swappable like DraftStore in draft-db. */
+export interface TranscriptStore {
+  put(record: ModelCallTranscript): Promise<void>;
+  get(draftId: string, callId: string): Promise<ModelCallTranscript | null>;
+  /** All records for a draft, oldest first. */
+  list(draftId: string): Promise<ModelCallTranscript[]>;
+}
+
+/** Stay comfortably under DynamoDB's 400 KB item limit. */
+const MAX_ITEM_BYTES = 350_000;
+
+/**
+ * Shrink a transcript until it fits in one DynamoDB item. Drops the parsed
+ * output and tool input first (rawText may still have it), then halves the longest text field
+ * until the serialized record fits.
+ */
+function fitTranscript(record: ModelCallTranscript): ModelCallTranscript {
+  const size = (r: ModelCallTranscript) => Buffer.byteLength(JSON.stringify(r), 'utf-8');
+  if (size(record) <= MAX_ITEM_BYTES) return record;
+
+  const fitted: ModelCallTranscript = {
+    ...record,
+    messages: record.messages.map((m) => ({ ...m })),
+    output: undefined,
+    toolInput: undefined,
+    truncated: true,
+  };
+
+  const truncate = (text: string) => {
+    const keep = Math.floor(text.length / 2);
+    return `${text.slice(0, keep)}\n…[truncated ${text.length - keep} chars]`;
+  };
+
+  while (size(fitted) > MAX_ITEM_BYTES) {
+    const fields: { length: number; shrink: () => void }[] = [
+      { length: fitted.systemPrompt.length, shrink: () => { fitted.systemPrompt = truncate(fitted.systemPrompt); } },
+      { length: fitted.reasoning.length, shrink: () => { fitted.reasoning = truncate(fitted.reasoning); } },
+      { length: fitted.rawText.length, shrink: () => { fitted.rawText = truncate(fitted.rawText); } },
+      ...fitted.messages.map((m) => ({ length: m.text.length, shrink: () => { m.text = truncate(m.text); } })),
+    ];
+    fields.reduce((a, b) => (b.length > a.length ? b : a)).shrink();
+  }
+  return fitted;
+}
+
+/** Default store: the DraftTranscripts DynamoDB table (draftId + callId). */
+export const dynamoTranscriptStore: TranscriptStore = {
+  async put(record) {
+    await docClient.send(
+      new PutCommand({
+        TableName: DRAFT_TRANSCRIPTS_TABLE,
+        Item: fitTranscript(record),
+      }),
+    );
+  },
+
+  async get(draftId, callId) {
+    const result = await docClient.send(
+      new GetCommand({
+        TableName: DRAFT_TRANSCRIPTS_TABLE,
+        Key: { draftId, callId },
+      }),
+    );
+    return (result.Item as ModelCallTranscript | undefined) ?? null;
+  },
+
+  async list(draftId) {
+    const items: ModelCallTranscript[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+    do {
+      const result = await docClient.send(
+        new QueryCommand({
+          TableName: DRAFT_TRANSCRIPTS_TABLE,
+          KeyConditionExpression: 'draftId = :draftId',
+          ExpressionAttributeValues: { ':draftId': draftId },
+          ExclusiveStartKey: exclusiveStartKey,
+        }),
+      );
+      items.push(...((result.Items ?? []) as ModelCallTranscript[]));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+    return items;
+  },
+};
+
+let transcriptStore: TranscriptStore = dynamoTranscriptStore;
+
+/** Replace the transcript store for this process (e.g. the local file store). */
+export function setTranscriptStore(store: TranscriptStore): void {
+  transcriptStore = store;
+}
+
+/** Persist one callModel attempt. */
+export async function putTranscript(record: ModelCallTranscript): Promise<void> {
+  await transcriptStore.put(record);
+}
+
+/** Load one transcript record. Returns null if it does not exist. */
+export async function getTranscript(draftId: string, callId: string): Promise<ModelCallTranscript | null> {
+  return transcriptStore.get(draftId, callId);
+}
+
+/** Load every callModel attempt recorded for a draft, oldest first. */
+export async function listTranscripts(draftId: string): Promise<ModelCallTranscript[]> {
+  return transcriptStore.list(draftId);
+}
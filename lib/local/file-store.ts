@@ -0,0 +1,114 @@
+import { mkdir, readFile, readdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { DraftStore } from '../lambda/shared/draft-db';
+import type { CaseStore } from '../lambda/shared/case-db';
+import type { ModelCallTranscript, TranscriptStore } from '../lambda/shared/transcript-db';
+import type { DraftCase } from '../lambda/shared/generation-state';
+import type { Case } from '../types/case';
+
+/**
+ * JSON-file implementations of DraftStore, CaseStore and TranscriptStore for
+ * the local pipeline runner. Layout under the data directory:
+ *
+ *   drafts/<draftId>.json                -- one DraftCase per file
+ *   cases/<caseDate>.json                -- one assembled Case per file
+ *   transcripts/<draftId>/<callId>.json  -- one model call per file
+ *
+ * Undefined fields are dropped on write, matching the DynamoDB marshaller's
+ * removeUndefinedValues behaviour.
+ */
+
+function fileNameFor(key: string): string {
+  return `${encodeURIComponent(key)}.json`;
+}
+
+async function readJson<T>(path: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+async function writeJson(dir: string, key: string, value: unknown): Promise<void> {
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, fileNameFor(key)), JSON.stringify(value, null, 2) + '\n', 'utf-8');
+}
+
+export function createFileDraftStore(dataDir: string): DraftStore {
+  const dir = join(dataDir, 'drafts');
+
+  return {
+    async get(draftId) {
+      const draft = await readJson<DraftCase>(join(dir, fileNameFor(draftId)));
+      if (!draft) return null;
+      return { ...draft, draftId: draft.draftId ?? draftId };
+    },
+
+    async put(draftId, draft) {
+      await writeJson(dir, draftId, { ...draft, draftId });
+    },
+
+    async list(limit) {
+      let names: string[];
+      try {
+        names = await readdir(dir);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw err;
+      }
+      const drafts: DraftCase[] = [];
+      for (const name of names.filter((n) => n.endsWith('.json')).slice(0, limit)) {
+        const draft = await readJson<DraftCase>(join(dir, name));
+        if (draft) drafts.push(draft);
+      }
+      return drafts;
+    },
+
+    async delete(draftId) {
+      await rm(join(dir, fileNameFor(draftId)), { force: true });
+    },
+  };
+}
+
+export function createFileCaseStore(dataDir: string): CaseStore {
+  const dir = join(dataDir, 'cases');
+
+  return {
+    async put(finalCase: Case) {
+      await writeJson(dir, finalCase.caseDate, finalCase);
+    },
+  };
+}
+
+export function createFileTranscriptStore(dataDir: string): TranscriptStore {
+  const dirFor = (draftId: string) => join(dataDir, 'transcripts', encodeURIComponent(draftId));
+
+  return {
+    async put(record) {
+      await writeJson(dirFor(record.draftId), record.callId, record);
+    },
+
+    async get(draftId, callId) {
+      return readJson<ModelCallTranscript>(join(dirFor(draftId), fileNameFor(callId)));
+    },
+
+    async list(draftId) {
+      const dir = dirFor(draftId);
+      let names: string[];
+      try {
+        names = await readdir(dir);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw err;
+      }
+      const records: ModelCallTranscript[] = [];
+      for (const name of names.filter((n) => n.endsWith('.json'))) {
+        const record = await readJson<ModelCallTranscript>(join(dir, name));
+        if (record) records.push(record);
+      }
+      return records.sort((a, b) => a.callId.localeCompare(b.callId));
+    },
+  };
+}
@@ -0,0 +1,130 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type {
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+} from '../lambda/shared/model-provider';
+import type { ModelCallTranscript } from '../lambda/shared/transcript-db';
+
+/**
+ * Recorded-fixture model providers. A fixture is one model response stored as
+ * JSON, keyed by step name and a hash of the prompt:
+ *
+ *   <fixturesDir>/<stepName>/<promptHash>.json
+ *
+ * The hash covers the system prompt and the full message list, so callModel's
+ * JSON-correction retries get their own fixtures. The model ID and token limits
+ * are deliberately excluded: a fixture replays regardless of which model the
+ * run is configured for.
+ *
+ * Record with createRecordingProvider (wraps Bedrock), replay with
+ * createFixtureProvider. Replaying is deterministic, so a bad generation
+ * captured from a real run can be reproduced byte-for-byte.
+ *
+ * A draft's transcript records carry the same information, so
+ * createTranscriptReplayProvider can replay a run straight from them.
+ */
+
+export interface ModelFixture {
+  stepName: string;
+  promptHash: string;
+  /** Model that produced the recorded response (informational only). */
+  modelId: string;
+  recordedAt: string;
+  response: ModelResponse;
+}
+
+/** Stable hash of everything the model sees: system prompt and messages. */
+export function promptHash(request: ModelRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ system: request.systemPrompt, messages: request.messages }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function fixturePath(fixturesDir: string, request: ModelRequest): string {
+  return join(fixturesDir, request.stepName, `${promptHash(request)}.json`);
+}
+
+/**
+ * Replay stored responses. Throws if no fixture matches the request, naming the
+ * expected file so a prompt change is easy to spot.
+ */
+export function createFixtureProvider(fixturesDir: string): ModelProvider {
+  return {
+    name: 'fixture',
+
+    async converse(request) {
+      const path = fixturePath(fixturesDir, request);
+      let raw: string;
+      try {
+        raw = await readFile(path, 'utf-8');
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+          throw new Error(
+            `No model fixture for step "${request.stepName}" (hash ${promptHash(request)}). ` +
+            `Expected ${path}. The prompt may have changed since the fixture was recorded.`,
+          );
+        }
+        throw err;
+      }
+      return (JSON.parse(raw) as ModelFixture).response;
+    },
+  };
+}
+
+/** Pass calls through to `inner` and save each response as a fixture. */
+export function createRecordingProvider(inner: ModelProvider, fixturesDir: string): ModelProvider {
+  return {
+    name: `${inner.name}+record`,
+
+    async converse(request, onDelta) {
+      const response = await inner.converse(request, onDelta);
+      const fixture: ModelFixture = {
+        stepName: request.stepName,
+        promptHash: promptHash(request),
+        modelId: request.modelId,
+        recordedAt: new Date().toISOString(),
+        response,
+      };
+      await mkdir(join(fixturesDir, request.stepName), { recursive: true });
+      await writeFile(fixturePath(fixturesDir, request), JSON.stringify(fixture, null, 2) + '\n', 'utf-8');
+      return response;
+    },
+  };
+}
+
+/**
+ * Replay responses from a draft's transcript records (see transcript-db),
+ * using the same step + prompt-hash matching as fixture files. Records that
+ * were truncated to fit the store cannot be hashed faithfully and are skipped.
+ */
+export function createTranscriptReplayProvider(transcripts: ModelCallTranscript[]): ModelProvider {
+  const byKey = new Map<string, ModelResponse>();
+  for (const t of transcripts) {
+    if (t.truncated) continue;
+    byKey.set(`${t.stepName}/${promptHash(t)}`, {
+      reasoning: t.reasoning,
+      text: t.rawText,
+      toolInput: t.toolInput,
+      usage: t.usage,
+    });
+  }
+
+  return {
+    name: 'transcript',
+
+    async converse(request) {
+      const response = byKey.get(`${request.stepName}/${promptHash(request)}`);
+      if (!response) {
+        throw new Error(
+          `No transcript matches step "${request.stepName}" (hash ${promptHash(request)}). ` +
+          'The prompt may have changed since the draft was generated, or the record was truncated.',
+        );
+      }
+      return response;
+    },
+  };
+}
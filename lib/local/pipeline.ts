@@ -0,0 +1,144 @@
+import { handler as generateTemplate } from '../lambda/generate/generate-template';
+import { handler as generateEvents } from '../lambda/generate/generate-events';
+import { handler as validateEvents } from '../lambda/generate/validate-events';
+import { handler as computeEventKnowledge } from '../lambda/generate/compute-event-knowledge';
+import { handler as generateCharacters } from '../lambda/generate/generate-characters';
+import { handler as validateCharacters } from '../lambda/generate/validate-characters';
+import { handler as generateLocations } from '../lambda/generate/generate-locations';
+import { handler as validateLocations } from '../lambda/generate/validate-locations';
+import { handler as computeFacts } from '../lambda/generate/compute-facts';
+import { handler as generateFacts } from '../lambda/generate/generate-facts';
+import { handler as validateFacts } from '../lambda/generate/validate-facts';
+import { handler as generateIntroduction } from '../lambda/generate/generate-introduction';
+import { handler as generateDocuments } from '../lambda/generate/generate-documents';
+import { handler as generateCasebook } from '../lambda/generate/generate-casebook';
+import { handler as validateCasebook } from '../lambda/generate/validate-casebook';
+import { handler as generateFollowUps } from '../lambda/generate/generate-follow-ups';
+import { handler as generateProse } from '../lambda/generate/generate-prose';
+import { handler as validateProse } from '../lambda/generate/validate-prose';
+import { handler as generateDirectory } from '../lambda/generate/generate-directory';
+import { handler as generateQuestions } from '../lambda/generate/generate-questions';
+import { handler as validateQuestions } from '../lambda/generate/validate-questions';
+import { handler as computeOptimalPath } from '../lambda/generate/compute-optimal-path';
+import { handler as computeDifficulty } from '../lambda/generate/compute-difficulty';
+import { handler as generateSolution } from '../lambda/generate/generate-solution';
+import { handler as simulatePlaythroughs } from '../lambda/generate/simulate-playthroughs';
+import { handler as storeCase } from '../lambda/generate/store-case';
+import type {
+  GenerateCaseInput,
+  OperationalState,
+  PipelineStep,
+} from '../lambda/shared/generation-state';
+
+/**
+ * In-process equivalent of the ConsultingDetective-CaseGeneration state
+ * machine. Drives the same step handlers in the same order, with the same
+ * Validate* retry loops and startFromStep resume routing, so a case can be
+ * generated on a laptop. Keep STAGES in sync with the state machine in
+ * consulting-detective-stack.ts when steps are added or reordered.
+ */
+
+type StepHandler = (state: OperationalState) => Promise<OperationalState>;
+
+interface PipelineStage {
+  step: PipelineStep;
+  run: StepHandler;
+  /** Validate* handler checked after run; failures loop back to run. */
+  validate?: StepHandler;
+  /** Error name of the state machine's Fail state for this loop. */
+  failError?: string;
+  /** Whether the state machine's ResumeFromStep choice routes here. */
+  resumable: boolean;
+}
+
+/** Retries after the first attempt before a validation loop fails (CheckX choices). */
+const MAX_STEP_RETRIES = 1;
+
+const STAGES: PipelineStage[] = [
+  { step: 'generateTemplate', run: generateTemplate, resumable: false },
+  { step: 'generateEvents', run: generateEvents, validate: validateEvents, failError: 'EventsInvalid', resumable: true },
+  { step: 'computeEventKnowledge', run: computeEventKnowledge, resumable: true },
+  { step: 'generateCharacters', run: generateCharacters, validate: validateCharacters, failError: 'CharactersInvalid', resumable: true },
+  { step: 'generateLocations', run: generateLocations, validate: validateLocations, failError: 'LocationsInvalid', resumable: true },
+  { step: 'computeFacts', run: computeFacts, resumable: true },
+  { step: 'generateFacts', run: generateFacts, validate: validateFacts, failError: 'FactsInvalid', resumable: true },
+  { step: 'generateIntroduction', run: generateIntroduction, resumable: true },
+  { step: 'generateDocuments', run: generateDocuments, resumable: true },
+  { step: 'generateCasebook', run: generateCasebook, validate: validateCasebook, failError: 'CasebookInvalid', resumable: true },
+  { step: 'generateFollowUps', run: generateFollowUps, validate: validateCasebook, failError: 'FollowUpsInvalid', resumable: true },
+  { step: 'generateProse', run: generateProse, validate: validateProse, failError: 'ProseInvalid', resumable: true },
+  { step: 'generateDirectory', run: generateDirectory, resumable: true },
+  { step: 'generateQuestions', run: generateQuestions, validate: validateQuestions, failError: 'QuestionsInvalid', resumable: true },
+  { step: 'computeOptimalPath', run: computeOptimalPath, resumable: false },
+  { step: 'computeDifficulty', run: computeDifficulty, resumable: false },
+  { step: 'generateSolution', run: generateSolution, resumable: false },
+  { step: 'simulatePlaythroughs', run: simulatePlaythroughs, resumable: false },
+  { step: 'storeCase', run: storeCase, resumable: false },
+];
+
+/** Steps accepted as startFromStep (the state machine's ResumeFromStep branches). */
+export const RESUMABLE_STEPS: PipelineStep[] = STAGES.filter((s) => s.resumable).map((s) => s.step);
+
+export interface RunPipelineOptions {
+  input: GenerateCaseInput;
+  draftId: string;
+  /** Resume at this step; earlier steps' output must already be on the draft. */
+  startFromStep?: PipelineStep;
+  /** Called as each handler starts (e.g. for CLI progress output). */
+  onStep?: (step: PipelineStep, attempt: number) => void;
+}
+
+/**
+ * Run the pipeline to completion (StoreCase) and return the final state.
+ * Throws when a validation loop gives up (message starts with the state
+ * machine's Fail error name, e.g. "EventsInvalid") or when a handler throws.
+ */
+export async function runPipeline(options: RunPipelineOptions): Promise<OperationalState> {
+  const { input, draftId, startFromStep, onStep } = options;
+
+  let startIndex = 0;
+  if (startFromStep !== undefined) {
+    startIndex = STAGES.findIndex((s) => s.step === startFromStep && s.resumable);
+    if (startIndex < 0) {
+      throw new Error(`InvalidResumeStep: startFromStep must be one of: ${RESUMABLE_STEPS.join(', ')}`);
+    }
+  }
+
+  let state: OperationalState = { input, draftId };
+
+  for (const stage of STAGES.slice(startIndex)) {
+    if (!stage.validate) {
+      onStep?.(stage.step, 1);
+      state = await stage.run(state);
+      continue;
+    }
+
+    // InitXRetries: drop any previous validation result and reset the counter
+    state = { input: state.input, draftId: state.draftId, stepRetries: 0 };
+
+    for (;;) {
+      onStep?.(stage.step, (state.stepRetries ?? 0) + 1);
+      state = await stage.validate(await stage.run(state));
+
+      if (state.validationResult?.valid) break;
+
+      const retries = state.stepRetries ?? 0;
+      if (retries >= MAX_STEP_RETRIES) {
+        throw new Error(
+          `${stage.failError}: ${stage.step} validation failed after maximum retries. ` +
+          `Errors: ${state.validationResult?.errors.join('; ')}`,
+        );
+      }
+
+      // IncrementXRetries: keep the failed result so the generator can see it
+      state = {
+        input: state.input,
+        draftId: state.draftId,
+        validationResult: state.validationResult,
+        stepRetries: retries + 1,
+      };
+    }
+  }
+
+  return state;
+}
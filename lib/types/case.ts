@@ -8,16 +8,21 @@
  *
  * The Case type is the "assembled product" of the generation pipeline:
  * template → events → characters → locations → facts → introduction →
- * casebook → prose → questions → compute optimal path (includes coherence
- * checks) → store.
+ * documents → casebook → prose → questions → compute optimal path (includes coherence
+ * checks) → compute difficulty → solution → (simulate playthroughs) → store.
  */
 
 import type { CausalEvent } from './event';
 import type { Character } from './character';
 import type { Location } from './location';
-import type { CasebookEntry } from './casebook';
+import type { CasebookEntry, DirectoryListing } from './casebook';
+import type { CaseDocument } from './document';
 import type { Fact } from './fact';
 import type { Question } from './question';
+import type { CaseSolution } from './solution';
+import type { PathAnalysis } from './path-analysis';
+import type { DifficultyAnalysis } from './difficulty-analysis';
+import type { SimulationReport } from './simulation';
 import type { CaseSetting, Difficulty } from './common';
 
 export interface Case {
@@ -52,6 +57,15 @@ export interface Case {
   /** The player's visitable address book. Keyed by entryId. */
   casebook: Record<string, CasebookEntry>;
 
+  /**
+   * Filler addresses for directory mode, searched alongside the casebook.
+   * Keyed by listingId. Absent on cases without a directory.
+   */
+  directory?: Record<string, DirectoryListing>;
+
+  /** Readable documents (newspapers, letters, ledgers). Keyed by documentId. Absent on older cases. */
+  documents?: Record<string, CaseDocument>;
+
   /** Discoverable facts -- the atoms of the mystery. Keyed by factId. */
   facts: Record<string, Fact>;
 
@@ -64,6 +78,24 @@ export interface Case {
   /** Casebook entryIds in order -- the optimal investigation path (Holmes's solution) */
   optimalPath: string[];
 
+  /**
+   * True when optimalPath was proven shortest by exhaustive search; false when
+   * the search hit its limit and a greedy path was kept. Absent on older cases.
+   */
+  optimalPathProven?: boolean;
+
+  /** Alternative paths, bottlenecks and opening moves. Absent on older cases. */
+  pathAnalysis?: PathAnalysis;
+
+  /** The Great Detective's walkthrough of optimalPath and answers. Absent on older cases. */
+  solution?: CaseSolution;
+
   /** Overall case difficulty */
   difficulty: Difficulty;
+
+  /** How hard the case measures, against the requested difficulty. Absent on older cases. */
+  difficultyAnalysis?: DifficultyAnalysis;
+
+  /** Simulated playthroughs, when generation ran them. Absent otherwise. */
+  simulation?: SimulationReport;
 }
@@ -32,6 +32,13 @@ export interface CasebookEntry {
   /** The prose fragment the player reads when visiting this entry */
   scene: string;
 
+  /**
+   * The scene as paragraphs of spans, linking passages to the facts they
+   * reveal and names to their characters/locations. Same text as `scene`.
+   * Absent on cases generated before scenes carried markup.
+   */
+  sceneSpans?: SceneSpan[][];
+
   /** characterIds of characters present/available at this entry */
   characterIds: string[];
 
@@ -44,4 +51,80 @@ export interface CasebookEntry {
    * Every entry must be gated — the introduction facts are the sole seeds.
    */
   requiresAnyFact: string[];
+
+  /**
+   * Confrontations available at this entry: presenting the right fact to a
+   * character here draws out what they hide or deny. Absent when the entry
+   * has none.
+   */
+  followUps?: FollowUp[];
+
+  /**
+   * Directory mode: what the player finds visiting this address before
+   * discovering any gate fact. Reveals nothing. Absent on cases without a
+   * directory.
+   */
+  turnedAwayScene?: string;
+}
+
+/**
+ * A filler address in the case's directory: a resident, shop or office with
+ * nothing to do with the case. In directory mode the player searches these
+ * alongside the casebook entries; visiting one is a wasted visit.
+ */
+export interface DirectoryListing {
+  /** Unique identifier, e.g. "listing_crane_tobacconist" */
+  listingId: string;
+
+  /** Display label, e.g. "J. Crane, Tobacconist" */
+  label: string;
+
+  /** Display address, e.g. "22 Wigmore St." */
+  address: string;
+
+  /** The short scene the player reads on visiting */
+  scene: string;
+}
+
+/**
+ * A follow-up interaction: once the player has discovered `presentFactId`,
+ * they can present it to `characterId` at the entry, unlocking extra prose
+ * and the facts the character had been keeping back.
+ */
+export interface FollowUp {
+  /** Unique identifier, e.g. "followup_butler_letter" */
+  followUpId: string;
+
+  /** characterId of the character confronted (present at the entry) */
+  characterId: string;
+
+  /** factId the player must present */
+  presentFactId: string;
+
+  /** The prose the player reads after presenting the fact */
+  scene: string;
+
+  /** The scene as paragraphs of spans (see CasebookEntry.sceneSpans) */
+  sceneSpans?: SceneSpan[][];
+
+  /** factIds the confrontation reveals (facts the character hides or denies) */
+  revealsFactIds: string[];
+}
+
+/**
+ * A run of scene text. Unmarked runs carry only `text`. A mention can sit
+ * inside a fact passage, so a span may carry both a factId and a
+ * characterId/locationId.
+ */
+export interface SceneSpan {
+  text: string;
+
+  /** factId this passage reveals */
+  factId?: string;
+
+  /** characterId this text names */
+  characterId?: string;
+
+  /** locationId this text names */
+  locationId?: string;
 }
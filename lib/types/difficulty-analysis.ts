@@ -0,0 +1,34 @@
+import type { Difficulty } from './common';
+
+/**
+ * DifficultyAnalysis -- how hard the finished case measures, computed from
+ * its structure and set beside the difficulty it was generated for.
+ *
+ * Each signal is rated on its own; the assessed difficulty is the mean of
+ * the ratings. Shown in the debug panel; a mismatch is a generation warning.
+ */
+export interface DifficultyAnalysis {
+  /** The difficulty the case was generated for (Case.difficulty) */
+  requested: Difficulty;
+
+  /** The mean signal rating, rounded */
+  assessed: Difficulty;
+
+  /** Mean signal rating: 0 easy, 1 medium, 2 hard */
+  score: number;
+
+  signals: DifficultySignal[];
+}
+
+export interface DifficultySignal {
+  /**
+   * casebookPerPathEntry, redHerringRatio, falseFactDensity, answerDepth or
+   * distractorsPerQuestion
+   */
+  name: string;
+
+  /** Measured value, to two decimal places */
+  value: number;
+
+  rating: Difficulty;
+}
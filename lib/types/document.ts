@@ -0,0 +1,45 @@
+import type { SceneSpan } from './casebook';
+
+/**
+ * CaseDocument -- a readable source the player can study: the day's
+ * newspaper, a letter found in a desk, a page from a ledger.
+ *
+ * Documents sit beside the casebook rather than in it. Reading one is not a
+ * visit: it costs nothing, so the optimal path assumes every document is
+ * read as soon as it becomes available. Some are available from the start
+ * (the morning paper); others are unlocked by facts, like casebook entries.
+ */
+export interface CaseDocument {
+  /** Unique identifier, e.g. "doc_morning_herald" */
+  documentId: string;
+
+  /** What sort of document this is; decides how the reader lays it out */
+  kind: DocumentKind;
+
+  /** Display title, e.g. "The Morning Herald, 14 March 1893" */
+  title: string;
+
+  /** The document's text, in a format fitting its kind and era */
+  text: string;
+
+  /** The text as paragraphs of spans (see CasebookEntry.sceneSpans) */
+  textSpans?: SceneSpan[][];
+
+  /** factIds the player learns by reading the document */
+  revealsFactIds: string[];
+
+  /**
+   * Empty: available from the start. Otherwise the document is hidden until
+   * the player discovers ANY ONE of these facts.
+   */
+  requiresAnyFact: string[];
+}
+
+export type DocumentKind =
+  | 'newspaper'
+  | 'letter'
+  | 'ledger'
+  | 'diary'
+  | 'telegram'
+  | 'report'
+  | 'notice';
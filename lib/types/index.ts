@@ -11,8 +11,13 @@ export type { CausalEvent, EventReveal, InvolvementType, EventNecessity } from '
 export type { Character } from './character';
 export type { ToneProfile } from './tone';
 export type { Location, LocationType } from './location';
-export type { CasebookEntry } from './casebook';
+export type { CasebookEntry, DirectoryListing, FollowUp, SceneSpan } from './casebook';
+export type { CaseDocument, DocumentKind } from './document';
 export type { Fact, FactCategory, KnowledgeStatus } from './fact';
-export type { Question, QuestionAnswer } from './question';
+export type { Question, QuestionAnswer, AnswerKind, AnswerPart } from './question';
+export type { CaseSolution, SolutionStep, SolutionAnswer, SolutionCitation } from './solution';
+export type { PathAnalysis } from './path-analysis';
+export type { DifficultyAnalysis, DifficultySignal } from './difficulty-analysis';
+export type { SimulationReport, SimulationStrategy, StrategyReport, Distribution } from './simulation';
 export type { CaseSetting, Difficulty } from './common';
-export type { PlayerSession, PlayerAnswer, CaseResult } from './player';
+export type { PlayerSession, PlayerAnswer, CaseResult, NotebookResult } from './player';
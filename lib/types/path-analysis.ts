@@ -0,0 +1,30 @@
+/**
+ * PathAnalysis -- how many ways there are through a case, computed alongside
+ * the optimal path and shown in the debug panel.
+ *
+ * A case with one forced sequence of visits plays like a corridor; these
+ * numbers show how much choice the player really has. Every path here is
+ * gate-feasible and answers every question.
+ */
+export interface PathAnalysis {
+  /**
+   * Covering paths with different entries, at most one entry longer than
+   * optimalPath, which comes first. Entry ids in visiting order.
+   */
+  alternativePaths: string[][];
+
+  /** optimalPath entries every covering path must visit */
+  bottleneckEntryIds: string[];
+
+  /** Entries open from the start that begin a path as short as optimalPath */
+  viableFirstMoves: string[];
+
+  /**
+   * Per questionId, the fewest casebook visits after which the question can
+   * be answered. Missing when the search stopped first.
+   */
+  earliestDepth: Record<string, number>;
+
+  /** False when the searches hit their time limit, so the lists may be short */
+  complete: boolean;
+}
@@ -5,6 +5,18 @@
  * local state as they play through a case: which entries they've visited,
  * what facts they've discovered, what subjects they've learned about,
  * and their quiz answers.
+ *
+ * In notebook mode the player keeps their own evidence: a fact goes into the
+ * notebook only when they select the passage that reveals it, and the quiz
+ * offers only what the notebook holds. Visiting still tracks discoveredFacts,
+ * which unlock casebook entries.
+ *
+ * In directory mode the casebook isn't listed: the player searches a
+ * directory of addresses, most of them irrelevant. Visiting a filler address,
+ * or an entry before its gate is met, is a wasted visit.
+ *
+ * In free-text mode the quiz is answered in the player's own words, matched
+ * against the accepted answers and their aliases when submitted.
  */
 
 export interface PlayerSession {
@@ -14,12 +26,39 @@ export interface PlayerSession {
   /** Casebook entryIds in the order the player visited them */
   visitedEntries: string[];
 
-  /** factIds the player has revealed through their visits */
+  /** factIds the player has revealed through their visits (in notebook mode, used only to unlock entries) */
   discoveredFacts: string[];
 
   /** characterIds and locationIds the player has learned about through discovered facts */
   discoveredSubjects: string[];
 
+  /** documentIds the player has read (reading is free; not counted as visits) */
+  readDocuments?: string[];
+
+  /** followUpIds the player has unlocked by presenting the right fact to the right character */
+  completedFollowUps?: string[];
+
+  /** How many times the player presented a fact that unlocked nothing */
+  wrongPresentations?: number;
+
+  /** Directory mode: the player finds addresses by searching the directory. Chosen before the first visit. */
+  directoryMode?: boolean;
+
+  /** Directory mode: listingIds and entryIds visited to no purpose, in order (each counted once) */
+  wastedVisits?: string[];
+
+  /** Notebook mode: facts are recorded only when the player selects their passage. Chosen before the first visit. */
+  notebookMode?: boolean;
+
+  /** Notebook mode: factIds the player has recorded, in order (seeded with the introduction facts) */
+  collectedFacts?: string[];
+
+  /** Notebook mode: how many times the player selected a passage that reveals no fact */
+  notebookMisses?: number;
+
+  /** Free-text mode: quiz answers are typed rather than chosen from a list. Chosen before the first visit. */
+  freeTextAnswers?: boolean;
+
   /** The player's submitted quiz answers */
   answers: PlayerAnswer[];
 
@@ -40,14 +79,35 @@ export interface PlayerAnswer {
   /** Which question this answers */
   questionId: string;
 
-  /** The ID the player selected as their answer (factId, characterId, or locationId) */
+  /**
+   * The ID the player selected as their answer (factId, characterId, or locationId).
+   * In free-text mode, the accepted answer their text matched, or '' if none.
+   * Empty for multi, ordered, timeline and compound answers, which use answerIds.
+   */
   answerId: string;
+
+  /**
+   * Multi, ordered, timeline and compound answers: the player's picks. Ordered
+   * and timeline answers keep the player's order; compound answers have one per part ('' if the
+   * part went unanswered or, in free-text mode, unmatched). In free-text mode, multi and ordered
+   * answers have one per line typed ('' if unmatched).
+   */
+  answerIds?: string[];
+
+  /** Free-text mode: what the player wrote */
+  text?: string;
+
+  /** Free-text mode, compound, multi and ordered answers: what the player wrote for each part or line */
+  texts?: string[];
 }
 
 export interface CaseResult {
-  /** How many questions the player got right */
+  /** How many questions the player got fully right */
   questionsCorrect: number;
 
+  /** How many questions earned partial credit (multi, ordered, timeline and compound answers) */
+  questionsPartial?: number;
+
   /** Total number of questions */
   questionsTotal: number;
 
@@ -57,6 +117,32 @@ export interface CaseResult {
   /** How many entries Holmes needed (optimal path length) */
   optimalEntries: number;
 
+  /** Directory mode: visits that found nothing (counted in entriesVisited) */
+  wastedVisits?: number;
+
+  /** Presentations of evidence that unlocked nothing (each costs points) */
+  wrongPresentations?: number;
+
+  /** Notebook scoring; absent when the case was played without notebook mode */
+  notebook?: NotebookResult;
+
   /** Final score */
   score: number;
 }
+
+export interface NotebookResult {
+  /** Facts in the notebook, excluding the introduction facts it started with */
+  factsCollected: number;
+
+  /** Key facts (quiz answers and the leads that unlock Holmes's path) in the notebook */
+  keyFactsCollected: number;
+
+  /** Key facts in the case */
+  keyFactsTotal: number;
+
+  /** Selections of passages that reveal no fact */
+  misses: number;
+
+  /** Points added to (or, when negative, taken from) the score */
+  bonus: number;
+}
@@ -13,11 +13,26 @@
  * - 'person': player picks from discovered character subjects
  * - 'location': player picks from discovered location subjects
  * - 'fact': player picks from discovered facts filtered by factCategory
+ *
+ * The answer kind determines how many the player picks, and how partial
+ * answers are scored:
+ * - 'single' (the default): one; right or wrong
+ * - 'multi': all that apply; credit for each right pick, less each wrong one
+ * - 'ordered': a sequence; credit for the longest run in the right order
+ * - 'compound': one per part ("who, and with what?"); credit per part
+ * - 'timeline': the question's timeline facts, dragged into the order their
+ *   events happened; credit for each pair placed in the right order
+ *
+ * In free-text mode the player types the answer instead. It is matched in the
+ * browser against each accepted answer's name (or fact description) and its
+ * aliases, so the list of candidates is never shown.
  */
 
 import type { Difficulty } from './common';
 import type { FactCategory } from './fact';
 
+export type AnswerKind = 'single' | 'multi' | 'ordered' | 'compound' | 'timeline';
+
 export interface Question {
   /** Unique identifier, e.g. "q_01_who" */
   questionId: string;
@@ -36,6 +51,15 @@ export interface Question {
 }
 
 export interface QuestionAnswer {
+  /** How the answer is given; absent means 'single' */
+  kind?: AnswerKind;
+
+  /** Compound answers: names this (the first) part, e.g. "Who" */
+  label?: string;
+
+  /** Compound answers: the remaining parts, each answered like a single answer */
+  parts?: AnswerPart[];
+
   /** What the player selects from */
   type: 'person' | 'location' | 'fact';
 
@@ -43,10 +67,42 @@ export interface QuestionAnswer {
   factCategory?: FactCategory;
 
   /**
-   * Acceptable correct answer IDs.
+   * Acceptable correct answer IDs. For 'multi', every one must be picked; for
+   * 'ordered', they are the correct sequence; for 'timeline', the facts to
+   * order, earliest first.
    * - For 'fact': factIds
    * - For 'person': characterIds
    * - For 'location': locationIds
    */
   acceptedIds: string[];
+
+  /**
+   * Free-text mode: other ways a player might write each accepted answer,
+   * keyed by acceptedId -- surnames, nicknames, short paraphrases of a fact.
+   * The character name, location name or fact description is always accepted
+   * and needn't be repeated.
+   */
+  aliases?: Record<string, string[]>;
+
+  /**
+   * Timeline answers: when each accepted fact happened -- the timestamp of the
+   * event that reveals it. Scoring compares the player's order against these.
+   */
+  eventTimes?: Record<string, number>;
+}
+
+/** One part of a compound answer, e.g. "With what" after "Who". */
+export interface AnswerPart {
+  /** Short name shown beside the part's options, e.g. "With what" */
+  label: string;
+
+  type: 'person' | 'location' | 'fact';
+
+  factCategory?: FactCategory;
+
+  /** Acceptable answer IDs (any one is right) */
+  acceptedIds: string[];
+
+  /** Free-text mode: aliases keyed by acceptedId */
+  aliases?: Record<string, string[]>;
 }
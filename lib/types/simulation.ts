@@ -0,0 +1,44 @@
+/**
+ * SimulationReport -- how a case plays, measured by simulated players before
+ * it is published.
+ *
+ * Each strategy plays the case many times through the same session rules as
+ * the UI, stopping once it could answer every question or has nowhere left to
+ * go. Visits and scores are reported as distributions across the runs.
+ */
+export type SimulationStrategy = 'randomWalk' | 'breadthFirst' | 'greedyNewestLead' | 'oracle';
+
+export interface SimulationReport {
+  /** Seed of the random choices, so a report can be reproduced */
+  seed: number;
+
+  /** Length of the optimal path: the visits at which no penalty applies */
+  optimalEntries: number;
+
+  strategies: StrategyReport[];
+}
+
+export interface StrategyReport {
+  strategy: SimulationStrategy;
+
+  /** Playthroughs run (1 for oracle, which never varies) */
+  runs: number;
+
+  /** Casebook entries visited per playthrough */
+  visits: Distribution;
+
+  /** Final score per playthrough (CaseResult.score) */
+  scores: Distribution;
+
+  /** Share of playthroughs that answered every question fully right */
+  solvedShare: number;
+}
+
+export interface Distribution {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  /** 90th percentile */
+  p90: number;
+}
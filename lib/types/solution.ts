@@ -0,0 +1,50 @@
+/**
+ * CaseSolution -- the Great Detective's account of the case, shown after the
+ * player answers.
+ *
+ * Walks Holmes's optimal path entry by entry, then answers each question
+ * citing the facts that settle it and where on the path they were found.
+ * The prose is generated; the citations are computed from the path, so they
+ * always point at facts Holmes actually had.
+ */
+export interface CaseSolution {
+  /** One step per optimalPath entry, in path order */
+  walkthrough: SolutionStep[];
+
+  /** One per question, in question order */
+  answers: SolutionAnswer[];
+
+  /** The closing word: what happened, in brief */
+  summary: string;
+}
+
+export interface SolutionStep {
+  /** The optimalPath entry */
+  entryId: string;
+
+  /** What the detective learned there and why they went next where they did */
+  text: string;
+
+  /**
+   * Facts first learned at this entry, or by a confrontation its visit made
+   * possible, that matter to the solution
+   */
+  factIds: string[];
+}
+
+export interface SolutionAnswer {
+  questionId: string;
+
+  /** The detective's reasoning to the answer */
+  text: string;
+
+  /** Facts that answer the question and where Holmes first found each one */
+  citations: SolutionCitation[];
+}
+
+export interface SolutionCitation {
+  factId: string;
+
+  /** entryId, documentId, followUpId, or "introduction" */
+  source: string;
+}
@@ -0,0 +1,117 @@
+import { useMemo, useState } from 'react';
+import type { CasebookEntry, DirectoryListing } from '@shared/index';
+
+interface AddressDirectoryProps {
+  /** Every casebook entry, gated or not: the directory doesn't tell them apart. */
+  entries: Record<string, CasebookEntry>;
+  /** Filler listings. */
+  listings: Record<string, DirectoryListing>;
+  /** entryIds and listingIds the player has called at, in order. */
+  visitedIds: string[];
+  selectedId: string | null;
+  onVisit: (id: string) => void;
+}
+
+interface Address {
+  id: string;
+  label: string;
+  address: string;
+}
+
+/** Shortest query that returns results, so the directory can't just be scrolled. */
+const MIN_QUERY_LENGTH = 2;
+const MAX_RESULTS = 12;
+
+const normalize = (s: string) => s.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/** Addresses whose label or address contains every word of the query. */
+function searchDirectory(addresses: Address[], query: string): Address[] {
+  const words = normalize(query).split(' ').filter(Boolean);
+  if (words.join('').length < MIN_QUERY_LENGTH) return [];
+  return addresses
+    .filter((a) => {
+      const haystack = normalize(`${a.label} ${a.address}`);
+      return words.every((w) => haystack.includes(w));
+    })
+    .sort((a, b) => a.label.localeCompare(b.label))
+    .slice(0, MAX_RESULTS);
+}
+
+/**
+ * Directory mode's replacement for the casebook list: the player looks
+ * addresses up by name or street among many that don't matter, and the
+ * addresses already called at are kept below for a return visit.
+ */
+export function AddressDirectory({
+  entries,
+  listings,
+  visitedIds,
+  selectedId,
+  onVisit,
+}: AddressDirectoryProps) {
+  const [query, setQuery] = useState('');
+
+  const addresses = useMemo((): Address[] => [
+    ...Object.values(entries).map((e) => ({ id: e.entryId, label: e.label, address: e.address })),
+    ...Object.values(listings).map((l) => ({ id: l.listingId, label: l.label, address: l.address })),
+  ], [entries, listings]);
+  const byId = useMemo(() => new Map(addresses.map((a) => [a.id, a])), [addresses]);
+
+  const results = useMemo(() => searchDirectory(addresses, query), [addresses, query]);
+  const visitedSet = new Set(visitedIds);
+  const visited = [...visitedSet].map((id) => byId.get(id)).filter((a): a is Address => a != null);
+
+  const renderAddress = (a: Address) => {
+    const selected = a.id === selectedId;
+    return (
+      <li key={a.id}>
+        <button
+          onClick={() => onVisit(a.id)}
+          className={`w-full text-left px-3 py-2 rounded-md transition-colors ${
+            selected
+              ? 'bg-stone-800 text-white border border-transparent'
+              : visitedSet.has(a.id)
+                ? 'bg-stone-100 text-stone-600 hover:bg-stone-200 border border-stone-200'
+                : 'bg-white text-stone-900 hover:bg-stone-50 border border-stone-200'
+          }`}
+        >
+          <div className="font-medium text-sm break-words leading-snug">{a.label}</div>
+          <div className={`text-xs break-words ${selected ? 'text-stone-300' : 'text-stone-500'}`}>
+            {a.address}
+          </div>
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-stone-500 uppercase tracking-wide">
+          Directory
+        </h3>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name or street…"
+          className="w-full rounded-md border border-stone-300 bg-white px-3 py-1.5 text-sm"
+        />
+        {normalize(query).length >= MIN_QUERY_LENGTH && (
+          results.length > 0
+            ? <ul className="space-y-1">{results.map(renderAddress)}</ul>
+            : <p className="text-sm text-stone-500">No listing matches.</p>
+        )}
+      </div>
+
+      {visited.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-stone-500 uppercase tracking-wide">
+            Called at ({visited.length})
+          </h3>
+          <ul className="space-y-1">{visited.map(renderAddress)}</ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,123 @@
-import type { CasebookEntry, Character, Fact } from '@shared/index';
+import { useEffect, useState, type KeyboardEvent, type MouseEvent, type ReactNode } from 'react';
+import type { CasebookEntry, Character, Fact, FollowUp, Location, SceneSpan } from '@shared/index';
 
 interface CasebookEntryViewProps {
   entry: CasebookEntry;
   characters: Record<string, Character>;
+  locations: Record<string, Location>;
   facts: Record<string, Fact>;
   isNewVisit: boolean;
   /** When false, "New facts discovered" is hidden until user has acknowledged the facts spoiler warning. */
   showNewFactsDiscovered?: boolean;
+  /** When true, passages that reveal a fact are highlighted and can be tapped to show the fact. */
+  showFactHighlights?: boolean;
+  /**
+   * Notebook mode: nothing is highlighted and every sentence can be selected;
+   * selecting one records its fact. Replaces highlights and "New facts discovered".
+   */
+  notebookMode?: boolean;
+  /** Notebook mode: factIds already in the notebook (their passages are underlined). */
+  collectedFactIds?: string[];
+  /** Notebook mode: called with the selected sentence's factId, or undefined if it reveals none. */
+  onSelectPassage?: (factId: string | undefined) => void;
+  /**
+   * Confrontations: when set, the player can present a known fact to a character
+   * here. Returns the follow-up it unlocks, or null if the character is unmoved.
+   */
+  onPresentEvidence?: (characterId: string, factId: string) => FollowUp | null;
+  /** Facts the player can present (the notebook in notebook mode). */
+  knownFactIds?: string[];
+  /** followUpIds already unlocked; their scenes are shown below the entry's. */
+  completedFollowUpIds?: string[];
+}
+
+/**
+ * Props that make an inline span act as a button (click, Enter or Space).
+ * `onActivate` gets the element clicked, or the span itself from the keyboard.
+ */
+export function clickableSpanProps(onActivate: (target: EventTarget) => void) {
+  return {
+    role: 'button',
+    tabIndex: 0,
+    onClick: (e: MouseEvent) => onActivate(e.target),
+    onKeyDown: (e: KeyboardEvent) => {
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        onActivate(e.currentTarget);
+      }
+    },
+  };
+}
+
+/** Ends of a sentence: closing punctuation, any closing quotes or brackets, then space. */
+const SENTENCE_END = /[.!?]+["'”’)]*\s+/g;
+/** Titles whose full stop ends no sentence ("Mr. Holmes"). */
+const ABBREVIATION = /\b(?:Mr|Mrs|Ms|Dr|St|Capt|Col|Rev|Prof|Sgt|Insp)\.$/;
+
+/**
+ * Notebook mode: a paragraph's spans cut into sentences, the unit a player
+ * selects. Spans crossing a sentence end are split, keeping their marks, so
+ * the selectable shapes follow the prose rather than the fact markup.
+ */
+export function sentenceUnits(paragraph: SceneSpan[]): SceneSpan[][] {
+  const units: SceneSpan[][] = [[]];
+  for (const span of paragraph) {
+    let start = 0;
+    for (const match of span.text.matchAll(SENTENCE_END)) {
+      const end = match.index + match[0].length;
+      if (ABBREVIATION.test(span.text.slice(0, end).trimEnd())) continue;
+      units[units.length - 1].push({ ...span, text: span.text.slice(start, end) });
+      units.push([]);
+      start = end;
+    }
+    if (start < span.text.length) units[units.length - 1].push({ ...span, text: span.text.slice(start) });
+  }
+  return units.filter((unit) => unit.length > 0);
+}
+
+/**
+ * Notebook mode: the fact a sentence selection records. The fact of the span
+ * clicked, or else the first fact in the sentence (so anywhere in a sentence
+ * that reveals one will do).
+ */
+export function selectedFactId(unit: SceneSpan[], target: EventTarget): string | undefined {
+  const clicked = target instanceof Element
+    ? target.closest<HTMLElement>('[data-fact-id]')?.dataset.factId
+    : undefined;
+  return clicked ?? unit.find((span) => span.factId)?.factId;
 }
 
 export function CasebookEntryView({
   entry,
   characters,
+  locations,
   facts,
   isNewVisit,
   showNewFactsDiscovered = false,
+  showFactHighlights = false,
+  notebookMode = false,
+  collectedFactIds = [],
+  onSelectPassage,
+  onPresentEvidence,
+  knownFactIds = [],
+  completedFollowUpIds = [],
 }: CasebookEntryViewProps) {
+  const [openFactId, setOpenFactId] = useState<string | null>(null);
+  /** Notebook mode: outcome of the last selection, shown under the scene. */
+  const [notebookNote, setNotebookNote] = useState<string | null>(null);
+  const [presentCharacterId, setPresentCharacterId] = useState('');
+  const [presentFactId, setPresentFactId] = useState('');
+  /** Outcome of the last presentation that unlocked nothing. */
+  const [presentNote, setPresentNote] = useState<string | null>(null);
+
+  useEffect(() => {
+    setOpenFactId(null);
+    setNotebookNote(null);
+    setPresentCharacterId('');
+    setPresentFactId('');
+    setPresentNote(null);
+  }, [entry.entryId]);
+
   const presentCharacters = entry.characterIds
     .map((id) => characters[id])
     .filter(Boolean);
@@ -24,6 +126,96 @@ export function CasebookEntryView({
     .map((id) => facts[id])
     .filter(Boolean);
 
+  const completedFollowUps = (entry.followUps ?? []).filter((fu) =>
+    completedFollowUpIds.includes(fu.followUpId),
+  );
+
+  const presentableFacts = knownFactIds
+    .map((id) => facts[id])
+    .filter(Boolean);
+
+  const presentEvidence = () => {
+    if (!onPresentEvidence || !presentCharacterId || !presentFactId) return;
+    const followUp = onPresentEvidence(presentCharacterId, presentFactId);
+    setPresentNote(followUp ? null : `${characters[presentCharacterId]?.name ?? 'They'} is unmoved.`);
+    setPresentFactId('');
+  };
+
+  const highlightFacts = showFactHighlights && !notebookMode;
+  const openFact = highlightFacts && openFactId ? facts[openFactId] : undefined;
+
+  const selectPassage = (factId: string | undefined) => {
+    const fact = factId ? facts[factId] : undefined;
+    if (!fact) {
+      setNotebookNote('Nothing of note in that sentence.');
+    } else if (collectedFactIds.includes(fact.factId)) {
+      setNotebookNote(`Already in your notebook: ${fact.description}`);
+    } else {
+      setNotebookNote(`Added to your notebook: ${fact.description}`);
+    }
+    onSelectPassage?.(fact?.factId);
+  };
+
+  const renderSpan = (span: SceneSpan, key: number) => {
+    const character = span.characterId ? characters[span.characterId] : undefined;
+    const location = span.locationId ? locations[span.locationId] : undefined;
+    let content: ReactNode = span.text;
+    if (character) {
+      content = (
+        <span className="font-medium text-stone-900" title={`${character.name} (${character.societalRole})`}>
+          {content}
+        </span>
+      );
+    } else if (location) {
+      content = (
+        <span className="font-medium text-stone-900" title={location.name}>
+          {content}
+        </span>
+      );
+    }
+
+    const factId = span.factId;
+    if (notebookMode) {
+      return (
+        <span
+          key={key}
+          data-fact-id={factId}
+          className={factId && collectedFactIds.includes(factId) ? 'underline decoration-amber-400 decoration-2' : undefined}
+        >
+          {content}
+        </span>
+      );
+    }
+    if (!highlightFacts || !factId || !facts[factId]) {
+      return <span key={key}>{content}</span>;
+    }
+    return (
+      <span
+        key={key}
+        {...clickableSpanProps(() => setOpenFactId((current) => (current === factId ? null : factId)))}
+        className={`cursor-pointer border-b border-emerald-300 ${
+          openFactId === factId ? 'bg-emerald-200' : 'bg-emerald-50 hover:bg-emerald-100'
+        }`}
+      >
+        {content}
+      </span>
+    );
+  };
+
+  /** Notebook mode selects whole sentences; otherwise spans render as they are. */
+  const renderParagraph = (paragraph: SceneSpan[]) =>
+    notebookMode
+      ? sentenceUnits(paragraph).map((unit, i) => (
+          <span
+            key={i}
+            {...clickableSpanProps((target) => selectPassage(selectedFactId(unit, target)))}
+            className="cursor-pointer hover:bg-amber-50"
+          >
+            {unit.map(renderSpan)}
+          </span>
+        ))
+      : paragraph.map(renderSpan);
+
   return (
     <div className="space-y-6">
       <div>
@@ -32,11 +224,28 @@ export function CasebookEntryView({
       </div>
 
       <div className="space-y-4">
-        {entry.scene.split('\n').filter(p => p.trim()).map((paragraph, i) => (
-          <p key={i} className="text-stone-700 leading-relaxed">
-            {paragraph}
-          </p>
-        ))}
+        {entry.sceneSpans
+          ? entry.sceneSpans.map((paragraph, i) => (
+              <p key={i} className="text-stone-700 leading-relaxed">
+                {renderParagraph(paragraph)}
+              </p>
+            ))
+          : entry.scene.split('\n').filter(p => p.trim()).map((paragraph, i) => (
+              <p key={i} className="text-stone-700 leading-relaxed">
+                {paragraph}
+              </p>
+            ))}
+        {openFact && (
+          <div className="flex items-start gap-2 text-sm text-emerald-800 bg-emerald-50 border border-emerald-200 rounded-md px-3 py-2">
+            <span className="font-semibold">Fact:</span>
+            <span>{openFact.description}</span>
+          </div>
+        )}
+        {notebookMode && notebookNote && (
+          <div className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+            {notebookNote}
+          </div>
+        )}
       </div>
 
       {presentCharacters.length > 0 && (
@@ -60,7 +269,74 @@ export function CasebookEntryView({
         </div>
       )}
 
-      {showNewFactsDiscovered && isNewVisit && revealedFacts.length > 0 && (
+      {completedFollowUps.map((fu) => (
+        <div key={fu.followUpId} className="border-t border-stone-200 pt-4 space-y-4">
+          <h4 className="text-sm font-semibold text-stone-500">
+            Confronting {characters[fu.characterId]?.name ?? 'a witness'}
+          </h4>
+          {(fu.sceneSpans ?? fu.scene.split('\n').filter(p => p.trim()).map((text) => [{ text }])).map((paragraph, i) => (
+            <p key={i} className="text-stone-700 leading-relaxed">
+              {renderParagraph(paragraph)}
+            </p>
+          ))}
+          {showNewFactsDiscovered && !notebookMode && (
+            <ul className="space-y-1">
+              {fu.revealsFactIds.map((id) => facts[id]).filter(Boolean).map((fact) => (
+                <li
+                  key={fact.factId}
+                  className="flex items-start gap-2 text-sm text-emerald-800 bg-emerald-50 border border-emerald-200 rounded-md px-3 py-2"
+                >
+                  <span className="text-emerald-500 mt-0.5">+</span>
+                  <span>{fact.description}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+
+      {onPresentEvidence && presentCharacters.length > 0 && presentableFacts.length > 0 && (
+        <div className="border-t border-stone-200 pt-4">
+          <h4 className="text-sm font-semibold text-stone-500 mb-2">
+            Present evidence
+          </h4>
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={presentCharacterId}
+              onChange={(e) => { setPresentCharacterId(e.target.value); setPresentNote(null); }}
+              className="rounded-md border border-stone-300 bg-white px-2 py-1.5 text-sm"
+            >
+              <option value="">Choose someone…</option>
+              {presentCharacters.map((char) => (
+                <option key={char.characterId} value={char.characterId}>{char.name}</option>
+              ))}
+            </select>
+            <select
+              value={presentFactId}
+              onChange={(e) => { setPresentFactId(e.target.value); setPresentNote(null); }}
+              className="min-w-0 flex-1 rounded-md border border-stone-300 bg-white px-2 py-1.5 text-sm"
+            >
+              <option value="">Choose a fact…</option>
+              {presentableFacts.map((fact) => (
+                <option key={fact.factId} value={fact.factId}>{fact.description}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={presentEvidence}
+              disabled={!presentCharacterId || !presentFactId}
+              className="shrink-0 px-3 py-1.5 rounded-md bg-stone-800 text-white text-sm font-medium hover:bg-stone-700 disabled:opacity-50"
+            >
+              Present
+            </button>
+          </div>
+          {presentNote && (
+            <p className="mt-2 text-sm text-stone-600">{presentNote}</p>
+          )}
+        </div>
+      )}
+
+      {showNewFactsDiscovered && !notebookMode && isNewVisit && revealedFacts.length > 0 && (
         <div className="border-t border-stone-200 pt-4">
           <h4 className="text-sm font-semibold text-emerald-700 mb-2">
             New facts discovered
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import type {
+  AnswerPart,
   Case,
   CausalEvent,
   Character,
@@ -8,6 +9,7 @@ import type {
   Fact,
   Question,
 } from '@shared/index';
+import { answerParts } from '@game/session';
 import { DiscoveryGraph } from './debug/DiscoveryGraph.tsx';
 import { EventsGraph } from './debug/EventsGraph.tsx';
 import { LocationsGraph } from './debug/LocationsGraph.tsx';
@@ -60,6 +62,23 @@ function OverviewSection({ gameCase }: { gameCase: Case }) {
       <KeyValue label="caseDate" value={gameCase.caseDate} mono />
       <KeyValue label="title" value={gameCase.title} />
       <KeyValue label="difficulty" value={gameCase.difficulty} mono />
+      {gameCase.difficultyAnalysis && (
+        <div>
+          <div className="text-stone-500 font-medium text-sm mb-1">
+            difficultyAnalysis
+            <span className={`ml-2 text-xs font-normal ${
+              gameCase.difficultyAnalysis.assessed === gameCase.difficultyAnalysis.requested ? 'text-stone-400' : 'text-amber-700'
+            }`}>
+              measures {gameCase.difficultyAnalysis.assessed} (score {gameCase.difficultyAnalysis.score})
+            </span>
+          </div>
+          <div className="space-y-1 pl-4 border-l-2 border-stone-200 text-sm">
+            {gameCase.difficultyAnalysis.signals.map((s) => (
+              <KeyValue key={s.name} label={s.name} value={`${s.value} → ${s.rating}`} mono />
+            ))}
+          </div>
+        </div>
+      )}
       <div>
         <div className="text-stone-500 font-medium text-sm mb-1">setting</div>
         <div className="space-y-1 pl-4 border-l-2 border-stone-200 text-sm">
@@ -106,7 +125,14 @@ function OverviewSection({ gameCase }: { gameCase: Case }) {
         </ul>
       </div>
       <div>
-        <div className="text-stone-500 font-medium text-sm mb-2">optimalPath</div>
+        <div className="text-stone-500 font-medium text-sm mb-2">
+          optimalPath
+          {gameCase.optimalPathProven != null && (
+            <span className="ml-2 text-xs font-normal text-stone-400">
+              {gameCase.optimalPathProven ? '(proven shortest)' : '(greedy; not proven shortest)'}
+            </span>
+          )}
+        </div>
         <ol className="list-decimal list-inside space-y-1 font-mono text-xs">
           {gameCase.optimalPath.map((entryId, i) => {
             const entry = gameCase.casebook[entryId];
@@ -122,6 +148,78 @@ function OverviewSection({ gameCase }: { gameCase: Case }) {
           })}
         </ol>
       </div>
+      {gameCase.pathAnalysis && (
+        <div>
+          <div className="text-stone-500 font-medium text-sm mb-2">
+            pathAnalysis
+            {!gameCase.pathAnalysis.complete && (
+              <span className="ml-2 text-xs font-normal text-stone-400">(search stopped early; lists may be short)</span>
+            )}
+          </div>
+          <div className="space-y-2 font-mono text-xs">
+            <div>
+              <span className="text-stone-500">bottlenecks ({gameCase.pathAnalysis.bottleneckEntryIds.length}/{gameCase.optimalPath.length}):</span>{' '}
+              <span className="text-stone-600">{gameCase.pathAnalysis.bottleneckEntryIds.join(', ') || '—'}</span>
+            </div>
+            <div>
+              <span className="text-stone-500">viable first moves ({gameCase.pathAnalysis.viableFirstMoves.length}):</span>{' '}
+              <span className="text-stone-600">{gameCase.pathAnalysis.viableFirstMoves.join(', ') || '—'}</span>
+            </div>
+            <div>
+              <span className="text-stone-500">earliest depth:</span>
+              <ul className="pl-3">
+                {gameCase.questions.map((q) => (
+                  <li key={q.questionId}>
+                    <span className="text-stone-600">{q.questionId}</span>
+                    <span className="text-stone-500 ml-2">— {gameCase.pathAnalysis!.earliestDepth[q.questionId] ?? '?'}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <span className="text-stone-500">alternative paths ({gameCase.pathAnalysis.alternativePaths.length}):</span>
+              <ol className="list-decimal list-inside">
+                {gameCase.pathAnalysis.alternativePaths.map((path, i) => (
+                  <li key={i} className="text-stone-600">
+                    {path.join(' → ') || '(introduction only)'}
+                    <span className="text-stone-400 ml-2">({path.length})</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </div>
+        </div>
+      )}
+      {gameCase.simulation && (
+        <div>
+          <div className="text-stone-500 font-medium text-sm mb-2">
+            simulation
+            <span className="ml-2 text-xs font-normal text-stone-400">(seed {gameCase.simulation.seed})</span>
+          </div>
+          <table className="font-mono text-xs text-stone-600">
+            <thead className="text-stone-500">
+              <tr>
+                <th className="text-left pr-4 font-medium">strategy</th>
+                <th className="text-right pr-4 font-medium">runs</th>
+                <th className="text-right pr-4 font-medium">solved</th>
+                <th className="text-right pr-4 font-medium">visits (median / p90)</th>
+                <th className="text-right font-medium">score (median / p90)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {gameCase.simulation.strategies.map((s) => (
+                <tr key={s.strategy}>
+                  <td className="pr-4">{s.strategy}</td>
+                  <td className="text-right pr-4">{s.runs}</td>
+                  <td className="text-right pr-4">{Math.round(s.solvedShare * 100)}%</td>
+                  <td className="text-right pr-4">{s.visits.median} / {s.visits.p90}</td>
+                  <td className="text-right">{s.scores.median} / {s.scores.p90}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 }
@@ -477,8 +575,9 @@ function FactsSection({ gameCase }: { gameCase: Case }) {
   );
   const answerForCount: Record<string, number> = {};
   for (const q of gameCase.questions) {
-    if (q.answer.type === 'fact') {
-      for (const id of q.answer.acceptedIds) {
+    for (const part of answerParts(q.answer)) {
+      if (part.type !== 'fact') continue;
+      for (const id of part.acceptedIds) {
         answerForCount[id] = (answerForCount[id] ?? 0) + 1;
       }
     }
@@ -501,8 +600,8 @@ function FactsSection({ gameCase }: { gameCase: Case }) {
 }
 
 function QuestionRow({ q, gameCase }: { q: Question; gameCase: Case }) {
-  const resolveLabel = (id: string): string => {
-    switch (q.answer.type) {
+  const resolveLabel = (part: AnswerPart, id: string): string => {
+    switch (part.type) {
       case 'fact':
         return gameCase.facts[id]?.description ?? id;
       case 'person':
@@ -521,25 +620,31 @@ function QuestionRow({ q, gameCase }: { q: Question; gameCase: Case }) {
         <span className="text-xs text-stone-500">{q.points} pts · {q.difficulty}</span>
       </div>
       <p className="font-medium text-stone-800">{q.text}</p>
-      <KeyValue label="answer.type" value={q.answer.type} mono />
-      {q.answer.factCategory && (
-        <KeyValue label="answer.factCategory" value={q.answer.factCategory} mono />
-      )}
-      <div>
-        <div className="text-stone-500 font-medium text-sm mb-1">answer.acceptedIds</div>
-        <ul className="list-disc list-inside space-y-0.5 font-mono text-xs text-stone-600">
-          {q.answer.acceptedIds.length === 0 ? (
-            <li className="text-stone-400">—</li>
-          ) : (
-            q.answer.acceptedIds.map((id) => (
-              <li key={id}>
-                <span className="text-stone-500">{id}</span>
-                <span className="text-stone-600 ml-1">— {resolveLabel(id)}</span>
-              </li>
-            ))
+      <KeyValue label="answer.kind" value={q.answer.kind ?? 'single'} mono />
+      {answerParts(q.answer).map((part, i) => (
+        <div key={i} className="space-y-2">
+          {part.label && <KeyValue label="label" value={part.label} />}
+          <KeyValue label="type" value={part.type} mono />
+          {part.factCategory && (
+            <KeyValue label="factCategory" value={part.factCategory} mono />
           )}
-        </ul>
-      </div>
+          <div>
+            <div className="text-stone-500 font-medium text-sm mb-1">acceptedIds</div>
+            <ul className="list-disc list-inside space-y-0.5 font-mono text-xs text-stone-600">
+              {part.acceptedIds.length === 0 ? (
+                <li className="text-stone-400">—</li>
+              ) : (
+                part.acceptedIds.map((id) => (
+                  <li key={id}>
+                    <span className="text-stone-500">{id}</span>
+                    <span className="text-stone-600 ml-1">— {resolveLabel(part, id)}</span>
+                  </li>
+                ))
+              )}
+            </ul>
+          </div>
+        </div>
+      ))}
     </div>
   );
 }
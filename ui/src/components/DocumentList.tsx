@@ -0,0 +1,64 @@
+import type { CaseDocument } from '@shared/index';
+
+interface DocumentListProps {
+  /** Filtered documents (only those available given current discovered facts). */
+  documents: Record<string, CaseDocument>;
+  readDocumentIds: string[];
+  selectedDocumentId: string | null;
+  onSelectDocument: (documentId: string) => void;
+}
+
+export function DocumentList({
+  documents,
+  readDocumentIds,
+  selectedDocumentId,
+  onSelectDocument,
+}: DocumentListProps) {
+  const readSet = new Set(readDocumentIds);
+  const documentList = Object.values(documents);
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-stone-500 uppercase tracking-wide">
+        Documents ({documentList.filter((d) => readSet.has(d.documentId)).length}/{documentList.length} read)
+      </h3>
+      <ul className="space-y-1">
+        {documentList.map((doc) => {
+          const read = readSet.has(doc.documentId);
+          const selected = doc.documentId === selectedDocumentId;
+
+          return (
+            <li key={doc.documentId}>
+              <button
+                onClick={() => onSelectDocument(doc.documentId)}
+                className={`w-full text-left px-3 py-2 rounded-md transition-colors ${
+                  selected
+                    ? 'bg-stone-800 text-white border border-transparent'
+                    : read
+                      ? 'bg-stone-100 text-stone-600 hover:bg-stone-200 border border-stone-200'
+                      : 'bg-white text-stone-900 hover:bg-stone-50 border border-stone-200'
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <span
+                    className={`inline-block w-2 h-2 rounded-full flex-shrink-0 ${
+                      selected ? 'bg-stone-400' : read ? 'bg-green-500' : 'bg-stone-300'
+                    }`}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="font-medium text-sm break-words leading-snug" title={doc.title}>
+                      {doc.title}
+                    </div>
+                    <div className={`text-xs capitalize ${selected ? 'text-stone-300' : 'text-stone-500'}`}>
+                      {doc.kind}
+                    </div>
+                  </div>
+                </div>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
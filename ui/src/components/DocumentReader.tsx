@@ -0,0 +1,177 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import type { CaseDocument, Character, DocumentKind, Fact, Location, SceneSpan } from '@shared/index';
+import { clickableSpanProps, selectedFactId, sentenceUnits } from './CasebookEntryView.tsx';
+
+interface DocumentReaderProps {
+  document: CaseDocument;
+  characters: Record<string, Character>;
+  locations: Record<string, Location>;
+  facts: Record<string, Fact>;
+  /** True when this is the player's first reading (shows "New facts discovered"). */
+  isNewRead: boolean;
+  /** When false, "New facts discovered" is hidden until user has acknowledged the facts spoiler warning. */
+  showNewFactsDiscovered?: boolean;
+  /** When true, passages that reveal a fact are highlighted and can be tapped to show the fact. */
+  showFactHighlights?: boolean;
+  /** Notebook mode: every sentence can be selected; selecting one records its fact. */
+  notebookMode?: boolean;
+  /** Notebook mode: factIds already in the notebook (their passages are underlined). */
+  collectedFactIds?: string[];
+  /** Notebook mode: called with the selected sentence's factId, or undefined if it reveals none. */
+  onSelectPassage?: (factId: string | undefined) => void;
+}
+
+/** Paper and type for each kind of document. */
+const KIND_STYLES: Record<DocumentKind, { label: string; paper: string; text: string }> = {
+  newspaper: { label: 'Newspaper', paper: 'bg-stone-100 border-stone-300', text: 'font-serif text-stone-800 sm:columns-2 gap-6' },
+  letter: { label: 'Letter', paper: 'bg-amber-50 border-amber-200', text: 'font-serif italic text-stone-800' },
+  ledger: { label: 'Ledger', paper: 'bg-emerald-50/50 border-emerald-200', text: 'font-mono text-sm text-stone-800' },
+  diary: { label: 'Diary', paper: 'bg-amber-50 border-amber-200', text: 'font-serif italic text-stone-700' },
+  telegram: { label: 'Telegram', paper: 'bg-yellow-50 border-yellow-300', text: 'font-mono uppercase tracking-wide text-stone-800' },
+  report: { label: 'Report', paper: 'bg-white border-stone-300', text: 'font-sans text-stone-800' },
+  notice: { label: 'Notice', paper: 'bg-orange-50 border-orange-200', text: 'font-serif text-center text-stone-800' },
+};
+
+/**
+ * A readable document (newspaper, letter, ledger…) laid out on paper fitting
+ * its kind. Passages behave as in casebook scenes: fact highlights, or
+ * sentence selection in notebook mode.
+ */
+export function DocumentReader({
+  document,
+  characters,
+  locations,
+  facts,
+  isNewRead,
+  showNewFactsDiscovered = false,
+  showFactHighlights = false,
+  notebookMode = false,
+  collectedFactIds = [],
+  onSelectPassage,
+}: DocumentReaderProps) {
+  const [openFactId, setOpenFactId] = useState<string | null>(null);
+  const [notebookNote, setNotebookNote] = useState<string | null>(null);
+
+  useEffect(() => {
+    setOpenFactId(null);
+    setNotebookNote(null);
+  }, [document.documentId]);
+
+  const style = KIND_STYLES[document.kind] ?? KIND_STYLES.report;
+  const highlightFacts = showFactHighlights && !notebookMode;
+  const openFact = highlightFacts && openFactId ? facts[openFactId] : undefined;
+  const revealedFacts = document.revealsFactIds.map((id) => facts[id]).filter(Boolean);
+
+  const selectPassage = (factId: string | undefined) => {
+    const fact = factId ? facts[factId] : undefined;
+    if (!fact) {
+      setNotebookNote('Nothing of note in that sentence.');
+    } else if (collectedFactIds.includes(fact.factId)) {
+      setNotebookNote(`Already in your notebook: ${fact.description}`);
+    } else {
+      setNotebookNote(`Added to your notebook: ${fact.description}`);
+    }
+    onSelectPassage?.(fact?.factId);
+  };
+
+  const renderSpan = (span: SceneSpan, key: number) => {
+    const character = span.characterId ? characters[span.characterId] : undefined;
+    const location = span.locationId ? locations[span.locationId] : undefined;
+    const title = character ? `${character.name} (${character.societalRole})` : location?.name;
+    const content: ReactNode = title ? <span title={title}>{span.text}</span> : span.text;
+
+    const factId = span.factId;
+    if (notebookMode) {
+      return (
+        <span
+          key={key}
+          data-fact-id={factId}
+          className={factId && collectedFactIds.includes(factId) ? 'underline decoration-amber-400 decoration-2' : undefined}
+        >
+          {content}
+        </span>
+      );
+    }
+    if (!highlightFacts || !factId || !facts[factId]) {
+      return <span key={key}>{content}</span>;
+    }
+    return (
+      <span
+        key={key}
+        {...clickableSpanProps(() => setOpenFactId((current) => (current === factId ? null : factId)))}
+        className={`cursor-pointer border-b border-emerald-300 ${
+          openFactId === factId ? 'bg-emerald-200' : 'bg-emerald-50 hover:bg-emerald-100'
+        }`}
+      >
+        {content}
+      </span>
+    );
+  };
+
+  /** Notebook mode selects whole sentences; otherwise spans render as they are. */
+  const renderParagraph = (paragraph: SceneSpan[]) =>
+    notebookMode
+      ? sentenceUnits(paragraph).map((unit, i) => (
+          <span
+            key={i}
+            {...clickableSpanProps((target) => selectPassage(selectedFactId(unit, target)))}
+            className="cursor-pointer hover:bg-amber-100"
+          >
+            {unit.map(renderSpan)}
+          </span>
+        ))
+      : paragraph.map(renderSpan);
+
+  const paragraphs = document.textSpans
+    ?? document.text.split('\n').filter((p) => p.trim()).map((text): SceneSpan[] => [{ text }]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <span className="text-xs uppercase tracking-wide text-stone-500">{style.label}</span>
+        <h2 className="text-xl font-serif font-semibold">{document.title}</h2>
+      </div>
+
+      <div className={`rounded-sm border shadow-sm px-6 py-5 ${style.paper}`}>
+        <div className={`space-y-3 leading-relaxed ${style.text}`}>
+          {paragraphs.map((paragraph, i) => (
+            <p key={i} className="break-inside-avoid">
+              {renderParagraph(paragraph)}
+            </p>
+          ))}
+        </div>
+      </div>
+
+      {openFact && (
+        <div className="flex items-start gap-2 text-sm text-emerald-800 bg-emerald-50 border border-emerald-200 rounded-md px-3 py-2">
+          <span className="font-semibold">Fact:</span>
+          <span>{openFact.description}</span>
+        </div>
+      )}
+      {notebookMode && notebookNote && (
+        <div className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+          {notebookNote}
+        </div>
+      )}
+
+      {showNewFactsDiscovered && !notebookMode && isNewRead && revealedFacts.length > 0 && (
+        <div className="border-t border-stone-200 pt-4">
+          <h4 className="text-sm font-semibold text-emerald-700 mb-2">
+            New facts discovered
+          </h4>
+          <ul className="space-y-1">
+            {revealedFacts.map((fact) => (
+              <li
+                key={fact.factId}
+                className="flex items-start gap-2 text-sm text-emerald-800 bg-emerald-50 border border-emerald-200 rounded-md px-3 py-2"
+              >
+                <span className="text-emerald-500 mt-0.5">+</span>
+                <span>{fact.description}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
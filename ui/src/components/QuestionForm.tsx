@@ -1,5 +1,7 @@
 import { useState } from 'react';
-import type { Question, PlayerAnswer, Fact, Character, Location } from '@shared/index';
+import type { Question, PlayerAnswer, Fact, Character, Location, AnswerPart } from '@shared/index';
+import { answerParts, matchFreeTextAnswer } from '@game/session';
+import { TimelineOrderer } from './TimelineOrderer.tsx';
 
 const difficultyColors: Record<string, string> = {
   easy: 'bg-green-100 text-green-800',
@@ -19,6 +21,8 @@ interface QuestionFormProps {
   locations: Record<string, Location>;
   discoveredFactIds: string[];
   discoveredSubjectIds: string[];
+  /** Free-text mode: answers are typed (multi and ordered ones an entry per line), and no options are listed. */
+  freeText?: boolean;
   onSubmit: (answers: PlayerAnswer[]) => void;
 }
 
@@ -29,34 +33,112 @@ export function QuestionForm({
   locations,
   discoveredFactIds,
   discoveredSubjectIds,
+  freeText = false,
   onSubmit,
 }: QuestionFormProps) {
-  const [answers, setAnswers] = useState<Record<string, string>>(
-    () => Object.fromEntries(questions.map((q) => [q.questionId, ''])),
+  /**
+   * Per question: the chosen answerId (single), picks (multi), picks in order
+   * (ordered, timeline) or one answerId per part (compound). Typed text in
+   * free-text mode, multi and ordered entries as lines of one text.
+   */
+  const [answers, setAnswers] = useState<Record<string, string[]>>(
+    () => Object.fromEntries(questions.map((q) => [q.questionId, []])),
   );
 
-  const handleChange = (questionId: string, answerId: string) => {
-    setAnswers((prev) => ({ ...prev, [questionId]: answerId }));
+  const handleChange = (questionId: string, value: string, index = 0) => {
+    setAnswers((prev) => {
+      const next = [...(prev[questionId] ?? [])];
+      next[index] = value;
+      return { ...prev, [questionId]: next };
+    });
   };
 
+  /** Multi and ordered: add a pick (at the end of the order), or take it back. */
+  const handleTogglePick = (questionId: string, answerId: string) => {
+    setAnswers((prev) => {
+      const picks = prev[questionId] ?? [];
+      return {
+        ...prev,
+        [questionId]: picks.includes(answerId) ? picks.filter((id) => id !== answerId) : [...picks, answerId],
+      };
+    });
+  };
+
+  /**
+   * Timeline: the player's order of the question's facts they've found.
+   * Starts alphabetical, so the first arrangement gives nothing away.
+   */
+  const timelineOrder = (question: Question): string[] => {
+    const chosen = answers[question.questionId] ?? [];
+    if (chosen.length > 0) return chosen;
+    return discoveredFactIds
+      .filter((id) => question.answer.acceptedIds.includes(id) && facts[id])
+      .sort((a, b) => facts[a].description.localeCompare(facts[b].description));
+  };
+
+  /** Free-text mode, multi and ordered: the non-empty lines typed, in order. */
+  const typedEntries = (questionId: string): string[] =>
+    (answers[questionId]?.[0] ?? '').split('\n').map((line) => line.trim()).filter(Boolean);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const playerAnswers: PlayerAnswer[] = questions.map((q) => ({
-      questionId: q.questionId,
-      answerId: answers[q.questionId] ?? '',
-    }));
+    const gameCase = { characters, locations, facts, questions };
+    const playerAnswers: PlayerAnswer[] = questions.map((q) => {
+      const values = answers[q.questionId] ?? [];
+      const parts = answerParts(q.answer);
+      switch (q.answer.kind ?? 'single') {
+        case 'multi':
+        case 'ordered': {
+          if (!freeText) return { questionId: q.questionId, answerId: '', answerIds: values };
+          const entries = typedEntries(q.questionId);
+          return {
+            questionId: q.questionId,
+            answerId: '',
+            answerIds: entries.map((entry) => matchFreeTextAnswer(entry, parts[0], gameCase)),
+            texts: entries,
+          };
+        }
+        case 'timeline':
+          return { questionId: q.questionId, answerId: '', answerIds: timelineOrder(q) };
+        case 'compound':
+          return freeText
+            ? {
+              questionId: q.questionId,
+              answerId: '',
+              answerIds: parts.map((part, i) => matchFreeTextAnswer(values[i] ?? '', part, gameCase)),
+              texts: parts.map((_, i) => (values[i] ?? '').trim()),
+            }
+            : { questionId: q.questionId, answerId: '', answerIds: parts.map((_, i) => values[i] ?? '') };
+        default: {
+          const answer = values[0] ?? '';
+          return freeText
+            ? { questionId: q.questionId, answerId: matchFreeTextAnswer(answer, parts[0], gameCase), text: answer.trim() }
+            : { questionId: q.questionId, answerId: answer };
+        }
+      }
+    });
     onSubmit(playerAnswers);
   };
 
-  const allAnswered = questions.every((q) => (answers[q.questionId] ?? '').length > 0);
+  const allAnswered = questions.every((q) => {
+    if (q.answer.kind === 'timeline') return timelineOrder(q).length > 0;
+    const values = answers[q.questionId] ?? [];
+    return answerParts(q.answer).every((_, i) => {
+      const kind = q.answer.kind ?? 'single';
+      if (kind === 'multi' || kind === 'ordered') {
+        return freeText ? typedEntries(q.questionId).length > 0 : values.length > 0;
+      }
+      return (values[i] ?? '').trim().length > 0;
+    });
+  });
 
-  /** Build the list of selectable options for a question based on its answer type. */
-  const getOptions = (question: Question): AnswerOption[] => {
-    switch (question.answer.type) {
+  /** Build the list of selectable options for an answer part based on its answer type. */
+  const getOptions = (part: AnswerPart): AnswerOption[] => {
+    switch (part.type) {
       case 'fact': {
         return discoveredFactIds
           .map((id) => facts[id])
-          .filter((f): f is Fact => Boolean(f) && f.category === question.answer.factCategory)
+          .filter((f): f is Fact => Boolean(f) && f.category === part.factCategory)
           .map((f) => ({ id: f.factId, label: f.description }));
       }
       case 'person': {
@@ -74,10 +156,10 @@ export function QuestionForm({
     }
   };
 
-  const emptyMessage = (question: Question): string => {
-    switch (question.answer.type) {
+  const emptyMessage = (part: AnswerPart): string => {
+    switch (part.type) {
       case 'fact':
-        return `No ${question.answer.factCategory ?? ''} facts discovered yet. Visit more entries to uncover clues.`;
+        return `No ${part.factCategory ?? ''} facts discovered yet. Visit more entries to uncover clues.`;
       case 'person':
         return 'No people discovered yet. Visit more entries to learn about suspects and witnesses.';
       case 'location':
@@ -87,18 +169,137 @@ export function QuestionForm({
     }
   };
 
+  const placeholder = (part: AnswerPart): string =>
+    part.type === 'person' ? 'Name the person…' : part.type === 'location' ? 'Name the place…' : 'Your answer…';
+
+  /** One part answered on its own: a text box in free-text mode, otherwise a radio list. */
+  const renderSinglePart = (question: Question, part: AnswerPart, index: number) => {
+    const selected = answers[question.questionId]?.[index] ?? '';
+    if (freeText) {
+      return (
+        <input
+          type="text"
+          value={selected}
+          onChange={(e) => handleChange(question.questionId, e.target.value, index)}
+          placeholder={placeholder(part)}
+          className="w-full rounded-md border border-stone-300 bg-white px-3 py-1.5 text-sm"
+        />
+      );
+    }
+    const options = getOptions(part);
+    if (options.length === 0) {
+      return (
+        <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+          {emptyMessage(part)}
+        </p>
+      );
+    }
+    return (
+      <div className="space-y-2">
+        <span className="text-xs text-stone-500 block">Select one:</span>
+        <ul className="space-y-1.5">
+          {options.map((option) => (
+            <li key={option.id}>
+              <label className="flex items-start gap-2 cursor-pointer group">
+                <input
+                  type="radio"
+                  name={`${question.questionId}-${index}`}
+                  value={option.id}
+                  checked={selected === option.id}
+                  onChange={() => handleChange(question.questionId, option.id, index)}
+                  className="mt-1.5 rounded-full border-stone-300 text-stone-700 focus:ring-stone-400"
+                />
+                <span className="text-sm text-stone-700 group-hover:text-stone-900">
+                  {option.label}
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  /**
+   * Multi (checkboxes) and ordered (picks numbered in the order made). In
+   * free-text mode, a text box taking one entry per line.
+   */
+  const renderPicks = (question: Question, ordered: boolean) => {
+    const part = answerParts(question.answer)[0];
+    if (freeText) {
+      return (
+        <div className="space-y-2">
+          <span className="text-xs text-stone-500 block">
+            {ordered ? 'One per line, earliest first:' : 'One per line, as many as apply:'}
+          </span>
+          <textarea
+            value={answers[question.questionId]?.[0] ?? ''}
+            onChange={(e) => handleChange(question.questionId, e.target.value)}
+            placeholder={placeholder(part)}
+            rows={3}
+            className="w-full rounded-md border border-stone-300 bg-white px-3 py-1.5 text-sm"
+          />
+        </div>
+      );
+    }
+    const picks = answers[question.questionId] ?? [];
+    const options = getOptions(part);
+    if (options.length === 0) {
+      return (
+        <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+          {emptyMessage(part)}
+        </p>
+      );
+    }
+    return (
+      <div className="space-y-2">
+        <span className="text-xs text-stone-500 block">
+          {ordered ? 'Select in order, earliest first (select again to remove):' : 'Select all that apply:'}
+        </span>
+        <ul className="space-y-1.5">
+          {options.map((option) => {
+            const position = picks.indexOf(option.id);
+            return (
+              <li key={option.id}>
+                <label className="flex items-start gap-2 cursor-pointer group">
+                  <input
+                    type="checkbox"
+                    checked={position >= 0}
+                    onChange={() => handleTogglePick(question.questionId, option.id)}
+                    className={`mt-1.5 rounded border-stone-300 text-stone-700 focus:ring-stone-400 ${ordered ? 'sr-only' : ''}`}
+                  />
+                  {ordered && (
+                    <span className={`mt-0.5 flex-shrink-0 w-5 h-5 rounded-full text-xs font-medium flex items-center justify-center ${
+                      position >= 0 ? 'bg-stone-800 text-white' : 'border border-stone-300 text-transparent'
+                    }`}>
+                      {position >= 0 ? position + 1 : '·'}
+                    </span>
+                  )}
+                  <span className="text-sm text-stone-700 group-hover:text-stone-900">
+                    {option.label}
+                  </span>
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    );
+  };
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       <div className="space-y-1">
         <h2 className="text-xl font-serif font-semibold">The Questions</h2>
         <p className="text-sm text-stone-500">
-          Based on your investigation, answer the following questions.
+          {freeText
+            ? 'Based on your investigation, answer the following questions in your own words.'
+            : 'Based on your investigation, answer the following questions.'}
         </p>
       </div>
 
       {questions.map((question, index) => {
-        const options = getOptions(question);
-        const selected = answers[question.questionId] ?? '';
+        const kind = question.answer.kind ?? 'single';
 
         return (
           <div
@@ -121,33 +322,33 @@ export function QuestionForm({
                 </span>
               </div>
             </div>
-            {options.length === 0 ? (
-              <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
-                {emptyMessage(question)}
-              </p>
-            ) : (
-              <div className="space-y-2">
-                <span className="text-xs text-stone-500 block">Select one:</span>
-                <ul className="space-y-1.5">
-                  {options.map((option) => (
-                    <li key={option.id}>
-                      <label className="flex items-start gap-2 cursor-pointer group">
-                        <input
-                          type="radio"
-                          name={question.questionId}
-                          value={option.id}
-                          checked={selected === option.id}
-                          onChange={() => handleChange(question.questionId, option.id)}
-                          className="mt-1.5 rounded-full border-stone-300 text-stone-700 focus:ring-stone-400"
-                        />
-                        <span className="text-sm text-stone-700 group-hover:text-stone-900">
-                          {option.label}
-                        </span>
-                      </label>
-                    </li>
-                  ))}
-                </ul>
+            {kind === 'timeline' ? (
+              timelineOrder(question).length === 0 ? (
+                <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+                  {emptyMessage(answerParts(question.answer)[0])}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  <span className="text-xs text-stone-500 block">Drag into the order it happened, earliest first:</span>
+                  <TimelineOrderer
+                    items={timelineOrder(question).map((id) => ({ id, label: facts[id]?.description ?? id }))}
+                    onReorder={(ids) => setAnswers((prev) => ({ ...prev, [question.questionId]: ids }))}
+                  />
+                </div>
+              )
+            ) : kind === 'multi' || kind === 'ordered' ? (
+              renderPicks(question, kind === 'ordered')
+            ) : kind === 'compound' ? (
+              <div className="space-y-4">
+                {answerParts(question.answer).map((part, i) => (
+                  <div key={i} className="space-y-1.5">
+                    <span className="text-sm font-medium text-stone-700 block">{part.label}</span>
+                    {renderSinglePart(question, part, i)}
+                  </div>
+                ))}
               </div>
+            ) : (
+              renderSinglePart(question, answerParts(question.answer)[0], 0)
             )}
           </div>
         );
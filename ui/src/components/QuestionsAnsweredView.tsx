@@ -1,4 +1,5 @@
-import type { Case, CaseResult, PlayerAnswer, CasebookEntry, Fact } from '@shared/index';
+import type { AnswerPart, Case, CaseResult, PlayerAnswer, CasebookEntry, Fact } from '@shared/index';
+import { answerCredit, answerParts } from '@game/session';
 
 interface QuestionsAnsweredViewProps {
   gameCase: Case;
@@ -20,6 +21,34 @@ export function QuestionsAnsweredView({
     return entry ? entry.label : entryId;
   };
 
+  /** Where a solution citation was found: an entry, a document, a confrontation, or the introduction. */
+  const sourceLabel = (source: string): string => {
+    if (source === 'introduction') return 'Introduction';
+    for (const entry of Object.values(gameCase.casebook)) {
+      const followUp = entry.followUps?.find((fu) => fu.followUpId === source);
+      if (followUp) return `Confronting ${gameCase.characters[followUp.characterId]?.name ?? followUp.characterId}, ${entry.label}`;
+    }
+    return gameCase.documents?.[source]?.title ?? entryLabel(source);
+  };
+
+  /** Resolve an answer ID to a display label based on the answer part's type. */
+  const resolveLabel = (part: AnswerPart, id: string): string => {
+    switch (part.type) {
+      case 'fact':
+        return facts[id]?.description ?? id;
+      case 'person':
+        return gameCase.characters[id]?.name ?? id;
+      case 'location':
+        return gameCase.locations[id]?.name ?? id;
+      default:
+        return id;
+    }
+  };
+
+  const solution = gameCase.solution;
+  const holmesEntryIds = new Set(gameCase.optimalPath);
+  const visitedSet = new Set(visitedEntryIds);
+
   return (
     <div className="space-y-8">
       {/* Score Summary */}
@@ -36,6 +65,9 @@ export function QuestionsAnsweredView({
               {result.questionsCorrect}/{result.questionsTotal}
             </div>
             <div className="text-xs text-stone-500 mt-1">Questions Correct</div>
+            {result.questionsPartial != null && (
+              <div className="text-xs text-amber-700">+ {result.questionsPartial} partly right</div>
+            )}
           </div>
           <div className="rounded-md bg-stone-50 p-3">
             <div className="text-2xl font-semibold text-stone-800">
@@ -50,6 +82,31 @@ export function QuestionsAnsweredView({
             <div className="text-xs text-stone-500 mt-1">Holmes Needed</div>
           </div>
         </div>
+
+        {result.notebook && (
+          <div className="mt-4 rounded-md bg-amber-50 border border-amber-200 px-4 py-3 text-sm text-amber-900">
+            <span className="font-semibold">Notebook:</span>{' '}
+            {result.notebook.keyFactsCollected}/{result.notebook.keyFactsTotal} key facts recorded
+            {' '}({result.notebook.factsCollected} in all), {result.notebook.misses} empty
+            {' '}selection{result.notebook.misses !== 1 ? 's' : ''}
+            {' '}&middot; {result.notebook.bonus >= 0 ? '+' : ''}{result.notebook.bonus} pts
+          </div>
+        )}
+
+        {result.wastedVisits != null && (
+          <div className="mt-4 rounded-md bg-stone-50 border border-stone-200 px-4 py-3 text-sm text-stone-700">
+            <span className="font-semibold">Directory:</span>{' '}
+            {result.wastedVisits} wasted visit{result.wastedVisits !== 1 ? 's' : ''}
+            {' '}(counted in entries visited)
+          </div>
+        )}
+        {result.wrongPresentations != null && (
+          <div className="mt-4 rounded-md bg-stone-50 border border-stone-200 px-4 py-3 text-sm text-stone-700">
+            <span className="font-semibold">Confrontations:</span>{' '}
+            {result.wrongPresentations} piece{result.wrongPresentations !== 1 ? 's' : ''} of evidence
+            {' '}presented to no effect (points deducted)
+          </div>
+        )}
       </div>
 
       {/* Answer Comparison */}
@@ -59,23 +116,34 @@ export function QuestionsAnsweredView({
           const playerAnswer = playerAnswers.find(
             (a) => a.questionId === question.questionId,
           );
-          const isCorrect =
-            playerAnswer &&
-            question.answer.acceptedIds.includes(playerAnswer.answerId);
+          const credit = answerCredit(question, playerAnswer);
+          const isCorrect = credit === 1;
+          const isPartial = credit > 0 && !isCorrect;
+          const solutionAnswer = solution?.answers.find((a) => a.questionId === question.questionId);
+          const kind = question.answer.kind ?? 'single';
+          const parts = answerParts(question.answer);
 
-          /** Resolve an answer ID to a display label based on the question's answer type. */
-          const resolveLabel = (id: string): string => {
-            switch (question.answer.type) {
-              case 'fact':
-                return facts[id]?.description ?? id;
-              case 'person':
-                return gameCase.characters[id]?.name ?? id;
-              case 'location':
-                return gameCase.locations[id]?.name ?? id;
+          /** The player's answer, or the correct one, as text. */
+          const describe = (ids: string[], texts?: string[]): string => {
+            const label = (part: AnswerPart, id: string, i: number) =>
+              texts?.[i] != null ? `“${texts[i]}”` : id ? resolveLabel(part, id) : '(no answer)';
+            switch (kind) {
+              case 'multi':
+                return ids.map((id, i) => label(parts[0], id, i)).join(', ');
+              case 'ordered':
+              case 'timeline':
+                return ids.map((id, i) => label(parts[0], id, i)).join(' → ');
+              case 'compound':
+                return parts.map((part, i) => `${part.label}: ${label(part, ids[i] ?? '', i)}`).join('; ');
               default:
-                return id;
+                return label(parts[0], ids[0] ?? '', 0);
             }
           };
+          const playerIds = playerAnswer?.answerIds ?? (playerAnswer ? [playerAnswer.answerId] : []);
+          const playerTexts = playerAnswer?.texts ?? (playerAnswer?.text != null ? [playerAnswer.text] : undefined);
+          const correctIds = kind === 'multi' || kind === 'ordered' || kind === 'timeline'
+            ? question.answer.acceptedIds
+            : parts.map((part) => part.acceptedIds[0]);
 
           return (
             <div
@@ -83,14 +151,18 @@ export function QuestionsAnsweredView({
               className={`rounded-lg border p-4 ${
                 isCorrect
                   ? 'border-green-200 bg-green-50'
-                  : 'border-red-200 bg-red-50'
+                  : isPartial
+                    ? 'border-amber-200 bg-amber-50'
+                    : 'border-red-200 bg-red-50'
               }`}
             >
               <div className="flex items-start gap-3 mb-2">
                 <span className={`flex-shrink-0 w-6 h-6 rounded-full text-xs font-medium flex items-center justify-center ${
                   isCorrect
                     ? 'bg-green-200 text-green-800'
-                    : 'bg-red-200 text-red-800'
+                    : isPartial
+                      ? 'bg-amber-200 text-amber-800'
+                      : 'bg-red-200 text-red-800'
                 }`}>
                   {index + 1}
                 </span>
@@ -101,21 +173,41 @@ export function QuestionsAnsweredView({
               <div className="ml-9 space-y-1">
                 <div className="text-sm">
                   <span className="text-stone-500">Your answer: </span>
-                  <span className={isCorrect ? 'text-green-800' : 'text-red-800'}>
-                    {playerAnswer ? resolveLabel(playerAnswer.answerId) : '(no answer)'}
+                  <span className={isCorrect ? 'text-green-800' : isPartial ? 'text-amber-800' : 'text-red-800'}>
+                    {!playerAnswer ? '(no answer)' : describe(playerIds, playerTexts)}
                   </span>
+                  {credit > 0 && playerTexts && (
+                    <span className="text-stone-400"> — read as {describe(playerIds)}</span>
+                  )}
                 </div>
                 {!isCorrect && question.answer.acceptedIds.length > 0 && (
                   <div className="text-sm">
                     <span className="text-stone-500">Correct answer: </span>
                     <span className="text-green-800 font-medium">
-                      {resolveLabel(question.answer.acceptedIds[0])}
+                      {describe(correctIds)}
                     </span>
                   </div>
                 )}
                 <div className="text-xs text-stone-400">
+                  {isPartial && `${Math.round(question.points * credit)} of `}
                   {question.points} point{question.points !== 1 ? 's' : ''} — {question.difficulty}
                 </div>
+                {solutionAnswer && (
+                  <div className="mt-2 rounded-md bg-white/70 border border-stone-200 px-3 py-2 space-y-2">
+                    <p className="text-sm text-stone-700 italic">{solutionAnswer.text}</p>
+                    {solutionAnswer.citations.length > 0 && (
+                      <ul className="space-y-1">
+                        {solutionAnswer.citations.map((c) => (
+                          <li key={c.factId} className="text-xs text-stone-600">
+                            <span className="text-stone-400">&bull;</span>{' '}
+                            {facts[c.factId]?.description ?? c.factId}{' '}
+                            <span className="text-stone-400">({sourceLabel(c.source)})</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           );
@@ -123,6 +215,12 @@ export function QuestionsAnsweredView({
       </div>
 
       {/* Path Comparison */}
+      {solution && (
+        <div className="rounded-lg border border-stone-200 bg-white p-5">
+          <h3 className="text-lg font-serif font-semibold mb-2">Holmes Explains</h3>
+          <p className="text-sm text-stone-700 leading-relaxed italic">{solution.summary}</p>
+        </div>
+      )}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="rounded-lg border border-stone-200 bg-white p-5">
           <h3 className="text-sm font-semibold text-stone-500 uppercase tracking-wide mb-3">
@@ -133,6 +231,9 @@ export function QuestionsAnsweredView({
               <li key={`${entryId}-${i}`} className="flex items-center gap-2 text-sm">
                 <span className="text-stone-400 w-5 text-right">{i + 1}.</span>
                 <span className="text-stone-700">{entryLabel(entryId)}</span>
+                {holmesEntryIds.has(entryId) && (
+                  <span className="text-xs text-green-700" title="Holmes went here too">&#10003;</span>
+                )}
               </li>
             ))}
           </ol>
@@ -142,13 +243,24 @@ export function QuestionsAnsweredView({
           <h3 className="text-sm font-semibold text-stone-500 uppercase tracking-wide mb-3">
             Holmes's Path ({gameCase.optimalPath.length} visits)
           </h3>
-          <ol className="space-y-1">
-            {gameCase.optimalPath.map((entryId, i) => (
-              <li key={`${entryId}-${i}`} className="flex items-center gap-2 text-sm">
-                <span className="text-stone-400 w-5 text-right">{i + 1}.</span>
-                <span className="text-stone-700">{entryLabel(entryId)}</span>
-              </li>
-            ))}
+          <ol className={solution ? 'space-y-3' : 'space-y-1'}>
+            {gameCase.optimalPath.map((entryId, i) => {
+              const step = solution?.walkthrough.find((s) => s.entryId === entryId);
+              return (
+                <li key={`${entryId}-${i}`} className="text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="text-stone-400 w-5 text-right">{i + 1}.</span>
+                    <span className="text-stone-700">{entryLabel(entryId)}</span>
+                    {visitedSet.has(entryId) && (
+                      <span className="text-xs text-green-700" title="You went here too">&#10003;</span>
+                    )}
+                  </div>
+                  {step && (
+                    <p className="ml-7 mt-1 text-stone-600 leading-relaxed">{step.text}</p>
+                  )}
+                </li>
+              );
+            })}
           </ol>
         </div>
       </div>
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+
+interface TimelineItem {
+  id: string;
+  label: string;
+}
+
+interface TimelineOrdererProps {
+  /** The facts to order, in the player's current order (earliest first). */
+  items: TimelineItem[];
+  onReorder: (ids: string[]) => void;
+}
+
+/**
+ * A list the player puts in chronological order by dragging items, or with
+ * the arrow buttons where dragging is awkward (touch, keyboard).
+ */
+export function TimelineOrderer({ items, onReorder }: TimelineOrdererProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const move = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= items.length) return;
+    const ids = items.map((item) => item.id);
+    const [moved] = ids.splice(from, 1);
+    ids.splice(to, 0, moved);
+    onReorder(ids);
+  };
+
+  return (
+    <ol className="space-y-1.5">
+      {items.map((item, i) => (
+        <li
+          key={item.id}
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            setDragIndex(i);
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setOverIndex(i);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (dragIndex != null) move(dragIndex, i);
+            setDragIndex(null);
+            setOverIndex(null);
+          }}
+          onDragEnd={() => {
+            setDragIndex(null);
+            setOverIndex(null);
+          }}
+          className={`flex items-center gap-2 rounded-md border px-3 py-2 bg-white cursor-grab active:cursor-grabbing ${
+            dragIndex === i
+              ? 'opacity-50 border-stone-300'
+              : overIndex === i && dragIndex != null
+                ? 'border-stone-500'
+                : 'border-stone-200'
+          }`}
+        >
+          <span className="flex-shrink-0 w-5 h-5 rounded-full bg-stone-800 text-white text-xs font-medium flex items-center justify-center">
+            {i + 1}
+          </span>
+          <span className="flex-1 text-sm text-stone-700">{item.label}</span>
+          <span className="flex flex-col flex-shrink-0">
+            <button
+              type="button"
+              onClick={() => move(i, i - 1)}
+              disabled={i === 0}
+              aria-label="Move earlier"
+              className="px-1 text-xs leading-none text-stone-500 hover:text-stone-900 disabled:text-stone-200"
+            >
+              &#9650;
+            </button>
+            <button
+              type="button"
+              onClick={() => move(i, i + 1)}
+              disabled={i === items.length - 1}
+              aria-label="Move later"
+              className="px-1 text-xs leading-none text-stone-500 hover:text-stone-900 disabled:text-stone-200"
+            >
+              &#9660;
+            </button>
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { api } from '../api/client.ts';
+
+/** Summary row from GET /generation/drafts/{draftId}/transcripts (backend TranscriptSummary). */
+interface TranscriptSummary {
+  draftId: string;
+  callId: string;
+  stepName: string;
+  label?: string;
+  attempt: number;
+  maxAttempts: number;
+  modelId: string;
+  provider: string;
+  startedAt: string;
+  latencyMs: number;
+  usage?: { inputTokens: number; outputTokens: number; totalTokens: number };
+  maxTokens: number;
+  thinkingBudget: number;
+  error?: string;
+  truncated?: boolean;
+  /** Entries re-asked for on a repair attempt. */
+  repairPaths?: string[];
+}
+
+/** Full record from GET /generation/drafts/{draftId}/transcripts/{callId}. */
+interface Transcript extends TranscriptSummary {
+  systemPrompt: string;
+  messages: { role: 'user' | 'assistant'; text: string }[];
+  reasoning: string;
+  rawText: string;
+  toolInput?: unknown;
+  output?: unknown;
+}
+
+function TranscriptSection({ label, body, open = false }: { label: string; body: string; open?: boolean }) {
+  if (!body) return null;
+  return (
+    <details open={open} className="rounded border border-stone-200">
+      <summary className="cursor-pointer px-3 py-1.5 text-xs font-medium text-stone-700 bg-stone-50">
+        {label} <span className="text-stone-400">({body.length.toLocaleString()} chars)</span>
+      </summary>
+      <pre className="px-3 py-2 text-xs text-stone-800 whitespace-pre-wrap break-words max-h-96 overflow-y-auto">
+        {body}
+      </pre>
+    </details>
+  );
+}
+
+function TranscriptDetail({ draftId, callId }: { draftId: string; callId: string }) {
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api
+      .get<Transcript>(
+        `/generation/drafts/${encodeURIComponent(draftId)}/transcripts/${encodeURIComponent(callId)}`,
+      )
+      .then((res) => {
+        if (res.success) setTranscript(res.data);
+        else setError(res.error.message);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load transcript'));
+  }, [draftId, callId]);
+
+  if (error) return <p className="text-sm text-red-800">{error}</p>;
+  if (!transcript) return <p className="text-sm text-stone-500">Loading…</p>;
+
+  return (
+    <div className="space-y-2">
+      {transcript.truncated && (
+        <p className="text-xs text-amber-800">
+          Some fields were shortened to fit the transcript store.
+        </p>
+      )}
+      {transcript.error && (
+        <p className="text-sm text-red-800 whitespace-pre-wrap">{transcript.error}</p>
+      )}
+      <TranscriptSection label="Reasoning (extended thinking)" body={transcript.reasoning} open />
+      <TranscriptSection
+        label="Output"
+        body={transcript.output !== undefined ? JSON.stringify(transcript.output, null, 2) : ''}
+      />
+      <TranscriptSection
+        label="Tool input"
+        body={transcript.toolInput !== undefined ? JSON.stringify(transcript.toolInput, null, 2) : ''}
+      />
+      <TranscriptSection label="Raw response" body={transcript.rawText} />
+      <TranscriptSection label="System prompt" body={transcript.systemPrompt} />
+      {transcript.messages.map((m, i) => (
+        <TranscriptSection
+          key={i}
+          label={i === 0 ? 'User prompt' : `${m.role === 'user' ? 'Correction request' : 'Previous response'} (${i})`}
+          body={m.text}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Modal listing every model call recorded for a draft. Selecting a call loads
+ * its prompts, reasoning and output so you can see why the model did what it did.
+ */
+export function TranscriptsModal({
+  draftId,
+  stepLabel,
+  onClose,
+}: {
+  draftId: string;
+  stepLabel: (step: string) => string;
+  onClose: () => void;
+}) {
+  const [summaries, setSummaries] = useState<TranscriptSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedCallId, setSelectedCallId] = useState<string | null>(null);
+
+  useEffect(() => {
+    api
+      .get<TranscriptSummary[]>(`/generation/drafts/${encodeURIComponent(draftId)}/transcripts`)
+      .then((res) => {
+        if (res.success) setSummaries(res.data);
+        else setError(res.error.message);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load transcripts'));
+  }, [draftId]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[85vh] overflow-hidden flex flex-col border border-stone-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-stone-200 flex justify-between items-center">
+          <h3 className="font-serif font-semibold text-stone-900">Model transcripts</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-stone-500 hover:text-stone-700 text-lg leading-none"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+        <div className="p-4 overflow-y-auto text-sm space-y-3">
+          {error && <p className="text-red-800">{error}</p>}
+          {!error && !summaries && <p className="text-stone-500">Loading…</p>}
+          {summaries && summaries.length === 0 && (
+            <p className="text-stone-500">No model calls recorded for this draft.</p>
+          )}
+          {summaries && summaries.length > 0 && (
+            <ul className="space-y-2">
+              {summaries.map((t) => {
+                const selected = t.callId === selectedCallId;
+                return (
+                  <li key={t.callId} className="rounded border border-stone-200">
+                    <button
+                      type="button"
+                      onClick={() => setSelectedCallId(selected ? null : t.callId)}
+                      className="w-full px-3 py-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-left hover:bg-stone-50"
+                    >
+                      <span className="font-medium text-stone-900">
+                        {stepLabel(t.stepName)}
+                        {t.label && <span className="font-normal text-stone-500"> · {t.label}</span>}
+                      </span>
+                      <span className="text-xs text-stone-500">
+                        attempt {t.attempt}/{t.maxAttempts}
+                      </span>
+                      {t.repairPaths && (
+                        <span className="text-xs text-amber-800" title={t.repairPaths.join(', ')}>
+                          repair of {t.repairPaths.length} {t.repairPaths.length === 1 ? 'entry' : 'entries'}
+                        </span>
+                      )}
+                      <span className={`text-xs px-1.5 py-0.5 rounded ${t.error ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}`}>
+                        {t.error ? 'invalid' : 'ok'}
+                      </span>
+                      <span className="font-mono text-xs text-stone-500 truncate max-w-[16rem]" title={t.modelId}>
+                        {t.modelId}
+                      </span>
+                      <span className="text-xs text-stone-500">
+                        {t.usage
+                          ? `${t.usage.inputTokens.toLocaleString()} in · ${t.usage.outputTokens.toLocaleString()} out`
+                          : 'no usage'}
+                        {` · ${(t.latencyMs / 1000).toFixed(1)}s`}
+                      </span>
+                    </button>
+                    {selected && (
+                      <div className="px-3 pb-3">
+                        <TranscriptDetail draftId={draftId} callId={t.callId} />
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,26 @@
 import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { api } from '../api/client.ts';
+import { getSession, saveSession, clearSession } from '../storage/session.ts';
 import {
-  getSession,
   createSession,
-  saveSession,
-  clearSession,
   computeResult,
-} from '../storage/session.ts';
+  gateMet,
+  presentEvidence,
+  readDocument,
+  subjectsOfFacts,
+  visitEntry,
+} from '@game/session';
+import { AddressDirectory } from '../components/AddressDirectory.tsx';
 import { CasebookList } from '../components/CasebookList.tsx';
 import { CasebookEntryView } from '../components/CasebookEntryView.tsx';
 import { FactsList } from '../components/FactsList.tsx';
 import { QuestionForm } from '../components/QuestionForm.tsx';
 import { QuestionsAnsweredView } from '../components/QuestionsAnsweredView.tsx';
+import { DocumentList } from '../components/DocumentList.tsx';
+import { DocumentReader } from '../components/DocumentReader.tsx';
 import { DebugCasePanel } from '../components/DebugCasePanel.tsx';
-import type { Case, CasebookEntry, PlayerSession, PlayerAnswer, CaseResult } from '@shared/index';
+import type { Case, CasebookEntry, CaseDocument, FollowUp, PlayerSession, PlayerAnswer, CaseResult } from '@shared/index';
 
 type Phase = 'loading' | 'investigation';
 
@@ -26,6 +32,10 @@ const difficultyColors: Record<string, string> = {
 
 const FACTS_VIEW_ID = '__facts__' as const;
 const QUESTIONS_VIEW_ID = '__questions__' as const;
+/** Selected-view ids for documents are `doc:<documentId>`, apart from entry ids. */
+const DOCUMENT_VIEW_PREFIX = 'doc:';
+/** Directory mode: a visit that found nothing is shown as `addr:<entryId or listingId>`. */
+const ADDRESS_VIEW_PREFIX = 'addr:';
 
 const FACTS_ACK_KEY_PREFIX = 'cd-facts-ack-';
 
@@ -133,6 +143,7 @@ export function CasePage() {
             clearFactsAcknowledged(caseDate);
             setFactsAcknowledgedState(false);
             const newSession = createSession(caseDate, introIds, introSubjects, caseVersionId);
+            saveSession(newSession);
             setSession(newSession);
             setVersionChangedMessage('This case was updated. Your progress has been reset. Sorry.');
             setPhase('investigation');
@@ -159,7 +170,9 @@ export function CasePage() {
               setPhase('investigation');
             }
           } else {
-            setSession(createSession(caseDate, introIds, introSubjects, caseVersionId));
+            const newSession = createSession(caseDate, introIds, introSubjects, caseVersionId);
+            saveSession(newSession);
+            setSession(newSession);
             setPhase('investigation');
           }
         } else {
@@ -181,23 +194,7 @@ export function CasePage() {
       setNewVisitEntryId(isNew ? entryId : null);
 
       if (isNew) {
-        const entry = gameCase.casebook[entryId];
-        const newFacts = entry.revealsFactIds.filter(
-          (fid) => !session.discoveredFacts.includes(fid),
-        );
-
-        // Extract subjects from newly discovered facts
-        const existingSubjects = new Set(session.discoveredSubjects ?? []);
-        const newSubjects = newFacts.flatMap(
-          (fid) => gameCase.facts[fid]?.subjects ?? [],
-        ).filter((s) => !existingSubjects.has(s));
-
-        const updated: PlayerSession = {
-          ...session,
-          visitedEntries: [...session.visitedEntries, entryId],
-          discoveredFacts: [...session.discoveredFacts, ...newFacts],
-          discoveredSubjects: [...(session.discoveredSubjects ?? []), ...newSubjects],
-        };
+        const updated = visitEntry(session, gameCase, entryId);
         setSession(updated);
         saveSession(updated);
       }
@@ -205,6 +202,122 @@ export function CasePage() {
     [gameCase, session],
   );
 
+  /**
+   * Read a document. Unlike a visit it costs nothing: its facts are added but
+   * visitedEntries is untouched.
+   */
+  const handleReadDocument = useCallback(
+    (documentId: string) => {
+      if (!gameCase || !session) return;
+      if (!gameCase.documents?.[documentId]) return;
+
+      const readDocuments = session.readDocuments ?? [];
+      const isNew = !readDocuments.includes(documentId);
+      setSelectedEntryId(`${DOCUMENT_VIEW_PREFIX}${documentId}`);
+      setNewVisitEntryId(isNew ? `${DOCUMENT_VIEW_PREFIX}${documentId}` : null);
+      if (!isNew) return;
+
+      const updated = readDocument(session, gameCase, documentId);
+      setSession(updated);
+      saveSession(updated);
+    },
+    [gameCase, session],
+  );
+
+  /**
+   * Directory mode: call at an address found in the directory. An entry whose
+   * gate is met is visited as usual; a filler listing, or an entry called at
+   * too early, shows its scene and counts as a wasted visit.
+   */
+  const handleVisitAddress = useCallback(
+    (id: string) => {
+      if (!gameCase || !session) return;
+      const entry = gameCase.casebook[id];
+      if (entry && (
+        session.visitedEntries.includes(id) ||
+        gateMet(entry.requiresAnyFact, new Set(session.discoveredFacts))
+      )) {
+        handleSelectEntry(id);
+        return;
+      }
+
+      setSelectedEntryId(`${ADDRESS_VIEW_PREFIX}${id}`);
+      setNewVisitEntryId(null);
+      const wastedVisits = session.wastedVisits ?? [];
+      if (session.completedAt || wastedVisits.includes(id)) return;
+      const updated: PlayerSession = { ...session, wastedVisits: [...wastedVisits, id] };
+      setSession(updated);
+      saveSession(updated);
+    },
+    [gameCase, session, handleSelectEntry],
+  );
+
+  /** Directory mode, like notebook mode, can only be switched before the first visit. */
+  const handleToggleDirectoryMode = useCallback(() => {
+    if (!session || session.visitedEntries.length > 0 || session.wastedVisits?.length) return;
+    const directoryMode = !session.directoryMode;
+    const updated: PlayerSession = {
+      ...session,
+      directoryMode,
+      wastedVisits: directoryMode ? [] : undefined,
+    };
+    setSession(updated);
+    saveSession(updated);
+  }, [session]);
+
+  /** Free-text mode is chosen before the first visit, so the answer lists are never seen. */
+  const handleToggleFreeTextAnswers = useCallback(() => {
+    if (!session || session.visitedEntries.length > 0 || session.wastedVisits?.length) return;
+    const updated: PlayerSession = { ...session, freeTextAnswers: !session.freeTextAnswers };
+    setSession(updated);
+    saveSession(updated);
+  }, [session]);
+
+  /** Notebook mode can only be switched before the first visit. Starts the notebook with the introduction facts. */
+  const handleToggleNotebookMode = useCallback(() => {
+    if (!gameCase || !session || session.visitedEntries.length > 0 || session.wastedVisits?.length) return;
+    const notebookMode = !session.notebookMode;
+    const updated: PlayerSession = {
+      ...session,
+      notebookMode,
+      collectedFacts: notebookMode ? [...(gameCase.introductionFactIds ?? [])] : undefined,
+      notebookMisses: notebookMode ? 0 : undefined,
+    };
+    setSession(updated);
+    saveSession(updated);
+  }, [gameCase, session]);
+
+  const handleSelectPassage = useCallback(
+    (factId: string | undefined) => {
+      if (!session?.notebookMode || session.completedAt) return;
+      const collected = session.collectedFacts ?? [];
+      if (factId && collected.includes(factId)) return;
+      const updated: PlayerSession = factId
+        ? { ...session, collectedFacts: [...collected, factId] }
+        : { ...session, notebookMisses: (session.notebookMisses ?? 0) + 1 };
+      setSession(updated);
+      saveSession(updated);
+    },
+    [session],
+  );
+
+  /**
+   * Present a fact to a character at the selected entry. A matching follow-up
+   * reveals what they held back; anything else counts as a wrong presentation.
+   */
+  const handlePresentEvidence = useCallback(
+    (characterId: string, factId: string): FollowUp | null => {
+      if (!gameCase || !session || session.completedAt || !selectedEntryId) return null;
+      const { session: updated, followUp } = presentEvidence(session, gameCase, selectedEntryId, characterId, factId);
+      if (updated !== session) {
+        setSession(updated);
+        saveSession(updated);
+      }
+      return followUp;
+    },
+    [gameCase, session, selectedEntryId],
+  );
+
   const handleSubmitAnswers = useCallback(
     (answers: PlayerAnswer[]) => {
       if (!gameCase || !session) return;
@@ -226,7 +339,8 @@ export function CasePage() {
   );
 
   const handleFactsClick = useCallback(() => {
-    if (factsAcknowledged) {
+    // The notebook holds only what the player chose to record, so it spoils nothing
+    if (factsAcknowledged || session?.notebookMode) {
       setSelectedEntryId(FACTS_VIEW_ID);
       setNewVisitEntryId(null);
       return;
@@ -240,7 +354,37 @@ export function CasePage() {
       setSelectedEntryId(FACTS_VIEW_ID);
       setNewVisitEntryId(null);
     }
-  }, [factsAcknowledged, caseDate]);
+  }, [factsAcknowledged, caseDate, session?.notebookMode]);
+
+  // Notebook mode needs every scene's passage markup; older cases don't have it
+  const supportsNotebook = useMemo(
+    () => gameCase != null && Object.values(gameCase.casebook).every((e) => e.sceneSpans),
+    [gameCase?.casebook],
+  );
+
+  // Free-text answers are matched against aliases; older cases don't have them
+  const supportsFreeText = useMemo(
+    () => gameCase != null && gameCase.questions.every((q) => q.answer.aliases),
+    [gameCase?.questions],
+  );
+
+  // Offer "Present evidence" everywhere, not only where it pays off, so the option itself gives nothing away
+  const hasFollowUps = useMemo(
+    () => gameCase != null && Object.values(gameCase.casebook).some((e) => e.followUps?.length),
+    [gameCase?.casebook],
+  );
+
+  // What the Facts view and the quiz draw on: the notebook in notebook mode, else everything discovered
+  const knownFactIds = useMemo(
+    () => (session?.notebookMode ? session.collectedFacts ?? [] : session?.discoveredFacts ?? []),
+    [session?.notebookMode, session?.collectedFacts, session?.discoveredFacts],
+  );
+  const knownSubjectIds = useMemo(
+    () => (session?.notebookMode && gameCase
+      ? subjectsOfFacts(knownFactIds, gameCase.facts)
+      : session?.discoveredSubjects ?? []),
+    [session?.notebookMode, session?.discoveredSubjects, knownFactIds, gameCase?.facts],
+  );
 
   // Visible casebook entries: no gate, or gate satisfied by discovered facts
   // (Must be before any early returns to satisfy Rules of Hooks.)
@@ -248,20 +392,28 @@ export function CasePage() {
     if (!gameCase || !session) return {};
     const discovered = new Set(session.discoveredFacts);
     return Object.fromEntries(
-      Object.entries(gameCase.casebook).filter(([, e]) => {
-        const gate = e.requiresAnyFact;
-        return !gate?.length || gate.some((fid) => discovered.has(fid));
-      }),
+      Object.entries(gameCase.casebook).filter(([, e]) => gateMet(e.requiresAnyFact, discovered)),
     );
   }, [gameCase?.casebook, session?.discoveredFacts]);
 
-  // Entry ids that just became visible due to the current visit (for "New lead!" indicator).
+  // Available documents: no gate, or gate satisfied by discovered facts
+  const visibleDocuments = useMemo((): Record<string, CaseDocument> => {
+    if (!gameCase?.documents || !session) return {};
+    const discovered = new Set(session.discoveredFacts);
+    return Object.fromEntries(
+      Object.entries(gameCase.documents).filter(([, d]) => gateMet(d.requiresAnyFact, discovered)),
+    );
+  }, [gameCase?.documents, session?.discoveredFacts]);
+
+  // Entry ids that just became visible due to the current visit or reading (for "New lead!" indicator).
   // Only entries that were NOT visible before this visit count as new leads.
   const newlyVisibleEntryIds = useMemo(() => {
     if (!newVisitEntryId || !gameCase || !session) return new Set<string>();
-    const entry = gameCase.casebook[newVisitEntryId];
-    if (!entry) return new Set<string>();
-    const revealedByThisVisit = new Set(entry.revealsFactIds);
+    const source = newVisitEntryId.startsWith(DOCUMENT_VIEW_PREFIX)
+      ? gameCase.documents?.[newVisitEntryId.slice(DOCUMENT_VIEW_PREFIX.length)]
+      : gameCase.casebook[newVisitEntryId];
+    if (!source) return new Set<string>();
+    const revealedByThisVisit = new Set(source.revealsFactIds);
     const discoveredBeforeThisVisit = new Set(
       session.discoveredFacts.filter((fid) => !revealedByThisVisit.has(fid)),
     );
@@ -275,7 +427,7 @@ export function CasePage() {
       if (!wasVisibleBefore(e)) result.add(e.entryId);
     }
     return result;
-  }, [newVisitEntryId, gameCase?.casebook, session?.discoveredFacts, visibleEntries]);
+  }, [newVisitEntryId, gameCase?.casebook, gameCase?.documents, session?.discoveredFacts, visibleEntries]);
 
   // Loading / error states
   if (error) {
@@ -303,12 +455,31 @@ export function CasePage() {
   if (phase === 'investigation') {
     const isFactsView = selectedEntryId === FACTS_VIEW_ID;
     const isQuestionsView = selectedEntryId === QUESTIONS_VIEW_ID;
+    const selectedDocumentId = selectedEntryId?.startsWith(DOCUMENT_VIEW_PREFIX)
+      ? selectedEntryId.slice(DOCUMENT_VIEW_PREFIX.length)
+      : null;
+    const selectedDocument = selectedDocumentId ? gameCase.documents?.[selectedDocumentId] : undefined;
+    const selectedAddressId = selectedEntryId?.startsWith(ADDRESS_VIEW_PREFIX)
+      ? selectedEntryId.slice(ADDRESS_VIEW_PREFIX.length)
+      : null;
     const selectedEntry =
       selectedEntryId &&
       selectedEntryId !== FACTS_VIEW_ID &&
-      selectedEntryId !== QUESTIONS_VIEW_ID
+      selectedEntryId !== QUESTIONS_VIEW_ID &&
+      !selectedDocumentId &&
+      !selectedAddressId
         ? gameCase.casebook[selectedEntryId]
         : null;
+    // A wasted visit: an entry called at too early, or a filler listing
+    const wastedEntry = selectedAddressId ? gameCase.casebook[selectedAddressId] : undefined;
+    const wastedListing = selectedAddressId ? gameCase.directory?.[selectedAddressId] : undefined;
+    const wastedVisit = wastedEntry
+      ? {
+          label: wastedEntry.label,
+          address: wastedEntry.address,
+          scene: wastedEntry.turnedAwayScene ?? 'You find nothing of interest here.',
+        }
+      : wastedListing;
 
     return (
       <div className="fixed inset-x-0 top-0 flex flex-col overflow-hidden bg-stone-50 h-[100svh] min-h-0">
@@ -416,16 +587,18 @@ export function CasePage() {
                 >
                   <div className="flex items-center gap-2">
                     <span className={`inline-block w-2 h-2 rounded-full flex-shrink-0 ${
-                      (session?.discoveredFacts.length ?? 0) > 0 ? 'bg-green-500' : 'bg-stone-300'
+                      knownFactIds.length > 0 ? 'bg-green-500' : 'bg-stone-300'
                     }`} />
                     <div className="min-w-0 flex-1">
-                      <div className="font-medium text-sm truncate">Facts</div>
+                      <div className="font-medium text-sm truncate">
+                        {session?.notebookMode ? 'Notebook' : 'Facts'}
+                      </div>
                       <div className={`text-xs truncate ${
                         isFactsView ? 'text-stone-300' : 'text-stone-500'
                       }`}>
-                        {(session?.discoveredFacts.length ?? 0) > 0
-                          ? `${session?.discoveredFacts.length ?? 0} discovered`
-                          : 'Discovered clues'}
+                        {knownFactIds.length > 0
+                          ? `${knownFactIds.length} ${session?.notebookMode ? 'recorded' : 'discovered'}`
+                          : session?.notebookMode ? 'Evidence you record' : 'Discovered clues'}
                       </div>
                     </div>
                     <span className={`text-xs px-1.5 py-0.5 rounded flex-shrink-0 ${
@@ -461,18 +634,32 @@ export function CasePage() {
                   </div>
                 </button>
               </div>
-              <div className="min-h-0 flex-1 overflow-y-auto">
-                <CasebookList
-                  entries={visibleEntries}
-                  visitedEntryIds={session?.visitedEntries ?? []}
-                  newlyVisibleEntryIds={newlyVisibleEntryIds}
-                  selectedEntryId={
-                    selectedEntryId === FACTS_VIEW_ID || selectedEntryId === QUESTIONS_VIEW_ID
-                      ? null
-                      : selectedEntryId
-                  }
-                  onSelectEntry={handleSelectEntry}
-                />
+              <div className="min-h-0 flex-1 overflow-y-auto space-y-4">
+                {Object.keys(visibleDocuments).length > 0 && (
+                  <DocumentList
+                    documents={visibleDocuments}
+                    readDocumentIds={session?.readDocuments ?? []}
+                    selectedDocumentId={selectedDocumentId}
+                    onSelectDocument={handleReadDocument}
+                  />
+                )}
+                {session?.directoryMode ? (
+                  <AddressDirectory
+                    entries={gameCase.casebook}
+                    listings={gameCase.directory ?? {}}
+                    visitedIds={[...session.visitedEntries, ...(session.wastedVisits ?? [])]}
+                    selectedId={selectedEntry ? selectedEntry.entryId : selectedAddressId}
+                    onVisit={handleVisitAddress}
+                  />
+                ) : (
+                  <CasebookList
+                    entries={visibleEntries}
+                    visitedEntryIds={session?.visitedEntries ?? []}
+                    newlyVisibleEntryIds={newlyVisibleEntryIds}
+                    selectedEntryId={selectedEntry ? selectedEntry.entryId : null}
+                    onSelectEntry={handleSelectEntry}
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -488,9 +675,56 @@ export function CasePage() {
                   <CasebookEntryView
                     entry={selectedEntry}
                     characters={gameCase.characters}
+                    locations={gameCase.locations}
                     facts={gameCase.facts}
                     isNewVisit={newVisitEntryId === selectedEntryId}
                     showNewFactsDiscovered={factsAcknowledged}
+                    showFactHighlights={factsAcknowledged}
+                    notebookMode={session?.notebookMode}
+                    collectedFactIds={session?.collectedFacts}
+                    onSelectPassage={handleSelectPassage}
+                    onPresentEvidence={hasFollowUps && !session?.completedAt ? handlePresentEvidence : undefined}
+                    knownFactIds={knownFactIds}
+                    completedFollowUpIds={session?.completedFollowUps}
+                  />
+                </div>
+              </div>
+            ) : wastedVisit ? (
+              <div
+                ref={contentScrollRef}
+                className="rounded-lg border border-stone-200 bg-white flex-1 min-h-0 overflow-y-auto"
+              >
+                <div className="p-6 space-y-6">
+                  <div>
+                    <h2 className="text-xl font-serif font-semibold">{wastedVisit.label}</h2>
+                    <p className="text-sm text-stone-500">{wastedVisit.address}</p>
+                  </div>
+                  <div className="space-y-4">
+                    {wastedVisit.scene.split('\n').filter(p => p.trim()).map((paragraph, i) => (
+                      <p key={i} className="text-stone-700 leading-relaxed">
+                        {paragraph}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            ) : selectedDocument ? (
+              <div
+                ref={contentScrollRef}
+                className="rounded-lg border border-stone-200 bg-white flex-1 min-h-0 overflow-y-auto"
+              >
+                <div className="p-6">
+                  <DocumentReader
+                    document={selectedDocument}
+                    characters={gameCase.characters}
+                    locations={gameCase.locations}
+                    facts={gameCase.facts}
+                    isNewRead={newVisitEntryId === selectedEntryId}
+                    showNewFactsDiscovered={factsAcknowledged}
+                    showFactHighlights={factsAcknowledged}
+                    notebookMode={session?.notebookMode}
+                    collectedFactIds={session?.collectedFacts}
+                    onSelectPassage={handleSelectPassage}
                   />
                 </div>
               </div>
@@ -502,10 +736,10 @@ export function CasePage() {
                 <div className="p-6">
                   <FactsList
                     facts={gameCase.facts}
-                    discoveredFactIds={session?.discoveredFacts ?? []}
+                    discoveredFactIds={knownFactIds}
                     characters={gameCase.characters}
                     locations={gameCase.locations}
-                    discoveredSubjectIds={session?.discoveredSubjects ?? []}
+                    discoveredSubjectIds={knownSubjectIds}
                   />
                 </div>
               </div>
@@ -529,8 +763,9 @@ export function CasePage() {
                       facts={gameCase.facts}
                       characters={gameCase.characters}
                       locations={gameCase.locations}
-                      discoveredFactIds={session?.discoveredFacts ?? []}
-                      discoveredSubjectIds={session?.discoveredSubjects ?? []}
+                      discoveredFactIds={knownFactIds}
+                      discoveredSubjectIds={knownSubjectIds}
+                      freeText={session?.freeTextAnswers}
                       onSubmit={handleSubmitAnswers}
                     />
                   )}
@@ -554,6 +789,69 @@ export function CasePage() {
                     <span>{gameCase.setting.date}</span>
                   </div>
                   <p className="text-sm text-stone-500 italic">{gameCase.setting.atmosphere}</p>
+                  {supportsNotebook && session && session.visitedEntries.length === 0 && !session.wastedVisits?.length && !session.completedAt && (
+                    <div className="flex items-center justify-between gap-3 rounded-md border border-amber-200 bg-amber-50 px-4 py-3">
+                      <div className="text-sm text-amber-900">
+                        <span className="font-semibold">Notebook mode</span>
+                        <span className="block text-amber-800">
+                          Record evidence yourself by tapping the sentences that reveal it. The questions only offer what your notebook holds. Choose before your first visit.
+                        </span>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={handleToggleNotebookMode}
+                        className={`shrink-0 px-3 py-1.5 rounded-md text-sm font-medium border ${
+                          session.notebookMode
+                            ? 'bg-amber-700 text-white border-amber-700 hover:bg-amber-800'
+                            : 'bg-white text-amber-800 border-amber-300 hover:bg-amber-100'
+                        }`}
+                      >
+                        {session.notebookMode ? 'On' : 'Off'}
+                      </button>
+                    </div>
+                  )}
+                  {gameCase.directory && session && session.visitedEntries.length === 0 && !session.wastedVisits?.length && !session.completedAt && (
+                    <div className="flex items-center justify-between gap-3 rounded-md border border-amber-200 bg-amber-50 px-4 py-3">
+                      <div className="text-sm text-amber-900">
+                        <span className="font-semibold">Directory mode</span>
+                        <span className="block text-amber-800">
+                          Find addresses yourself by searching the directory. Most listings have nothing to do with the case, and calling anywhere too early is a wasted visit. Choose before your first visit.
+                        </span>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={handleToggleDirectoryMode}
+                        className={`shrink-0 px-3 py-1.5 rounded-md text-sm font-medium border ${
+                          session.directoryMode
+                            ? 'bg-amber-700 text-white border-amber-700 hover:bg-amber-800'
+                            : 'bg-white text-amber-800 border-amber-300 hover:bg-amber-100'
+                        }`}
+                      >
+                        {session.directoryMode ? 'On' : 'Off'}
+                      </button>
+                    </div>
+                  )}
+                  {supportsFreeText && session && session.visitedEntries.length === 0 && !session.wastedVisits?.length && !session.completedAt && (
+                    <div className="flex items-center justify-between gap-3 rounded-md border border-amber-200 bg-amber-50 px-4 py-3">
+                      <div className="text-sm text-amber-900">
+                        <span className="font-semibold">Answer in your own words</span>
+                        <span className="block text-amber-800">
+                          Type your answers to the questions instead of choosing from a list of what you discovered. Choose before your first visit.
+                        </span>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={handleToggleFreeTextAnswers}
+                        className={`shrink-0 px-3 py-1.5 rounded-md text-sm font-medium border ${
+                          session.freeTextAnswers
+                            ? 'bg-amber-700 text-white border-amber-700 hover:bg-amber-800'
+                            : 'bg-white text-amber-800 border-amber-300 hover:bg-amber-100'
+                        }`}
+                      >
+                        {session.freeTextAnswers ? 'On' : 'Off'}
+                      </button>
+                    </div>
+                  )}
                   <div className="border-t border-stone-200 pt-4 space-y-4">
                     {gameCase.introduction.split('\n').filter(p => p.trim()).map((paragraph, i) => (
                       <p key={i} className="text-stone-700 leading-relaxed">
@@ -1,6 +1,7 @@
 import { useEffect, useState, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { api } from '../api/client.ts';
+import { TranscriptsModal } from '../components/TranscriptsModal.tsx';
 
 /** Ordered pipeline steps for progress graph (must match backend PIPELINE_STEPS). */
 const PIPELINE_STEPS = [
@@ -12,13 +13,25 @@ const PIPELINE_STEPS = [
   'computeFacts',
   'generateFacts',
   'generateIntroduction',
+  'generateDocuments',
   'generateCasebook',
+  'generateFollowUps',
   'generateProse',
+  'generateDirectory',
   'generateQuestions',
   'computeOptimalPath',
+  'computeDifficulty',
+  'generateSolution',
+  'simulatePlaythroughs',
   'storeCase',
 ] as const;
 
+/**
+ * Steps with model usage, in pipeline order. ValidateProse is not a progress
+ * step, but its coverage judge is priced on its own, after the prose it checks.
+ */
+const USAGE_STEPS = PIPELINE_STEPS.flatMap((s) => (s === 'generateProse' ? [s, 'validateProse'] : [s]));
+
 const STEP_LABELS: Record<string, string> = {
   generateTemplate: 'Generate Template',
   generateEvents: 'Generate Events',
@@ -28,10 +41,17 @@ const STEP_LABELS: Record<string, string> = {
   computeFacts: 'Compute Facts',
   generateFacts: 'Generate Facts',
   generateIntroduction: 'Generate Introduction',
+  generateDocuments: 'Generate Documents',
   generateCasebook: 'Generate Casebook',
+  generateFollowUps: 'Generate Follow-Ups',
   generateProse: 'Generate Prose',
+  validateProse: 'Validate Prose',
+  generateDirectory: 'Generate Directory',
   generateQuestions: 'Generate Questions',
   computeOptimalPath: 'Compute Optimal Path',
+  computeDifficulty: 'Compute Difficulty',
+  generateSolution: 'Generate Solution',
+  simulatePlaythroughs: 'Simulate Playthroughs',
   storeCase: 'Store Case',
 };
 
@@ -41,6 +61,10 @@ interface ValidationResult {
   warnings: string[];
   reachableFactIds?: string[];
   reachableEntryIds?: string[];
+  /** Prose validation: entryId -> factIds the scene does not convey. */
+  uncoveredFacts?: Record<string, string[]>;
+  /** Prose validation: entryId -> problems with the scene's inline markup. */
+  markupErrors?: Record<string, string[]>;
 }
 
 interface CaseSummary {
@@ -52,7 +76,34 @@ interface CaseSummary {
   narrativeTone?: string;
   mysteryStyle?: string;
   atmosphere?: string;
-  modelConfig?: { default: string; steps?: Record<string, string> };
+  /** Step entries are a model ID/shortcut or settings (model, thinking, thinkingBudget, maxTokens, temperature). */
+  modelConfig?: { default: string; steps?: Record<string, string | Record<string, unknown>> };
+  /** Spending cap in USD, if the run was started with one. */
+  budget?: number;
+}
+
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/** Per-draft model usage (backend DraftUsage). */
+interface DraftUsage extends UsageTotals {
+  byStep: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}
+
+/** Live progress of a streaming step (backend StepProgress). */
+interface StepProgress {
+  step: string;
+  reasoningBytes: number;
+  textBytes: number;
+  itemsCompleted?: number;
+  itemsTotal?: number;
+  itemLabel?: string;
+  updatedAt: string;
 }
 
 /** One draft = one full detail card (draft-driven list from GET /generation/drafts). */
@@ -73,6 +124,10 @@ interface DraftListItem {
   forkedFrom?: string;
   /** Step at which this draft was forked. */
   forkedAtStep?: string;
+  /** Tokens and estimated cost so far. */
+  usage?: DraftUsage;
+  /** Live progress of the running step, when it streams. */
+  stepProgress?: StepProgress;
 }
 
 const POLL_INTERVAL_MS = 8000;
@@ -85,6 +140,58 @@ function formatDateTime(iso: string): string {
   });
 }
 
+function formatCost(usd: number): string {
+  return `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
+
+function formatTokens(n: number): string {
+  return n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+}
+
+function formatBytes(n: number): string {
+  return n >= 1024 ? `${(n / 1024).toFixed(1)} KB` : `${n} B`;
+}
+
+function StepProgressLine({ progress }: { progress: StepProgress }) {
+  const secondsAgo = Math.max(0, Math.round((Date.now() - new Date(progress.updatedAt).getTime()) / 1000));
+  return (
+    <p className="text-xs text-blue-800">
+      {progress.reasoningBytes > 0 && `Thinking: ${formatBytes(progress.reasoningBytes)} · `}
+      Output: {formatBytes(progress.textBytes)}
+      {progress.itemsTotal !== undefined &&
+        ` · ${progress.itemsCompleted ?? 0}/${progress.itemsTotal} ${progress.itemLabel ?? 'items'}`}
+      <span className="text-stone-500"> (updated {secondsAgo}s ago)</span>
+    </p>
+  );
+}
+
+function UsageTable({ title, rows }: { title: string; rows: [string, UsageTotals][] }) {
+  return (
+    <table className="w-full text-xs mt-2">
+      <thead>
+        <tr className="text-stone-500 text-left">
+          <th className="font-medium py-0.5">{title}</th>
+          <th className="font-medium py-0.5 text-right">Calls</th>
+          <th className="font-medium py-0.5 text-right">In</th>
+          <th className="font-medium py-0.5 text-right">Out</th>
+          <th className="font-medium py-0.5 text-right">Cost</th>
+        </tr>
+      </thead>
+      <tbody className="text-stone-700">
+        {rows.map(([name, t]) => (
+          <tr key={name} className="border-t border-stone-100">
+            <td className="py-0.5 font-mono truncate max-w-[16rem]" title={name}>{name}</td>
+            <td className="py-0.5 text-right">{t.calls}</td>
+            <td className="py-0.5 text-right">{formatTokens(t.inputTokens)}</td>
+            <td className="py-0.5 text-right">{formatTokens(t.outputTokens)}</td>
+            <td className="py-0.5 text-right">{formatCost(t.costUsd)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
 function statusBadge(status: string): string {
   switch (status) {
     case 'RUNNING':
@@ -228,9 +335,11 @@ function ErrorDetailModal({
 function DraftCard({
   draft,
   onViewError,
+  onViewTranscripts,
 }: {
   draft: DraftListItem;
   onViewError: () => void;
+  onViewTranscripts: () => void;
 }) {
   const hasErrorDetails =
     (draft.lastValidationResult && !draft.lastValidationResult.valid) ||
@@ -298,6 +407,33 @@ function DraftCard({
               </p>
             </div>
           )}
+          <div className="sm:col-span-2">
+            <span className="text-stone-500">Cost</span>
+            {draft.usage ? (
+              <details className="mt-0.5">
+                <summary className="cursor-pointer text-sm text-stone-700">
+                  <span className="font-medium text-stone-900">{formatCost(draft.usage.costUsd)}</span>
+                  {draft.caseSummary.budget !== undefined && (
+                    <span className="text-stone-500"> of {formatCost(draft.caseSummary.budget)} budget</span>
+                  )}
+                  <span className="text-stone-500">
+                    {' '}· {formatTokens(draft.usage.inputTokens)} in / {formatTokens(draft.usage.outputTokens)} out
+                    · {draft.usage.calls} calls
+                  </span>
+                </summary>
+                <UsageTable
+                  title="Step"
+                  rows={USAGE_STEPS.filter((s) => draft.usage!.byStep[s]).map((s) => [
+                    STEP_LABELS[s] ?? s,
+                    draft.usage!.byStep[s],
+                  ])}
+                />
+                <UsageTable title="Model" rows={Object.entries(draft.usage.byModel)} />
+              </details>
+            ) : (
+              <p className="text-sm text-stone-700 mt-0.5">—</p>
+            )}
+          </div>
           <div className="sm:col-span-2">
             <span className="text-stone-500">Version</span>
             <p className="text-sm text-stone-700 mt-0.5">
@@ -330,8 +466,12 @@ function DraftCard({
           </p>
         )}
 
-        {hasErrorDetails && (
-          <div>
+        {draft.status === 'RUNNING' && draft.stepProgress && draft.stepProgress.step === draft.currentStep && (
+          <StepProgressLine progress={draft.stepProgress} />
+        )}
+
+        <div className="flex flex-wrap gap-4">
+          {hasErrorDetails && (
             <button
               type="button"
               onClick={onViewError}
@@ -341,8 +481,15 @@ function DraftCard({
                 ? 'View validation details'
                 : 'View error details'}
             </button>
-          </div>
-        )}
+          )}
+          <button
+            type="button"
+            onClick={onViewTranscripts}
+            className="text-sm text-stone-600 hover:text-stone-900 font-medium underline"
+          >
+            View model transcripts
+          </button>
+        </div>
       </div>
     </div>
   );
@@ -351,6 +498,7 @@ function DraftCard({
 export function GenerationPage() {
   const [drafts, setDrafts] = useState<DraftListItem[]>([]);
   const [errorDetailDraft, setErrorDetailDraft] = useState<DraftListItem | null>(null);
+  const [transcriptsDraftId, setTranscriptsDraftId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [listError, setListError] = useState<string | null>(null);
 
@@ -415,6 +563,7 @@ export function GenerationPage() {
               <DraftCard
                 draft={draft}
                 onViewError={() => setErrorDetailDraft(draft)}
+                onViewTranscripts={() => setTranscriptsDraftId(draft.draftId)}
               />
             </li>
           ))}
@@ -434,6 +583,14 @@ export function GenerationPage() {
           onClose={() => setErrorDetailDraft(null)}
         />
       )}
+
+      {transcriptsDraftId && (
+        <TranscriptsModal
+          draftId={transcriptsDraftId}
+          stepLabel={(s) => STEP_LABELS[s] ?? s}
+          onClose={() => setTranscriptsDraftId(null)}
+        />
+      )}
     </div>
   );
 }
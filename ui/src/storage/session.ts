@@ -1,5 +1,4 @@
-import type { PlayerSession, CaseResult } from '@shared/index';
-import type { Case } from '@shared/index';
+import type { PlayerSession } from '@shared/index';
 
 const SESSION_PREFIX = 'cd-session-';
 
@@ -46,61 +45,3 @@ export function getAllSessions(): Record<string, PlayerSession> {
   }
   return sessions;
 }
-
-/** Create a new session for a case. Optionally seed with intro facts, subjects, and case versionId. */
-export function createSession(
-  caseDate: string,
-  introductionFactIds?: string[],
-  introductionSubjects?: string[],
-  versionId?: string,
-): PlayerSession {
-  const session: PlayerSession = {
-    caseDate,
-    visitedEntries: [],
-    discoveredFacts: introductionFactIds ?? [],
-    discoveredSubjects: introductionSubjects ?? [],
-    answers: [],
-    startedAt: new Date().toISOString(),
-    versionId,
-  };
-  saveSession(session);
-  return session;
-}
-
-/** True if the player's selected answerId is one of the question's acceptable answers. */
-function isCorrect(answerId: string, acceptedIds: string[]): boolean {
-  return acceptedIds.includes(answerId);
-}
-
-const PENALTY_PER_EXTRA_VISIT = 5;
-
-/** Compute the case result from a completed session. */
-export function computeResult(session: PlayerSession, gameCase: Case): CaseResult {
-  let questionsCorrect = 0;
-  for (const question of gameCase.questions) {
-    const playerAnswer = session.answers.find(a => a.questionId === question.questionId);
-    if (playerAnswer && isCorrect(playerAnswer.answerId, question.answer.acceptedIds)) {
-      questionsCorrect++;
-    }
-  }
-
-  const questionsScore = gameCase.questions.reduce((sum, question) => {
-    const playerAnswer = session.answers.find(a => a.questionId === question.questionId);
-    if (playerAnswer && isCorrect(playerAnswer.answerId, question.answer.acceptedIds)) {
-      return sum + question.points;
-    }
-    return sum;
-  }, 0);
-
-  const entriesVisited = session.visitedEntries.length;
-  const optimalEntries = gameCase.optimalPath.length;
-  const visitPenalty = Math.max(0, entriesVisited - optimalEntries) * PENALTY_PER_EXTRA_VISIT;
-
-  return {
-    questionsCorrect,
-    questionsTotal: gameCase.questions.length,
-    entriesVisited,
-    optimalEntries,
-    score: questionsScore - visitPenalty,
-  };
-}
@@ -9,6 +9,7 @@ export default defineConfig({
   resolve: {
     alias: {
       '@shared': path.resolve(__dirname, '../lib/types'),
+      '@game': path.resolve(__dirname, '../lib/game'),
     },
   },
 })